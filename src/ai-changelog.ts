@@ -5,9 +5,10 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import OpenAI from 'openai';
-import type { DesignChange } from './differ.js';
+import type { ChangeKind, DesignChange } from './differ.js';
 import { formatChangesForLLM } from './differ.js';
 import type { LLMProvider } from './config.js';
+import { formatNotesForLLM, type DesignNotes } from './notes.js';
 
 const SYSTEM_PROMPT = `Sen bir tasarım değişikliği analizcisisin. Sana bir Figma dosyasındaki tasarım değişiklikleri verilecek.
 
@@ -15,7 +16,10 @@ Görevin:
 - Değişiklikleri developer'lar için anlaşılır, kısa ve öz bir changelog'a dönüştür
 - Her değişikliği madde işareti ile listele
 - Teknik detayları (hex renk kodları, piksel değerleri) insanların anlayacağı şekilde açıkla
-- Önemsiz değişiklikleri (1-2 piksellik kaymalar) atla
+- Satır başındaki işaretler: + eklendi, - silindi, ~ değişti, > başka bir katmana taşındı, ^ aynı katman içinde sırası değişti
+- Taşıma ve sıra değişikliklerini, DOM/render sırasını etkileyebileceği için mutlaka belirt
+- Component master değişikliklerini etkilediği instance sayısıyla tek madde olarak yaz; "Override:" ile başlayanlar tek bir instance'a özeldir
+- Versiyon notları veya tasarımcı yorumları verildiyse, değişikliğin nedenini ilgili maddenin yanında kısaca belirt (💬); isimli versiyonun adını changelog'un başına yaz
 - Türkçe yaz
 
 Örnek giriş:
@@ -108,27 +112,41 @@ export class AIChangelog {
 
     async generateChangelog(
         fileName: string,
-        changes: DesignChange[]
+        changes: DesignChange[],
+        notes: Partial<DesignNotes> = {}
     ): Promise<string> {
         if (changes.length === 0) return '';
 
         const diffText = formatChangesForLLM(changes);
-        const userPrompt = `Dosya: "${fileName}"\n\nDeğişiklikler:\n${diffText}`;
+        const notesText = formatNotesForLLM(notes);
+        let userPrompt = `Dosya: "${fileName}"\n\nDeğişiklikler:\n${diffText}`;
+        if (notesText) userPrompt += `\n\n${notesText}`;
 
         try {
             const result = await this.client.generate(userPrompt);
-            return result || fallbackChangelog(fileName, changes);
+            return result || fallbackChangelog(fileName, changes, notes);
         } catch (error) {
             console.error(`LLM error (${this.provider}), using fallback:`, error);
-            return fallbackChangelog(fileName, changes);
+            return fallbackChangelog(fileName, changes, notes);
         }
     }
 }
 
 // ─── Rule-based fallback if LLM fails ───
 
-function fallbackChangelog(fileName: string, changes: DesignChange[]): string {
+const FALLBACK_ICONS: Record<ChangeKind, string> = {
+    ADDED: '✨',
+    REMOVED: '🗑️',
+    MODIFIED: '🔄',
+    MOVED: '🔀',
+    REORDERED: '↕️',
+};
+
+function fallbackChangelog(fileName: string, changes: DesignChange[], notes: Partial<DesignNotes> = {}): string {
     const lines: string[] = [`📋 **${fileName}** — ${changes.length} değişiklik algılandı`];
+    for (const v of notes.versions || []) {
+        lines.push(`🏷️ ${[v.label && `**${v.label}**`, v.description].filter(Boolean).join(' — ')}`);
+    }
 
     const byPage = new Map<string, DesignChange[]>();
     for (const c of changes) {
@@ -140,13 +158,19 @@ function fallbackChangelog(fileName: string, changes: DesignChange[]): string {
     for (const [page, pageChanges] of byPage) {
         if (byPage.size > 1) lines.push(`\n**${page}**`);
         for (const c of pageChanges.slice(0, 20)) {
-            const icon = c.kind === 'ADDED' ? '✨' : c.kind === 'REMOVED' ? '🗑️' : '🔄';
-            lines.push(`• ${icon} ${c.path}: ${c.summary}`);
+            lines.push(`• ${FALLBACK_ICONS[c.kind]} ${c.path}: ${c.summary}`);
         }
         if (pageChanges.length > 20) {
             lines.push(`  ...ve ${pageChanges.length - 20} değişiklik daha`);
         }
     }
 
+    if (notes.comments?.length) {
+        lines.push(`\n**💬 Yorumlar**`);
+        for (const c of notes.comments) {
+            lines.push(`• ${c.path} — ${c.author}: ${c.message}`);
+        }
+    }
+
     return lines.join('\n');
 }
@@ -0,0 +1,216 @@
+/**
+ * REST API — authenticated JSON endpoints next to /webhook
+ *
+ *   POST   /api/files                      { "fileKey": "...", "channelWebhook"?: "...", "priority"?: "high|normal|low", "account"?: "<figma user id>" } → start tracking (baseline runs in background)
+ *   DELETE /api/files/:fileKey             → stop tracking (history is kept)
+ *   POST   /api/files/:fileKey/process     → run the change pipeline now
+ *   GET    /api/files/:fileKey/diff?from=&to=  → diff two stored versions (to defaults to latest)
+ *   GET    /api/accounts                   → Figma accounts connected via /oauth/start (without tokens)
+ *   DELETE /api/accounts/:userId           → disconnect an account; its files fall back to the default credentials
+ *
+ * Every request needs `Authorization: Bearer <API_TOKEN>`. Without API_TOKEN the API is disabled.
+ */
+
+import type http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import type { Store } from './store.js';
+import type { PipelineResult } from './pipeline.js';
+import { FILE_PRIORITIES, type FilePriority } from './rate-budget.js';
+import { isWebhookUrl } from './notification.js';
+
+export type ProcessFileFn = (fileKey: string) => Promise<PipelineResult | undefined>;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function tokensMatch(expected: string, given: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(given);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export class ApiRouter {
+    private store: Store;
+    private token?: string;
+    private processFile: ProcessFileFn;
+
+    constructor(store: Store, token: string | undefined, processFile: ProcessFileFn) {
+        this.store = store;
+        this.token = token;
+        this.processFile = processFile;
+    }
+
+    get enabled(): boolean {
+        return !!this.token;
+    }
+
+    /**
+     * Serve an API route. Resolves false when the request isn't an API route.
+     */
+    async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<boolean> {
+        if (!this.token || !req.url?.startsWith('/api/')) return false;
+
+        // Routes are matched on the raw segments: nothing user-supplied is decoded before the token check.
+        // Unmatched /api/ routes (the dashboard's read-only JSON) are left to the next handler.
+        const url = new URL(req.url, 'http://localhost');
+        const raw = url.pathname.split('/').filter(Boolean);
+        const method = req.method;
+        const files = raw[1] === 'files';
+        const accounts = raw[1] === 'accounts';
+
+        const isAddFile = files && method === 'POST' && raw.length === 2;
+        const isRemoveFile = files && method === 'DELETE' && raw.length === 3;
+        const isProcess = files && method === 'POST' && raw.length === 4 && raw[3] === 'process';
+        const isDiff = files && method === 'GET' && raw.length === 4 && raw[3] === 'diff';
+        const isListAccounts = accounts && method === 'GET' && raw.length === 2;
+        const isRemoveAccount = accounts && method === 'DELETE' && raw.length === 3;
+        if (!isAddFile && !isRemoveFile && !isProcess && !isDiff && !isListAccounts && !isRemoveAccount) return false;
+
+        const auth = req.headers.authorization || '';
+        const given = auth.startsWith('Bearer ') ? auth.slice('Bearer '.length) : '';
+        if (!tokensMatch(this.token, given)) {
+            sendJson(res, 401, { error: 'Unauthorized' });
+            return true;
+        }
+
+        // File key or account ID
+        let id = '';
+        try {
+            if (raw[2]) id = decodeURIComponent(raw[2]);
+        } catch {
+            sendJson(res, 400, { error: 'Malformed path' });
+            return true;
+        }
+
+        try {
+            if (isAddFile) await this.addFile(req, res);
+            else if (isRemoveFile) this.removeFile(res, id);
+            else if (isProcess) await this.process(res, id);
+            else if (isDiff) this.diff(res, id, url.searchParams);
+            else if (isListAccounts) this.listAccounts(res);
+            else this.removeAccount(res, id);
+        } catch (err) {
+            console.error('❌ API hatası:', err);
+            sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+        }
+        return true;
+    }
+
+    // ─── Handlers ───
+
+    private async addFile(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let fileKey: unknown;
+        let channelWebhook: unknown;
+        let priority: unknown;
+        let account: unknown;
+        try {
+            ({ fileKey, channelWebhook, priority, account } = JSON.parse(await readBody(req)));
+        } catch {
+            sendJson(res, 400, { error: 'Body must be JSON: { "fileKey": "..." }' });
+            return;
+        }
+        if (typeof fileKey !== 'string' || !/^[A-Za-z0-9]+$/.test(fileKey)) {
+            sendJson(res, 400, { error: 'fileKey is required' });
+            return;
+        }
+        if (channelWebhook !== undefined && (typeof channelWebhook !== 'string' || !isWebhookUrl(channelWebhook))) {
+            sendJson(res, 400, { error: 'channelWebhook must be an http(s) URL' });
+            return;
+        }
+
+        if (priority !== undefined && !FILE_PRIORITIES.includes(priority as FilePriority)) {
+            sendJson(res, 400, { error: `priority must be one of: ${FILE_PRIORITIES.join(', ')}` });
+            return;
+        }
+
+        if (account !== undefined && (typeof account !== 'string' || !this.store.getOAuthAccount(account))) {
+            sendJson(res, 400, { error: 'account must be the user ID of a connected Figma account' });
+            return;
+        }
+
+        this.store.trackFile(fileKey, channelWebhook);
+        if (priority) this.store.setPriority(fileKey, priority as FilePriority);
+        if (account) this.store.setAccount(fileKey, account);
+        console.log(`   ➕ Takibe alındı: ${fileKey}`);
+        const tracked = this.store.getTrackedFile(fileKey);
+        sendJson(res, 201, { fileKey, tracked: true, channelWebhook, priority: tracked?.priority, account: tracked?.account });
+
+        // Baseline right away so the next change has something to diff against
+        this.processFile(fileKey).catch(err => {
+            console.error(`❌ Baseline alınamadı (${fileKey}):`, err);
+        });
+    }
+
+    private removeFile(res: http.ServerResponse, fileKey: string): void {
+        if (!this.store.untrackFile(fileKey)) {
+            sendJson(res, 404, { error: 'File is not tracked' });
+            return;
+        }
+        console.log(`   ➖ Takipten çıkarıldı: ${fileKey}`);
+        sendJson(res, 200, { fileKey, tracked: false });
+    }
+
+    private async process(res: http.ServerResponse, fileKey: string): Promise<void> {
+        if (!this.store.isTracked(fileKey)) {
+            sendJson(res, 404, { error: 'File is not tracked' });
+            return;
+        }
+
+        const result = await this.processFile(fileKey);
+        if (!result) {
+            sendJson(res, 409, { error: 'File is already being processed' });
+            return;
+        }
+        sendJson(res, 200, { fileKey, ...result });
+    }
+
+    private diff(res: http.ServerResponse, fileKey: string, params: URLSearchParams): void {
+        const from = params.get('from');
+        if (!from) {
+            sendJson(res, 400, { error: 'from query parameter is required' });
+            return;
+        }
+
+        const to = params.get('to') || this.store.getLatestSnapshot(fileKey)?.version;
+        if (!this.store.getSnapshot(fileKey, from) || !to || !this.store.getSnapshot(fileKey, to)) {
+            sendJson(res, 404, { error: 'Snapshot not found' });
+            return;
+        }
+
+        const changes = this.store.diffVersions(fileKey, from, to);
+        sendJson(res, 200, { fileKey, from, to, changeCount: changes.length, changes });
+    }
+
+    private listAccounts(res: http.ServerResponse): void {
+        const accounts = this.store.listOAuthAccounts().map(({ userId, handle, email, connectedAt }) => ({ userId, handle, email, connectedAt }));
+        sendJson(res, 200, { accounts });
+    }
+
+    private removeAccount(res: http.ServerResponse, userId: string): void {
+        if (!this.store.removeOAuthAccount(userId)) {
+            sendJson(res, 404, { error: 'Account is not connected' });
+            return;
+        }
+        console.log(`   🔓 Figma hesabının bağlantısı kaldırıldı: ${userId}`);
+        sendJson(res, 200, { userId, connected: false });
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Version Attribution
+ * Several versions can land between two checks (poll interval, webhook debounce).
+ * Instead of crediting everything to the newest version's author, the versions
+ * since the stored one are listed as contributors, and — when the intermediate
+ * versions are replayed — each change is credited to the author whose version
+ * last touched it.
+ */
+
+import type { FigmaVersion } from './figma-client.js';
+import type { DesignChange } from './differ.js';
+
+export interface Contributor {
+    name: string;
+    /** Localised timestamp of their latest version in the range */
+    date: string;
+    version: string;
+    createdAt: string;
+}
+
+/** One replayed version: its author and the diff against the version before it */
+export interface VersionStep {
+    author: string;
+    changes: DesignChange[];
+}
+
+/**
+ * Versions newer than the stored one (newest first). Stops at the stored version,
+ * or at its snapshot date when that version isn't in the (paginated) list.
+ */
+export function versionsSince(versions: FigmaVersion[], prevVersion: string, prevCreatedAt?: Date): FigmaVersion[] {
+    const result: FigmaVersion[] = [];
+    for (const v of versions) {
+        if (v.id === prevVersion) break;
+        if (prevCreatedAt && new Date(v.created_at) <= prevCreatedAt) break;
+        result.push(v);
+    }
+    return result;
+}
+
+export function formatVersionDate(createdAt: string): string {
+    return new Date(createdAt).toLocaleString('tr-TR');
+}
+
+/**
+ * Everyone who saved a version in the range, most recent first, once each
+ */
+export function listContributors(versions: FigmaVersion[]): Contributor[] {
+    const seen = new Map<string, Contributor>();
+    for (const v of versions) {
+        if (seen.has(v.user.handle)) continue;
+        seen.set(v.user.handle, {
+            name: v.user.handle,
+            date: formatVersionDate(v.created_at),
+            version: v.id,
+            createdAt: v.created_at,
+        });
+    }
+    return [...seen.values()];
+}
+
+function changeKey(change: DesignChange): string {
+    return `${change.nodeId}|${change.property}`;
+}
+
+/**
+ * Credit each net change to the author of the last replayed version that touched
+ * the same node/property, falling back to whoever last touched the node at all.
+ * Steps are oldest first.
+ */
+export function attributeChanges(changes: DesignChange[], steps: VersionStep[]): DesignChange[] {
+    const lastAuthor = new Map<string, string>();
+    const nodeAuthor = new Map<string, string>();
+    for (const step of steps) {
+        for (const c of step.changes) {
+            lastAuthor.set(changeKey(c), step.author);
+            nodeAuthor.set(c.nodeId, step.author);
+        }
+    }
+
+    return changes.map(c => {
+        const author = lastAuthor.get(changeKey(c)) ?? nodeAuthor.get(c.nodeId);
+        return author ? { ...c, author } : c;
+    });
+}
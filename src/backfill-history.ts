@@ -0,0 +1,64 @@
+/**
+ * History Backfill CLI
+ * Usage:
+ *   npm run backfill <file_key>                 → every version Figma still has
+ *   npm run backfill <file_key> <from> [to]     → only a range
+ *
+ * <from>/<to> can be a version ID or a date (YYYY-MM-DD). Snapshots and changes
+ * are stored with their original dates; no notifications are sent.
+ */
+
+import { loadConfig } from './config.js';
+import { FigmaClient } from './figma-client.js';
+import { FigmaCache } from './figma-cache.js';
+import { FigmaAuth } from './figma-auth.js';
+import { Store } from './store.js';
+import { loadNoiseRules } from './noise.js';
+import { HistoryBackfill } from './backfill.js';
+import { RateBudget } from './rate-budget.js';
+
+const args = process.argv.slice(2);
+
+if (args.length < 1) {
+    console.log('Kullanım: npm run backfill <FILE_KEY> [FROM] [TO]');
+    console.log('Örnek:    npm run backfill abc123');
+    console.log('          npm run backfill abc123 2026-09-01 2026-10-01');
+    process.exit(1);
+}
+
+const [fileKey, fromRef, toRef] = args;
+
+// A bare date covers the whole day on both ends
+function parseRef(ref: string | undefined, endOfDay: boolean): string | Date | undefined {
+    if (!ref || !/^\d{4}-\d{2}-\d{2}/.test(ref)) return ref;
+    if (ref.length === 10) return new Date(`${ref}T${endOfDay ? '23:59:59' : '00:00:00'}Z`);
+    return new Date(ref);
+}
+
+const config = loadConfig();
+const store = new Store(config.dbPath);
+// Spends from the same budget as a running poller or webhook server
+const budget = new RateBudget(store, { limits: config.figma.rateLimits });
+const auth = new FigmaAuth(store, { token: config.figma.token, oauth: config.figma.oauth, apiBaseUrl: config.figma.apiBaseUrl });
+const backfill = new HistoryBackfill(
+    {
+        figma: new FigmaClient(auth, config.figma.apiBaseUrl, {
+            budget,
+            cache: config.figma.cache && new FigmaCache(config.figma.cache.dir, { maxVersionsPerFile: config.figma.cache.maxVersionsPerFile }),
+        }),
+        store,
+    },
+    { noise: loadNoiseRules(config.rulesPath) }
+);
+
+try {
+    // Same account the live runs use for this file
+    const result = await auth.withAccount(store.getTrackedFile(fileKey)?.account, () =>
+        backfill.run(fileKey, { from: parseRef(fromRef, false), to: parseRef(toRef, true) }));
+    console.log(`\n✅ ${result.versions} versiyon (${result.skipped} zaten kayıtlı), ${result.changeSets} değişiklik seti, ${result.changes} değişiklik kaydedildi\n`);
+} catch (err) {
+    console.error('❌ Backfill başarısız:', err);
+    process.exitCode = 1;
+} finally {
+    store.close();
+}
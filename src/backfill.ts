@@ -0,0 +1,172 @@
+/**
+ * History Backfill
+ * Replays a file's Figma version history into the store, so a newly tracked file
+ * has a timeline from day one. Each version in the range is fetched with ?version=,
+ * filtered and diffed against the one before it, then saved as a snapshot and a
+ * change set dated at the version itself. Nothing is sent to any sink.
+ */
+
+import type { FigmaClient, FigmaVersion } from './figma-client.js';
+import type { Store } from './store.js';
+import { filterFile, toToon, type FilteredFile } from './toon-converter.js';
+import { diffSnapshots } from './differ.js';
+import { extractTokens } from './tokens.js';
+import { suppressNoise, type NoiseRules } from './noise.js';
+
+export interface BackfillRange {
+    /** Oldest version to include — a version ID or a point in time (default: the first version) */
+    from?: string | Date;
+    /** Newest version to include (default: the latest) */
+    to?: string | Date;
+}
+
+export interface BackfillOptions {
+    /** Applied to each diff, same as live runs */
+    noise?: NoiseRules;
+    /** Upper bound on versions fetched per run; the newest ones are kept (default: 50) */
+    maxVersions?: number;
+}
+
+export interface BackfillDependencies {
+    figma: Pick<FigmaClient, 'getFile' | 'getFileVersions'>;
+    store: Store;
+}
+
+export interface BackfillResult {
+    /** Versions in the range */
+    versions: number;
+    /** Versions that already had a snapshot and weren't fetched again */
+    skipped: number;
+    changeSets: number;
+    changes: number;
+}
+
+// Version history pages (50 versions each) read while looking for `from`
+const MAX_HISTORY_PAGES = 20;
+const HISTORY_PAGE_SIZE = 50;
+
+function isBefore(version: FigmaVersion, bound: Date): boolean {
+    return new Date(version.created_at) < bound;
+}
+
+function isAfter(version: FigmaVersion, bound: Date): boolean {
+    return new Date(version.created_at) > bound;
+}
+
+/**
+ * Versions inside the range, oldest first. Version-ID bounds are inclusive;
+ * an unknown ID matches nothing.
+ */
+export function selectVersions(versions: FigmaVersion[], range: BackfillRange = {}): FigmaVersion[] {
+    const { from, to } = range;
+
+    // `versions` is newest first: [start, end) is the slice inside the range
+    let start = 0;
+    if (typeof to === 'string') start = versions.findIndex(v => v.id === to);
+    else if (to) start = versions.findIndex(v => !isAfter(v, to));
+
+    let end = versions.length;
+    if (typeof from === 'string') {
+        const index = versions.findIndex(v => v.id === from);
+        end = index === -1 ? -1 : index + 1;
+    } else if (from) {
+        const index = versions.findIndex(v => isBefore(v, from));
+        if (index !== -1) end = index;
+    }
+
+    if (start === -1 || end === -1 || start >= end) return [];
+    return versions.slice(start, end).reverse();
+}
+
+export class HistoryBackfill {
+    private deps: BackfillDependencies;
+    private options: BackfillOptions;
+
+    constructor(deps: BackfillDependencies, options: BackfillOptions = {}) {
+        this.deps = deps;
+        this.options = options;
+    }
+
+    async run(fileKey: string, range: BackfillRange = {}): Promise<BackfillResult> {
+        const { figma, store } = this.deps;
+        const max = this.options.maxVersions ?? 50;
+
+        let versions = selectVersions(await this.loadHistory(fileKey, range.from), range);
+        if (versions.length > max) {
+            console.warn(`   ⚠️ Aralıkta ${versions.length} versiyon var, en yeni ${max} tanesi işlenecek`);
+            versions = versions.slice(-max);
+        }
+        console.log(`\n⏪ ${fileKey} — ${versions.length} versiyon geriye dönük işleniyor`);
+
+        // Pairs already processed live keep their AI changelog
+        const existing = new Set(store.listChangeSets(fileKey).map(cs => `${cs.fromVersion}→${cs.toVersion}`));
+        const result: BackfillResult = { versions: versions.length, skipped: 0, changeSets: 0, changes: 0 };
+        let previous: { version: string; filtered: FilteredFile } | undefined;
+
+        for (const version of versions) {
+            const createdAt = new Date(version.created_at);
+            const stored = store.getSnapshot(fileKey, version.id);
+            let filtered: FilteredFile;
+            let fileName: string;
+
+            if (stored) {
+                filtered = JSON.parse(stored.filteredJson);
+                fileName = stored.fileName;
+                result.skipped++;
+            } else {
+                const file = await figma.getFile(fileKey, version.id);
+                filtered = filterFile(file);
+                fileName = file.name;
+                store.saveSnapshot(
+                    fileKey, version.id, fileName,
+                    toToon(filtered), JSON.stringify(filtered), JSON.stringify(extractTokens(filtered)), createdAt, true
+                );
+            }
+
+            if (previous && !existing.has(`${previous.version}→${version.id}`)) {
+                const { kept, suppressedCount } = suppressNoise(diffSnapshots(previous.filtered, filtered), this.options.noise);
+                if (kept.length > 0) {
+                    store.saveChangeSet({
+                        fileKey,
+                        fileName,
+                        fromVersion: previous.version,
+                        toVersion: version.id,
+                        author: version.user.handle,
+                        changes: kept,
+                        createdAt,
+                    });
+                    result.changeSets++;
+                    result.changes += kept.length;
+                }
+                const muted = suppressedCount > 0 ? ` (🔇 ${suppressedCount} gizlendi)` : '';
+                console.log(`   ${version.created_at}  ${version.id}  ${version.user.handle}: ${kept.length} değişiklik${muted}`);
+            } else {
+                console.log(`   ${version.created_at}  ${version.id}  ${version.user.handle}${stored ? ' (kayıtlı)' : ''}`);
+            }
+
+            previous = { version: version.id, filtered };
+        }
+
+        return result;
+    }
+
+    /**
+     * Page back through the history until `from` (or the first version) is reached
+     */
+    private async loadHistory(fileKey: string, from?: string | Date): Promise<FigmaVersion[]> {
+        const versions: FigmaVersion[] = [];
+        let before: string | undefined;
+
+        for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+            const { versions: batch } = await this.deps.figma.getFileVersions(fileKey, { before, pageSize: HISTORY_PAGE_SIZE });
+            versions.push(...batch);
+
+            const oldest = batch[batch.length - 1];
+            if (!oldest) break;
+            if (typeof from === 'string' && batch.some(v => v.id === from)) break;
+            if (from instanceof Date && isBefore(oldest, from)) break;
+            before = oldest.id;
+        }
+        return versions;
+    }
+}
@@ -1,11 +1,28 @@
 import 'dotenv/config';
+import type { RequestTier } from './rate-budget.js';
+import { DEFAULT_OAUTH_SCOPES, type FigmaOAuthApp } from './figma-auth.js';
 
 export type LLMProvider = 'gemini' | 'openai';
+export type SinkType = 'terminal' | 'mattermost' | 'slack' | 'json';
+
+const SINK_TYPES: SinkType[] = ['terminal', 'mattermost', 'slack', 'json'];
 
 export interface Config {
     figma: {
-        token: string;
+        /** Personal access token; optional when team members connect accounts via OAuth */
+        token?: string;
+        /** OAuth2 app for /oauth/start; undefined = personal access token only */
+        oauth?: FigmaOAuthApp;
         fileKeys: string[];
+        /** REST API root — point at a local stub server to run offline */
+        apiBaseUrl?: string;
+        /** Requests per minute per endpoint tier; unset tiers follow the plan's defaults */
+        rateLimits?: Partial<Record<RequestTier, number>>;
+        /** On-disk response cache; undefined = off */
+        cache?: {
+            dir: string;
+            maxVersionsPerFile: number;
+        };
     };
     llm: {
         provider: LLMProvider;
@@ -13,12 +30,49 @@ export interface Config {
         model: string;
     };
     output: {
-        mode: 'terminal' | 'mattermost';
+        sinks: SinkType[];
         mattermostWebhookUrl?: string;
+        slackWebhookUrl?: string;
+        jsonWebhookUrl?: string;
+    };
+    /** Teams/projects whose files are tracked automatically; undefined = FIGMA_FILE_KEYS and the API only */
+    discovery?: {
+        teamIds: string[];
+        projectIds: string[];
+        intervalMinutes: number;
+    };
+    /** Notification routing rules (per file / per page destinations) */
+    rulesPath: string;
+    /** Before/after renders of changed frames; undefined = off */
+    thumbnails?: {
+        dir: string;
+        maxFrames: number;
+        scale: number;
+    };
+    /** Download only changed pages; undefined = whole file every version */
+    partialFetch?: {
+        rotatePages: number;
     };
+    /** Intermediate versions replayed to credit changes to their authors (0 = off) */
+    attributionMaxVersions: number;
     pollIntervalMinutes: number;
+    digest: {
+        /** Cron expression; set → digest mode (no per-version messages) */
+        cron?: string;
+        group: 'file' | 'team';
+        lookbackDays: number;
+    };
     dbPath: string;
+    retention: {
+        keepCount?: number;
+        maxAgeDays?: number;
+    };
     webhookPasscode?: string;
+    webhookDebounce: {
+        windowSeconds: number;
+        maxWaitSeconds: number;
+    };
+    apiToken?: string;
 }
 
 function requireEnv(key: string): string {
@@ -27,6 +81,52 @@ function requireEnv(key: string): string {
     return val;
 }
 
+// Comma-separated env var → trimmed, non-empty entries
+function splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+// FIGMA_TEAM_IDS / FIGMA_PROJECT_IDS: either one turns project discovery on
+function resolveDiscovery(): Config['discovery'] {
+    const teamIds = splitList(process.env.FIGMA_TEAM_IDS);
+    const projectIds = splitList(process.env.FIGMA_PROJECT_IDS);
+    if (teamIds.length === 0 && projectIds.length === 0) return undefined;
+    return {
+        teamIds,
+        projectIds,
+        intervalMinutes: parseInt(process.env.DISCOVERY_INTERVAL_MINUTES || '60', 10),
+    };
+}
+
+// FIGMA_RATE_LIMITS=1:10,2:25,3:50 (requests per minute per endpoint tier)
+function resolveRateLimits(): Partial<Record<RequestTier, number>> | undefined {
+    const raw = process.env.FIGMA_RATE_LIMITS;
+    if (!raw) return undefined;
+    const limits: Partial<Record<RequestTier, number>> = {};
+    for (const entry of splitList(raw)) {
+        const [tier, perMinute] = entry.split(':').map(Number);
+        if (![1, 2, 3].includes(tier) || !(perMinute > 0)) {
+            throw new Error(`Invalid FIGMA_RATE_LIMITS entry "${entry}" (expected tier:perMinute, e.g. 1:10)`);
+        }
+        limits[tier as RequestTier] = perMinute;
+    }
+    return limits;
+}
+
+// FIGMA_OAUTH_CLIENT_ID turns the OAuth2 app on; secret and callback URL are then required
+function resolveOAuthApp(): FigmaOAuthApp | undefined {
+    const clientId = process.env.FIGMA_OAUTH_CLIENT_ID;
+    if (!clientId) return undefined;
+    const scopes = splitList(process.env.FIGMA_OAUTH_SCOPES);
+    return {
+        clientId,
+        clientSecret: requireEnv('FIGMA_OAUTH_CLIENT_SECRET'),
+        redirectUri: requireEnv('FIGMA_OAUTH_REDIRECT_URI'),
+        scopes: scopes.length > 0 ? scopes : DEFAULT_OAUTH_SCOPES,
+        defaultAccount: process.env.FIGMA_OAUTH_DEFAULT_ACCOUNT || undefined,
+    };
+}
+
 function resolveProvider(): LLMProvider {
     const explicit = process.env.LLM_PROVIDER?.toLowerCase();
     if (explicit === 'gemini' || explicit === 'openai') return explicit;
@@ -41,16 +141,54 @@ const PROVIDER_DEFAULTS: Record<LLMProvider, { model: string }> = {
     openai: { model: 'gpt-4o-mini' },
 };
 
+// OUTPUT_SINKS=terminal,mattermost,json — OUTPUT_MODE is still accepted as a single sink
+function resolveSinks(): SinkType[] {
+    const raw = process.env.OUTPUT_SINKS || process.env.OUTPUT_MODE || 'terminal';
+    const sinks = [...new Set(splitList(raw).map(s => s.toLowerCase()))];
+    for (const sink of sinks) {
+        if (!SINK_TYPES.includes(sink as SinkType)) {
+            throw new Error(`Unknown output sink "${sink}" (expected: ${SINK_TYPES.join(', ')})`);
+        }
+    }
+    return sinks.length > 0 ? sinks as SinkType[] : ['terminal'];
+}
+
+// SNAPSHOT_KEEP_COUNT=0 keeps every version; SNAPSHOT_MAX_AGE_DAYS is off unless set
+function resolveRetention(): Config['retention'] {
+    const keepCount = parseInt(process.env.SNAPSHOT_KEEP_COUNT || '10', 10);
+    const maxAgeDays = process.env.SNAPSHOT_MAX_AGE_DAYS
+        ? parseInt(process.env.SNAPSHOT_MAX_AGE_DAYS, 10)
+        : undefined;
+    return {
+        keepCount: keepCount > 0 ? keepCount : undefined,
+        maxAgeDays,
+    };
+}
+
+// Store-only commands (exports, history) only need the database path
+export function resolveDbPath(): string {
+    return process.env.DB_PATH || './design-radar.db';
+}
+
 export function loadConfig(): Config {
     const provider = resolveProvider();
     const apiKey = provider === 'gemini'
         ? requireEnv('GEMINI_API_KEY')
         : requireEnv('OPENAI_API_KEY');
+    const oauth = resolveOAuthApp();
 
     return {
         figma: {
-            token: requireEnv('FIGMA_TOKEN'),
-            fileKeys: requireEnv('FIGMA_FILE_KEYS').split(',').map(k => k.trim()),
+            token: oauth ? process.env.FIGMA_TOKEN || undefined : requireEnv('FIGMA_TOKEN'),
+            oauth,
+            // Initial seed for the tracked_files table; files can be added/removed at runtime via the API
+            fileKeys: splitList(process.env.FIGMA_FILE_KEYS),
+            apiBaseUrl: process.env.FIGMA_API_BASE_URL || undefined,
+            rateLimits: resolveRateLimits(),
+            cache: process.env.FIGMA_CACHE_DIR === 'off' ? undefined : {
+                dir: process.env.FIGMA_CACHE_DIR || './figma-cache',
+                maxVersionsPerFile: parseInt(process.env.FIGMA_CACHE_MAX_VERSIONS || '20', 10),
+            },
         },
         llm: {
             provider,
@@ -58,11 +196,35 @@ export function loadConfig(): Config {
             model: process.env.LLM_MODEL || PROVIDER_DEFAULTS[provider].model,
         },
         output: {
-            mode: (process.env.OUTPUT_MODE as 'terminal' | 'mattermost') || 'terminal',
+            sinks: resolveSinks(),
             mattermostWebhookUrl: process.env.MATTERMOST_WEBHOOK_URL,
+            slackWebhookUrl: process.env.SLACK_WEBHOOK_URL,
+            jsonWebhookUrl: process.env.JSON_WEBHOOK_URL,
         },
+        discovery: resolveDiscovery(),
+        rulesPath: process.env.RULES_PATH || './design-radar.rules.json',
+        thumbnails: process.env.THUMBNAILS_ENABLED === 'true' ? {
+            dir: process.env.THUMBNAIL_DIR || './thumbnails',
+            maxFrames: parseInt(process.env.THUMBNAIL_MAX_FRAMES || '5', 10),
+            scale: parseFloat(process.env.THUMBNAIL_SCALE || '1'),
+        } : undefined,
+        partialFetch: process.env.PARTIAL_FETCH_ENABLED === 'true' ? {
+            rotatePages: parseInt(process.env.PARTIAL_FETCH_ROTATE_PAGES || '5', 10),
+        } : undefined,
+        attributionMaxVersions: parseInt(process.env.ATTRIBUTION_MAX_VERSIONS || '3', 10),
         pollIntervalMinutes: parseInt(process.env.POLL_INTERVAL_MINUTES || '5', 10),
-        dbPath: process.env.DB_PATH || './design-radar.db',
+        digest: {
+            cron: process.env.DIGEST_CRON || undefined,
+            group: process.env.DIGEST_GROUP === 'team' ? 'team' : 'file',
+            lookbackDays: parseInt(process.env.DIGEST_LOOKBACK_DAYS || '7', 10),
+        },
+        dbPath: resolveDbPath(),
+        retention: resolveRetention(),
         webhookPasscode: process.env.WEBHOOK_PASSCODE,
+        webhookDebounce: {
+            windowSeconds: parseInt(process.env.WEBHOOK_DEBOUNCE_SECONDS || '60', 10),
+            maxWaitSeconds: parseInt(process.env.WEBHOOK_DEBOUNCE_MAX_SECONDS || '900', 10),
+        },
+        apiToken: process.env.API_TOKEN,
     };
 }
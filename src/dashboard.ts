@@ -0,0 +1,347 @@
+/**
+ * Read-only Dashboard
+ * Browses tracked files, their snapshot timeline and stored change sets
+ *
+ * HTML:
+ *   GET /                               → tracked files
+ *   GET /files/:fileKey                 → snapshot timeline + change sets
+ *   GET /files/:fileKey/changes/:id     → one change set (AI changelog + before/after + per-page changes)
+ *   GET /thumbnails/:id/:nodeId/:side   → stored before/after/diff PNG of a changed frame
+ * JSON:
+ *   GET /api/files
+ *   GET /api/files/:fileKey
+ *   GET /api/change-sets/:id
+ */
+
+import type http from 'node:http';
+import { existsSync, readFileSync } from 'fs';
+import { figmaNodeLink, groupByPage, changeIcon, type DesignChange } from './differ.js';
+import type { Store, ChangeSet, TrackedFile } from './store.js';
+
+type ThumbnailSide = 'before' | 'after' | 'diff';
+
+type Route =
+    | { view: 'files' }
+    | { view: 'file'; fileKey: string }
+    | { view: 'changeSet'; fileKey?: string; id: number }
+    | { view: 'thumbnail'; id: number; nodeId: string; side: ThumbnailSide };
+
+// ─── HTML helpers ───
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+export function layout(title: string, body: string): string {
+    return `<!doctype html>
+<html lang="tr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — DesignRadar</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1d1d1f; }
+  a { color: #3366e6; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .4rem .6rem; border-bottom: 1px solid #e5e5ea; vertical-align: top; }
+  .muted { color: #8e8e93; font-size: .9em; }
+  pre { white-space: pre-wrap; background: #f5f5f7; padding: 1rem; border-radius: 8px; }
+  .change { margin: .3rem 0; }
+  .thumbs img { max-width: 100%; max-height: 320px; border: 1px solid #e5e5ea; border-radius: 4px; }
+  .thumbs td { width: 33%; }
+</style>
+</head>
+<body>
+<p><a href="/">🎯 DesignRadar</a></p>
+${body}
+</body>
+</html>`;
+}
+
+// The dashboard has no auth: channel webhooks are secrets and accounts aren't anyone's business
+function publicFile(file: TrackedFile) {
+    return {
+        fileKey: file.fileKey,
+        fileName: file.fileName,
+        lastVersion: file.lastVersion,
+        lastCheckedAt: file.lastCheckedAt,
+        active: file.active,
+        lastDigestAt: file.lastDigestAt,
+        priority: file.priority,
+        projectId: file.projectId,
+    };
+}
+
+function changeSetLink(cs: ChangeSet): string {
+    const href = `/files/${encodeURIComponent(cs.fileKey)}/changes/${cs.id}`;
+    return `<a href="${href}">${cs.changeCount} değişiklik</a>${cs.author ? ` — ${escapeHtml(cs.author)}` : ''}`;
+}
+
+function thumbnailSrc(changeSetId: number, nodeId: string, side: ThumbnailSide): string {
+    return `/thumbnails/${changeSetId}/${encodeURIComponent(nodeId)}/${side}`;
+}
+
+export function sendHtml(res: http.ServerResponse, status: number, html: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+// ─── Routing ───
+
+function matchRoute(pathname: string): { route: Route; json: boolean } | undefined {
+    const json = pathname.startsWith('/api/');
+    let parts: string[];
+    try {
+        parts = pathname.replace(/^\/api/, '').split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+        // Malformed escape (e.g. /files/%E0) — not a dashboard route
+        return undefined;
+    }
+
+    if (json) {
+        if (parts.length === 1 && parts[0] === 'files') return { route: { view: 'files' }, json };
+        if (parts.length === 2 && parts[0] === 'files') return { route: { view: 'file', fileKey: parts[1] }, json };
+        if (parts.length === 2 && parts[0] === 'change-sets' && /^\d+$/.test(parts[1])) {
+            return { route: { view: 'changeSet', id: Number(parts[1]) }, json };
+        }
+        return undefined;
+    }
+
+    if (parts.length === 4 && parts[0] === 'thumbnails' && /^\d+$/.test(parts[1]) && ['before', 'after', 'diff'].includes(parts[3])) {
+        return { route: { view: 'thumbnail', id: Number(parts[1]), nodeId: parts[2], side: parts[3] as ThumbnailSide }, json };
+    }
+    if (parts.length === 0) return { route: { view: 'files' }, json };
+    if (parts.length === 2 && parts[0] === 'files') return { route: { view: 'file', fileKey: parts[1] }, json };
+    if (parts.length === 4 && parts[0] === 'files' && parts[2] === 'changes' && /^\d+$/.test(parts[3])) {
+        return { route: { view: 'changeSet', fileKey: parts[1], id: Number(parts[3]) }, json };
+    }
+    return undefined;
+}
+
+export class Dashboard {
+    private store: Store;
+
+    constructor(store: Store) {
+        this.store = store;
+    }
+
+    /**
+     * Serve a dashboard route. Returns false when the request isn't a dashboard route.
+     */
+    handle(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+        if (req.method !== 'GET' || !req.url) return false;
+
+        let pathname: string;
+        try {
+            ({ pathname } = new URL(req.url, 'http://localhost'));
+        } catch {
+            // e.g. "//", which parses as a URL without a host
+            return false;
+        }
+        const matched = matchRoute(pathname);
+        if (!matched) return false;
+
+        const { route, json } = matched;
+        const respond = (status: number, data: unknown, renderHtml: () => string) => {
+            if (json) {
+                sendJson(res, status, data);
+            } else {
+                sendHtml(res, status, renderHtml());
+            }
+        };
+
+        switch (route.view) {
+            case 'files':
+                respond(200, this.filesData(), () => this.filesPage());
+                break;
+            case 'file': {
+                const data = this.fileData(route.fileKey);
+                if (data) {
+                    respond(200, data, () => this.filePage(data));
+                } else {
+                    respond(404, { error: 'File not found' }, () => layout('404', '<h1>Dosya bulunamadı</h1>'));
+                }
+                break;
+            }
+            case 'changeSet': {
+                const data = this.changeSetData(route.id);
+                if (data && (!route.fileKey || data.changeSet.fileKey === route.fileKey)) {
+                    respond(200, data, () => this.changeSetPage(data));
+                } else {
+                    respond(404, { error: 'Change set not found' }, () => layout('404', '<h1>Değişiklik bulunamadı</h1>'));
+                }
+                break;
+            }
+            case 'thumbnail': {
+                const image = this.thumbnailPath(route.id, route.nodeId, route.side);
+                if (image) {
+                    res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'max-age=86400' });
+                    res.end(readFileSync(image));
+                } else {
+                    res.writeHead(404);
+                    res.end('Not Found');
+                }
+                break;
+            }
+        }
+        return true;
+    }
+
+    // ─── Data ───
+
+    private filesData() {
+        return { files: this.store.listTrackedFiles().map(publicFile) };
+    }
+
+    private fileData(fileKey: string) {
+        const file = this.store.getTrackedFile(fileKey);
+        if (!file) return undefined;
+        return {
+            file: publicFile(file),
+            snapshots: this.store.listSnapshots(fileKey),
+            changeSets: this.store.listChangeSets(fileKey),
+        };
+    }
+
+    private changeSetData(id: number) {
+        const changeSet = this.store.getChangeSet(id);
+        if (!changeSet) return undefined;
+        const changes = this.store.queryChanges({ changeSetId: id }).map(c => ({
+            ...c,
+            link: figmaNodeLink(changeSet.fileKey, c.nodeId),
+        }));
+        // Local paths stay server-side; the browser gets dashboard URLs instead
+        const thumbnails = this.store.listThumbnails(id).map(t => ({
+            nodeId: t.nodeId,
+            name: t.name,
+            page: t.page,
+            link: figmaNodeLink(changeSet.fileKey, t.nodeId),
+            before: t.before ? thumbnailSrc(id, t.nodeId, 'before') : undefined,
+            after: t.after ? thumbnailSrc(id, t.nodeId, 'after') : undefined,
+            diff: t.diff ? thumbnailSrc(id, t.nodeId, 'diff') : undefined,
+            percentChanged: t.diff?.percentChanged,
+        }));
+        return { changeSet, changes, thumbnails };
+    }
+
+    private thumbnailPath(changeSetId: number, nodeId: string, side: ThumbnailSide): string | undefined {
+        const thumbnail = this.store.listThumbnails(changeSetId).find(t => t.nodeId === nodeId);
+        const path = thumbnail?.[side]?.path;
+        return path && existsSync(path) ? path : undefined;
+    }
+
+    // ─── Pages ───
+
+    private filesPage(): string {
+        const { files } = this.filesData();
+        const rows = files.map(f => `
+<tr>
+  <td><a href="/files/${encodeURIComponent(f.fileKey)}">${escapeHtml(f.fileName || f.fileKey)}</a></td>
+  <td class="muted">${escapeHtml(f.lastVersion)}</td>
+  <td class="muted">${escapeHtml(f.lastCheckedAt)}</td>
+</tr>`).join('');
+
+        return layout('Dosyalar', `
+<h1>Takip edilen dosyalar</h1>
+${files.length === 0 ? '<p class="muted">Henüz takip edilen dosya yok.</p>' : `
+<table>
+  <tr><th>Dosya</th><th>Son versiyon</th><th>Son kontrol</th></tr>
+  ${rows}
+</table>`}`);
+    }
+
+    private filePage(data: NonNullable<ReturnType<Dashboard['fileData']>>): string {
+        const { file, snapshots, changeSets } = data;
+        const changeSetByVersion = new Map<string, ChangeSet>(changeSets.map(cs => [cs.toVersion, cs]));
+
+        const rows = snapshots.map(s => {
+            const cs = changeSetByVersion.get(s.version);
+            const changeCell = cs ? changeSetLink(cs) : '<span class="muted">—</span>';
+            return `
+<tr>
+  <td>${escapeHtml(s.createdAt)}</td>
+  <td class="muted">${escapeHtml(s.version)}</td>
+  <td>${changeCell}</td>
+</tr>`;
+        }).join('');
+
+        // Change sets whose target snapshot was already cleaned up still deserve a row
+        const orphaned = changeSets.filter(cs => !snapshots.some(s => s.version === cs.toVersion));
+        const orphanRows = orphaned.map(cs => `
+<tr>
+  <td>${escapeHtml(cs.createdAt)}</td>
+  <td class="muted">${escapeHtml(cs.toVersion)}</td>
+  <td>${changeSetLink(cs)}</td>
+</tr>`).join('');
+
+        return layout(file.fileName || file.fileKey, `
+<h1>${escapeHtml(file.fileName || file.fileKey)}</h1>
+<p class="muted">
+  <a href="${escapeHtml(`https://www.figma.com/design/${file.fileKey}`)}">Figma'da aç</a>
+  · <a href="/api/files/${encodeURIComponent(file.fileKey)}">JSON</a>
+</p>
+<h2>Zaman çizelgesi</h2>
+<table>
+  <tr><th>Tarih</th><th>Versiyon</th><th>Değişiklikler</th></tr>
+  ${rows}${orphanRows}
+</table>`);
+    }
+
+    private changeSetPage(data: NonNullable<ReturnType<Dashboard['changeSetData']>>): string {
+        const { changeSet, changes, thumbnails } = data;
+        const byPage = groupByPage(changes);
+
+        const image = (src: string | undefined, alt: string) => src
+            ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" loading="lazy">`
+            : '<span class="muted">—</span>';
+        const thumbnailRows = thumbnails.map(t => `
+<tr><th colspan="3"><a href="${escapeHtml(t.link)}">${escapeHtml(t.name)}</a> <span class="muted">${escapeHtml(t.page)}</span>
+  ${t.percentChanged !== undefined ? `<span class="muted">· %${t.percentChanged} piksel değişti</span>` : ''}</th></tr>
+<tr>
+  <td>${image(t.before, `${t.name} — önce`)}</td>
+  <td>${image(t.after, `${t.name} — sonra`)}</td>
+  <td>${image(t.diff, `${t.name} — fark`)}</td>
+</tr>`).join('');
+
+        const sections = [...byPage].map(([pageName, pageChanges]) => `
+<h3><a href="${escapeHtml(figmaNodeLink(changeSet.fileKey, pageChanges[0].pageId))}">📄 ${escapeHtml(pageName)}</a>
+  <span class="muted">(${pageChanges.length})</span></h3>
+${pageChanges.map(c => this.changeLine(changeSet.fileKey, c, changeSet.author)).join('')}`).join('');
+
+        return layout(changeSet.fileName, `
+<h1><a href="/files/${encodeURIComponent(changeSet.fileKey)}">${escapeHtml(changeSet.fileName)}</a></h1>
+<p class="muted">
+  ${escapeHtml(changeSet.fromVersion)} → ${escapeHtml(changeSet.toVersion)} · ${escapeHtml(changeSet.createdAt)}
+  ${changeSet.author ? ` · 👤 ${escapeHtml(changeSet.author)}` : ''}
+  · <a href="/api/change-sets/${changeSet.id}">JSON</a>
+</p>
+${changeSet.changelog ? `<h2>🤖 Changelog</h2><pre>${escapeHtml(changeSet.changelog)}</pre>` : ''}
+${thumbnails.length > 0 ? `<h2>🖼️ Önce / Sonra</h2>
+<table class="thumbs">
+  <tr><th>Önce (${escapeHtml(changeSet.fromVersion)})</th><th>Sonra (${escapeHtml(changeSet.toVersion)})</th><th>Fark</th></tr>
+  ${thumbnailRows}
+</table>` : ''}
+<h2>Değişiklikler</h2>
+${sections}`);
+    }
+
+    private changeLine(fileKey: string, change: DesignChange, setAuthor?: string): string {
+        // Per-change author only when several people contributed to the set
+        const author = change.author && change.author !== setAuthor ? ` <span class="muted">· 👤 ${escapeHtml(change.author)}</span>` : '';
+        return `
+<div class="change">
+  ${changeIcon(change)} <a href="${escapeHtml(figmaNodeLink(fileKey, change.nodeId))}">${escapeHtml(change.path)}</a>${author}
+  <div class="muted">${escapeHtml(change.summary)}</div>
+</div>`;
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Per-file Debouncer
+ * Collapses bursts of FILE_UPDATE events into one pipeline run per file:
+ *
+ *   - every event restarts the file's quiet window (windowMs)
+ *   - a file that never goes quiet still runs once maxWaitMs after its first event
+ *   - events arriving while the file is running schedule exactly one trailing re-run
+ */
+
+export type DebouncedRun = (fileKey: string, authors: string[]) => Promise<unknown>;
+
+export interface DebounceOptions {
+    windowMs: number;
+    maxWaitMs?: number;
+}
+
+interface FileState {
+    timer?: NodeJS.Timeout;
+    firstEventAt?: number;
+    authors: Set<string>;
+    running: boolean;
+    /** Events arrived mid-run → run again once it finishes */
+    dirty: boolean;
+}
+
+export class FileDebouncer {
+    private run: DebouncedRun;
+    private options: DebounceOptions;
+    private files = new Map<string, FileState>();
+
+    constructor(run: DebouncedRun, options: DebounceOptions) {
+        this.run = run;
+        this.options = options;
+    }
+
+    /**
+     * Record an event for a file and (re)arm its timer
+     */
+    trigger(fileKey: string, ...authors: string[]): void {
+        const state = this.files.get(fileKey) || { authors: new Set<string>(), running: false, dirty: false };
+        this.files.set(fileKey, state);
+        for (const author of authors) state.authors.add(author);
+
+        if (state.running) {
+            state.dirty = true;
+            return;
+        }
+        this.schedule(fileKey, state);
+    }
+
+    /** Files with an event waiting for its window to close */
+    get pending(): string[] {
+        return [...this.files].filter(([, s]) => s.timer).map(([key]) => key);
+    }
+
+    isRunning(fileKey: string): boolean {
+        return this.files.get(fileKey)?.running ?? false;
+    }
+
+    /**
+     * Drop every pending timer (shutdown). Runs already in flight finish on their own.
+     */
+    cancelAll(): void {
+        for (const state of this.files.values()) {
+            if (state.timer) clearTimeout(state.timer);
+            state.timer = undefined;
+            state.dirty = false;
+        }
+    }
+
+    private schedule(fileKey: string, state: FileState): void {
+        const now = Date.now();
+        state.firstEventAt ??= now;
+
+        let delay = this.options.windowMs;
+        if (this.options.maxWaitMs !== undefined) {
+            delay = Math.max(0, Math.min(delay, state.firstEventAt + this.options.maxWaitMs - now));
+        }
+
+        if (state.timer) clearTimeout(state.timer);
+        state.timer = setTimeout(() => this.fire(fileKey, state), delay);
+    }
+
+    private async fire(fileKey: string, state: FileState): Promise<void> {
+        const authors = [...state.authors];
+        state.timer = undefined;
+        state.firstEventAt = undefined;
+        state.authors.clear();
+        state.running = true;
+
+        try {
+            await this.run(fileKey, authors);
+        } catch (err) {
+            console.error(`❌ ${fileKey} işlenemedi:`, err);
+        } finally {
+            state.running = false;
+        }
+
+        if (state.dirty) {
+            state.dirty = false;
+            console.log(`   🔁 ${fileKey} işlenirken yeni değişiklik geldi, tekrar çalıştırılacak`);
+            this.schedule(fileKey, state);
+        } else if (!state.timer) {
+            this.files.delete(fileKey);
+        }
+    }
+}
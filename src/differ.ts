@@ -7,7 +7,7 @@ import deepDiffLib from 'deep-diff';
 const deepDiff = deepDiffLib.diff;
 import type { FilteredFile, FilteredPage } from './toon-converter.js';
 
-export type ChangeKind = 'ADDED' | 'REMOVED' | 'MODIFIED';
+export type ChangeKind = 'ADDED' | 'REMOVED' | 'MODIFIED' | 'MOVED' | 'REORDERED';
 
 export interface DesignChange {
     kind: ChangeKind;
@@ -19,27 +19,57 @@ export interface DesignChange {
     oldValue?: any;
     newValue?: any;
     summary: string;       // Short description
+    component?: ComponentRef;
+    hidden?: boolean;      // Layer (or an ancestor) is hidden, so the change isn't visible
+    fileKey?: string;      // Set when changes from several files are combined (team digest)
+    author?: string;       // Author of the version that made the change, when several versions landed at once
+}
+
+export interface ComponentRef {
+    id: string;            // Master component node ID
+    name: string;
+    role: 'master' | 'instance';
 }
 
 // ─── Build a map of nodes by ID for easy lookup ───
 
+interface NodeEntry {
+    node: Record<string, any>;
+    path: string;
+    parentId: string;       // Parent node ID (page ID for top-level nodes)
+    parentPath: string;     // Human-readable parent path ('' for top-level nodes)
+    index: number;          // Position among the parent's children
+    masterId?: string;      // Enclosing COMPONENT master (self included)
+    instanceId?: string;    // Enclosing INSTANCE (self included)
+    hidden: boolean;        // visible: false on the node or an ancestor
+}
+
+type NodeMap = Map<string, NodeEntry>;
+
 function buildNodeMap(
     nodes: Record<string, any>[],
-    parentPath: string = ''
-): Map<string, { node: Record<string, any>; path: string }> {
-    const map = new Map<string, { node: Record<string, any>; path: string }>();
+    parentPath: string = '',
+    parentId: string = '',
+    scope: { masterId?: string; instanceId?: string; hidden?: boolean } = {}
+): NodeMap {
+    const map: NodeMap = new Map();
 
-    for (const node of nodes) {
+    nodes.forEach((node, index) => {
         const currentPath = parentPath ? `${parentPath} / ${node.name || node.id}` : (node.name || node.id);
-        map.set(node.id, { node, path: currentPath });
+        const nodeScope = {
+            masterId: node.type === 'COMPONENT' ? node.id : scope.masterId,
+            instanceId: node.type === 'INSTANCE' ? node.id : scope.instanceId,
+            hidden: !!scope.hidden || node.visible === false,
+        };
+        map.set(node.id, { node, path: currentPath, parentId, parentPath, index, ...nodeScope });
 
         if (node.children && Array.isArray(node.children)) {
-            const childMap = buildNodeMap(node.children, currentPath);
+            const childMap = buildNodeMap(node.children, currentPath, node.id, nodeScope);
             for (const [id, entry] of childMap) {
                 map.set(id, entry);
             }
         }
-    }
+    });
 
     return map;
 }
@@ -110,7 +140,7 @@ function compareNodes(
 
 // ─── Format a value for human display ───
 
-function formatValue(val: any): string {
+export function formatValue(val: any): string {
     if (val === null || val === undefined) return 'none';
     if (typeof val === 'string') return val;
     if (typeof val === 'number' || typeof val === 'boolean') return String(val);
@@ -127,55 +157,364 @@ function formatValue(val: any): string {
     return String(val);
 }
 
+// ─── Move & reorder detection ───
+
+function describeParent(entry: NodeEntry, pageName: string): string {
+    return entry.parentPath || pageName;
+}
+
+function movedChange(
+    oldEntry: NodeEntry, oldPageName: string,
+    newEntry: NodeEntry, pageName: string, pageId: string, nodeId: string
+): DesignChange {
+    const from = { parentId: oldEntry.parentId, parentPath: describeParent(oldEntry, oldPageName), index: oldEntry.index };
+    const to = { parentId: newEntry.parentId, parentPath: describeParent(newEntry, pageName), index: newEntry.index };
+    return {
+        kind: 'MOVED', page: pageName, pageId, nodeId,
+        path: newEntry.path, property: 'parent', oldValue: from, newValue: to,
+        summary: `"${newEntry.node.name || nodeId}" moved: "${from.parentPath}" [${from.index}] → "${to.parentPath}" [${to.index}]`,
+    };
+}
+
+// Longest common subsequence of two ID lists — the nodes that kept their relative order.
+// The common prefix and suffix always belong to it, so the O(n·m) table only covers the
+// part in between (nothing at all when the order didn't change, the usual case).
+function stableOrder(oldIds: string[], newIds: string[]): Set<string> {
+    const stable = new Set<string>();
+    let start = 0;
+    while (start < oldIds.length && start < newIds.length && oldIds[start] === newIds[start]) {
+        stable.add(oldIds[start++]);
+    }
+    let oldEnd = oldIds.length;
+    let newEnd = newIds.length;
+    while (oldEnd > start && newEnd > start && oldIds[oldEnd - 1] === newIds[newEnd - 1]) {
+        stable.add(oldIds[--oldEnd]);
+        newEnd--;
+    }
+    if (oldEnd === start || newEnd === start) return stable;
+
+    const a = oldIds.slice(start, oldEnd);
+    const b = newIds.slice(start, newEnd);
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            stable.add(a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return stable;
+}
+
+function childrenByParent(map: NodeMap, keep: (id: string) => boolean): Map<string, string[]> {
+    const byParent = new Map<string, { id: string; index: number }[]>();
+    for (const [id, entry] of map) {
+        if (!keep(id)) continue;
+        const siblings = byParent.get(entry.parentId) || [];
+        siblings.push({ id, index: entry.index });
+        byParent.set(entry.parentId, siblings);
+    }
+
+    const ordered = new Map<string, string[]>();
+    for (const [parentId, siblings] of byParent) {
+        ordered.set(parentId, siblings.sort((a, b) => a.index - b.index).map(s => s.id));
+    }
+    return ordered;
+}
+
+/**
+ * Report siblings whose order changed inside the same parent.
+ * Only nodes present under that parent in both versions are compared, so
+ * additions/removals don't shift everything after them into "reordered".
+ */
+function diffOrder(oldMap: NodeMap, newMap: NodeMap, pageName: string, pageId: string): DesignChange[] {
+    const changes: DesignChange[] = [];
+    const sameParent = (id: string) => {
+        const oldEntry = oldMap.get(id);
+        const newEntry = newMap.get(id);
+        return !!oldEntry && !!newEntry && oldEntry.parentId === newEntry.parentId;
+    };
+
+    const oldOrder = childrenByParent(oldMap, sameParent);
+    const newOrder = childrenByParent(newMap, sameParent);
+
+    for (const [parentId, newIds] of newOrder) {
+        const oldIds = oldOrder.get(parentId) || [];
+        const stable = stableOrder(oldIds, newIds);
+
+        for (const id of newIds) {
+            if (stable.has(id)) continue;
+            const oldEntry = oldMap.get(id)!;
+            const newEntry = newMap.get(id)!;
+            const parentPath = describeParent(newEntry, pageName);
+            changes.push(markHidden({
+                kind: 'REORDERED', page: pageName, pageId, nodeId: id,
+                path: newEntry.path, property: 'index',
+                oldValue: { parentPath, index: oldEntry.index },
+                newValue: { parentPath, index: newEntry.index },
+                summary: `"${newEntry.node.name || id}" reordered in "${parentPath}": ${oldEntry.index} → ${newEntry.index}`,
+            }, oldEntry.hidden && newEntry.hidden));
+        }
+    }
+
+    return changes;
+}
+
 // ─── Diff two page snapshots ───
 
-function diffPage(oldPage: FilteredPage, newPage: FilteredPage): DesignChange[] {
+// Showing/hiding a layer flips `hidden` between versions, so that change itself is never marked
+function markHidden(change: DesignChange, hidden: boolean): DesignChange {
+    if (hidden) change.hidden = true;
+    return change;
+}
+
+interface PageIndex {
+    page: FilteredPage;
+    map: NodeMap;
+}
+
+function diffPage(
+    oldIndex: PageIndex,
+    newIndex: PageIndex,
+    oldPages: Map<string, PageIndex>,
+    newPages: Map<string, PageIndex>
+): DesignChange[] {
     const changes: DesignChange[] = [];
+    const oldPage = oldIndex.page;
+    const newPage = newIndex.page;
     const pageName = newPage.name || oldPage.name;
     const pageId = newPage.id || oldPage.id;
 
-    const oldMap = buildNodeMap(oldPage.children);
-    const newMap = buildNodeMap(newPage.children);
+    const oldMap = oldIndex.map;
+    const newMap = newIndex.map;
 
     for (const [id, oldEntry] of oldMap) {
         const newEntry = newMap.get(id);
         if (!newEntry) {
-            changes.push({
+            // Moved to another page — reported from the destination page
+            if (findOnOtherPage(newPages, pageId, id)) continue;
+            changes.push(markHidden({
                 kind: 'REMOVED', page: pageName, pageId, nodeId: id,
                 path: oldEntry.path, property: 'node', oldValue: oldEntry.node.type,
                 summary: `"${oldEntry.node.name || id}" (${oldEntry.node.type}) removed`,
-            });
+            }, oldEntry.hidden));
         } else {
-            changes.push(...compareNodes(oldEntry.node, newEntry.node, newEntry.path, pageName, pageId));
+            const hidden = oldEntry.hidden && newEntry.hidden;
+            if (oldEntry.parentId !== newEntry.parentId) {
+                changes.push(markHidden(movedChange(oldEntry, pageName, newEntry, pageName, pageId, id), hidden));
+            }
+            changes.push(...compareNodes(oldEntry.node, newEntry.node, newEntry.path, pageName, pageId)
+                .map(c => markHidden(c, hidden)));
         }
     }
 
     for (const [id, newEntry] of newMap) {
-        if (!oldMap.has(id)) {
-            changes.push({
-                kind: 'ADDED', page: pageName, pageId, nodeId: id,
-                path: newEntry.path, property: 'node', newValue: newEntry.node.type,
-                summary: `"${newEntry.node.name || id}" (${newEntry.node.type}) added`,
-            });
+        if (oldMap.has(id)) continue;
+
+        const moved = findOnOtherPage(oldPages, pageId, id);
+        if (moved) {
+            const { entry: oldEntry, page: oldPageName } = moved;
+            const hidden = oldEntry.hidden && newEntry.hidden;
+            if (oldEntry.parentId !== newEntry.parentId) {
+                changes.push(markHidden(movedChange(oldEntry, oldPageName, newEntry, pageName, pageId, id), hidden));
+            }
+            changes.push(...compareNodes(oldEntry.node, newEntry.node, newEntry.path, pageName, pageId)
+                .map(c => markHidden(c, hidden)));
+            continue;
         }
+
+        changes.push(markHidden({
+            kind: 'ADDED', page: pageName, pageId, nodeId: id,
+            path: newEntry.path, property: 'node', newValue: newEntry.node.type,
+            summary: `"${newEntry.node.name || id}" (${newEntry.node.type}) added`,
+        }, newEntry.hidden));
     }
 
+    changes.push(...diffOrder(oldMap, newMap, pageName, pageId));
+
     return changes;
 }
 
+function findOnOtherPage(
+    pages: Map<string, PageIndex>,
+    currentPageId: string,
+    nodeId: string
+): { entry: NodeEntry; page: string } | undefined {
+    for (const [pageId, index] of pages) {
+        if (pageId === currentPageId) continue;
+        const entry = index.map.get(nodeId);
+        if (entry) return { entry, page: index.page.name };
+    }
+    return undefined;
+}
+
+// ─── Component & instance awareness ───
+
+interface LocatedEntry {
+    entry: NodeEntry;
+    pageName: string;
+    pageId: string;
+    current: boolean;       // Present in the new version
+}
+
+function indexAllNodes(newPages: Map<string, PageIndex>, oldPages: Map<string, PageIndex>): Map<string, LocatedEntry> {
+    const all = new Map<string, LocatedEntry>();
+    // New version wins; old entries only fill in removed nodes
+    for (const [pages, current] of [[newPages, true], [oldPages, false]] as const) {
+        for (const { page, map } of pages.values()) {
+            for (const [id, entry] of map) {
+                if (!all.has(id)) all.set(id, { entry, pageName: page.name, pageId: page.id, current });
+            }
+        }
+    }
+    return all;
+}
+
+// Instance sublayer IDs look like "I<instance>;<master child>" — the last segment is the master-side ID
+function masterSideId(nodeId: string): string {
+    const parts = nodeId.split(';');
+    return parts[parts.length - 1];
+}
+
+// Instances sit at different positions than their master, so only compare sizes for bounds
+function comparableValue(property: string, value: any): string {
+    if (property === 'bounds' && value && typeof value === 'object') {
+        return JSON.stringify({ w: value.w, h: value.h });
+    }
+    return JSON.stringify(value ?? null);
+}
+
+function changeSignature(componentId: string, relativeId: string, change: DesignChange): string {
+    return [componentId, relativeId, change.kind, change.property, comparableValue(change.property, change.newValue)].join('|');
+}
+
+/**
+ * Separate master edits from instance overrides:
+ * - changes inside a COMPONENT master are tagged and summarised with their instance reach
+ * - instance changes that just mirror a master change are dropped
+ * - identical changes repeated across many instances collapse into one entry
+ */
+function groupComponentChanges(
+    changes: DesignChange[],
+    oldPages: Map<string, PageIndex>,
+    newPages: Map<string, PageIndex>,
+    components: Record<string, { name: string }>
+): DesignChange[] {
+    const nodes = indexAllNodes(newPages, oldPages);
+    const componentName = (id: string) =>
+        components[id]?.name || nodes.get(id)?.entry.node.name || id;
+
+    const masterSignatures = new Set<string>();
+    const changedMasters = new Set<string>();
+    const instanceGroups = new Map<string, DesignChange[]>();
+    const result: DesignChange[] = [];
+
+    for (const change of changes) {
+        const entry = nodes.get(change.nodeId)?.entry;
+
+        if (entry?.masterId) {
+            const masterId = entry.masterId;
+            const relativeId = change.nodeId === masterId ? '' : change.nodeId;
+            masterSignatures.add(changeSignature(masterId, relativeId, change));
+            changedMasters.add(masterId);
+            result.push({ ...change, component: { id: masterId, name: componentName(masterId), role: 'master' } });
+            continue;
+        }
+
+        const instance = entry?.instanceId ? nodes.get(entry.instanceId)?.entry.node : undefined;
+        if (instance?.componentId) {
+            const relativeId = change.nodeId === instance.id ? '' : masterSideId(change.nodeId);
+            const signature = changeSignature(instance.componentId, relativeId, change);
+            const group = instanceGroups.get(signature) || [];
+            group.push(change);
+            instanceGroups.set(signature, group);
+            continue;
+        }
+
+        result.push(change);
+    }
+
+    for (const [signature, group] of instanceGroups) {
+        if (masterSignatures.has(signature)) continue; // propagated from the master
+
+        const first = group[0];
+        const instance = nodes.get(nodes.get(first.nodeId)!.entry.instanceId!)!.entry.node;
+        const component: ComponentRef = { id: instance.componentId, name: componentName(instance.componentId), role: 'instance' };
+
+        if (group.length === 1) {
+            result.push({ ...first, component, summary: `Override: ${first.summary}` });
+        } else {
+            result.push({
+                ...first, component,
+                summary: `${group.length} instances of "${component.name}": ${first.summary}`,
+            });
+        }
+    }
+
+    // Impact summaries lead, followed by the detailed changes
+    const impacts = [...changedMasters].map(id => componentImpactChange(id, componentName(id), nodes));
+    return [...impacts, ...result];
+}
+
+function componentImpactChange(
+    masterId: string,
+    name: string,
+    nodes: Map<string, LocatedEntry>
+): DesignChange {
+    const master = nodes.get(masterId)!;
+    const pages = new Set<string>();
+    let instanceCount = 0;
+    for (const { entry, pageName, current } of nodes.values()) {
+        if (current && entry.node.type === 'INSTANCE' && entry.node.componentId === masterId) {
+            instanceCount++;
+            pages.add(pageName);
+        }
+    }
+
+    const pageList = [...pages];
+    return {
+        kind: 'MODIFIED', page: master.pageName, pageId: master.pageId, nodeId: masterId,
+        path: master.entry.path, property: 'component',
+        newValue: { instances: instanceCount, pages: pageList },
+        summary: `Component "${name}" changed, affecting ${instanceCount} instance(s) across ${pageList.length} page(s)` +
+            (pageList.length > 0 ? `: ${pageList.join(', ')}` : ''),
+        component: { id: masterId, name, role: 'master' },
+    };
+}
+
 // ─── Main diff function ───
 
 export function diffSnapshots(oldFile: FilteredFile, newFile: FilteredFile): DesignChange[] {
     const changes: DesignChange[] = [];
 
-    const oldPages = new Map(oldFile.pages.map(p => [p.id, p]));
-    const newPages = new Map(newFile.pages.map(p => [p.id, p]));
+    const indexPage = (p: FilteredPage): [string, PageIndex] => [p.id, { page: p, map: buildNodeMap(p.children, '', p.id) }];
+    const oldPages = new Map(oldFile.pages.map(indexPage));
+    const newPages = new Map(newFile.pages.map(indexPage));
+
+    // Cross-page moves are only tracked between pages that exist in both versions
+    const sharedOld = new Map([...oldPages].filter(([id]) => newPages.has(id)));
+    const sharedNew = new Map([...newPages].filter(([id]) => oldPages.has(id)));
 
-    for (const [pageId, newPage] of newPages) {
-        const oldPage = oldPages.get(pageId);
-        if (oldPage) {
-            changes.push(...diffPage(oldPage, newPage));
+    for (const [pageId, newIndex] of newPages) {
+        const oldIndex = oldPages.get(pageId);
+        if (oldIndex) {
+            changes.push(...diffPage(oldIndex, newIndex, sharedOld, sharedNew));
         } else {
+            const newPage = newIndex.page;
             changes.push({
                 kind: 'ADDED', page: newPage.name, pageId, nodeId: pageId,
                 path: newPage.name, property: 'page',
@@ -184,28 +523,58 @@ export function diffSnapshots(oldFile: FilteredFile, newFile: FilteredFile): Des
         }
     }
 
-    for (const [pageId, oldPage] of oldPages) {
+    for (const [pageId, oldIndex] of oldPages) {
         if (!newPages.has(pageId)) {
             changes.push({
-                kind: 'REMOVED', page: oldPage.name, pageId, nodeId: pageId,
-                path: oldPage.name, property: 'page',
-                summary: `Page removed: "${oldPage.name}"`,
+                kind: 'REMOVED', page: oldIndex.page.name, pageId, nodeId: pageId,
+                path: oldIndex.page.name, property: 'page',
+                summary: `Page removed: "${oldIndex.page.name}"`,
             });
         }
     }
 
-    return changes;
+    return groupComponentChanges(changes, oldPages, newPages, newFile.components || {});
 }
 
-// ─── Figma deep link helper ───
+// ─── Figma deep link + grouping helpers ───
 
 export function figmaNodeLink(fileKey: string, nodeId: string): string {
     const encoded = nodeId.replace(':', '-');
     return `https://www.figma.com/design/${fileKey}?node-id=${encoded}`;
 }
 
+export function groupByPage(changes: DesignChange[]): Map<string, DesignChange[]> {
+    const byPage = new Map<string, DesignChange[]>();
+    for (const c of changes) {
+        const existing = byPage.get(c.page) || [];
+        existing.push(c);
+        byPage.set(c.page, existing);
+    }
+    return byPage;
+}
+
+const CHANGE_ICONS: Record<ChangeKind, string> = {
+    ADDED: '➕',
+    REMOVED: '➖',
+    MODIFIED: '✏️',
+    MOVED: '🔀',
+    REORDERED: '↕️',
+};
+
+export function changeIcon(change: DesignChange): string {
+    return CHANGE_ICONS[change.kind];
+}
+
 // ─── Format changes for LLM consumption (compact) ───
 
+const LLM_KIND_ICONS: Record<ChangeKind, string> = {
+    ADDED: '+',
+    REMOVED: '-',
+    MODIFIED: '~',
+    MOVED: '>',
+    REORDERED: '^',
+};
+
 export function formatChangesForLLM(changes: DesignChange[]): string {
     if (changes.length === 0) return 'No changes detected.';
 
@@ -220,8 +589,7 @@ export function formatChangesForLLM(changes: DesignChange[]): string {
     for (const [page, pageChanges] of byPage) {
         lines.push(`[${page}]`);
         for (const c of pageChanges) {
-            const icon = c.kind === 'ADDED' ? '+' : c.kind === 'REMOVED' ? '-' : '~';
-            lines.push(`  ${icon} ${c.path}: ${c.summary}`);
+            lines.push(`  ${LLM_KIND_ICONS[c.kind]} ${c.path}: ${c.summary}${c.author ? ` (${c.author})` : ''}`);
         }
     }
 
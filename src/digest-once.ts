@@ -0,0 +1,23 @@
+/**
+ * DesignRadar — Single Digest CLI
+ * Send the digest now instead of waiting for DIGEST_CRON: npm run digest
+ */
+
+import { loadConfig } from './config.js';
+import { Poller } from './poller.js';
+
+async function main() {
+    const config = loadConfig();
+    const poller = new Poller(config);
+
+    try {
+        await poller.runDigest();
+    } catch (error) {
+        console.error('❌ Digest failed:', error);
+        process.exit(1);
+    } finally {
+        poller.stop();
+    }
+}
+
+main();
@@ -0,0 +1,253 @@
+/**
+ * Digest Mode
+ * Rolls up every change stored since the last digest into one summary per file
+ * (or one for the whole team), instead of a message per detected version.
+ *
+ * Changes that cancel out inside the window are merged away: a fill changed
+ * A → B → A, a layer added and deleted again, or a node moved back all disappear.
+ */
+
+import { formatValue, type DesignChange } from './differ.js';
+import { extractTokens, diffTokens, type TokenChange, type TokenSet } from './tokens.js';
+import { createNotification } from './notification.js';
+import { fromSqliteDate, type Store, type Snapshot, type TrackedFile } from './store.js';
+import type { AIChangelog } from './ai-changelog.js';
+import type { Notifier } from './notifier.js';
+
+export type DigestGroup = 'file' | 'team';
+
+export interface DigestOptions {
+    /** One message per file, or a single message covering every file */
+    group?: DigestGroup;
+    /** Window for files that never had a digest (default: 7 days) */
+    lookbackDays?: number;
+}
+
+export interface DigestDeps {
+    store: Store;
+    ai: AIChangelog;
+    notifier: Notifier;
+}
+
+export interface DigestResult {
+    fileKey: string;
+    /** Net changes after merging */
+    changeCount: number;
+    /** Recorded changes that cancelled out or folded into another */
+    mergedCount: number;
+}
+
+// ─── Merging ───
+
+function nodeKey(change: DesignChange): string {
+    return `${change.fileKey ?? ''}|${change.nodeId}`;
+}
+
+function layerName(change: DesignChange): string {
+    return change.path.split(' / ').pop() || change.nodeId;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function summarize(change: DesignChange): string {
+    const { kind, property, oldValue, newValue } = change;
+    if (kind === 'ADDED') return `${property} added: ${formatValue(newValue)}`;
+    if (kind === 'REMOVED') return `${property} removed (was: ${formatValue(oldValue)})`;
+    if (property === 'name') return `Renamed: "${oldValue}" → "${newValue}"`;
+    if (kind === 'MOVED') {
+        return `"${layerName(change)}" moved: "${oldValue.parentPath}" [${oldValue.index}] → "${newValue.parentPath}" [${newValue.index}]`;
+    }
+    if (kind === 'REORDERED') {
+        return `"${layerName(change)}" reordered in "${newValue.parentPath}": ${oldValue.index} → ${newValue.index}`;
+    }
+    return `${property}: ${formatValue(oldValue)} → ${formatValue(newValue)}`;
+}
+
+// Whether a MOVED/REORDERED/MODIFIED change ended up where it started
+function isNoop(change: DesignChange): boolean {
+    if (change.kind === 'MOVED') {
+        return change.oldValue?.parentId === change.newValue?.parentId && change.oldValue?.index === change.newValue?.index;
+    }
+    if (change.kind === 'REORDERED') return change.oldValue?.index === change.newValue?.index;
+    return sameValue(change.oldValue, change.newValue);
+}
+
+/**
+ * Fold the history of one node/property (oldest first) into its net change
+ */
+function mergeGroup(group: DesignChange[]): DesignChange | undefined {
+    const first = group[0];
+    const last = group[group.length - 1];
+    if (group.length === 1) return first;
+    if (first.kind === 'ADDED' && last.kind === 'REMOVED') return undefined;
+
+    // Whole-node additions/removals keep the summary the differ wrote for them
+    if (first.property === 'node' || first.property === 'page') {
+        if (first.kind === 'REMOVED' && last.kind === 'ADDED' && sameValue(first.oldValue, last.newValue)) return undefined;
+        return last;
+    }
+
+    // Component impact lines describe the latest state
+    if (first.property === 'component') return last;
+
+    let merged: DesignChange;
+    if (first.kind === 'ADDED') {
+        merged = { ...last, kind: 'ADDED', oldValue: undefined };
+    } else if (last.kind === 'REMOVED') {
+        merged = { ...last, oldValue: first.oldValue, newValue: undefined };
+    } else {
+        const kind = first.kind === 'REMOVED' ? 'MODIFIED' : last.kind;
+        merged = { ...last, kind, oldValue: first.oldValue };
+        if (isNoop(merged)) return undefined;
+    }
+    return { ...merged, summary: summarize(merged) };
+}
+
+/**
+ * Net changes for a window of recorded changes (oldest first)
+ */
+export function mergeChanges(changes: DesignChange[]): DesignChange[] {
+    const groups = new Map<string, DesignChange[]>();
+    for (const change of changes) {
+        const key = `${nodeKey(change)}|${change.property}`;
+        const group = groups.get(key) || [];
+        group.push(change);
+        groups.set(key, group);
+    }
+
+    const merged: DesignChange[] = [];
+    // Nodes that were added/removed (net or transiently) — their property edits are part of that
+    const wholeNode = new Set<string>();
+    for (const group of groups.values()) {
+        const change = mergeGroup(group);
+        // A node deleted and restored (undo) keeps its own property edits
+        if (group[0].property === 'node' && (change || group[0].kind === 'ADDED')) wholeNode.add(nodeKey(group[0]));
+        if (change) merged.push(change);
+    }
+
+    return merged.filter(c => c.property === 'node' || !wholeNode.has(nodeKey(c)));
+}
+
+// ─── Runner ───
+
+function windowLabel(since: Date, until: Date): string {
+    const fmt = (d: Date) => d.toLocaleDateString('tr-TR');
+    return fmt(since) === fmt(until) ? fmt(until) : `${fmt(since)} – ${fmt(until)}`;
+}
+
+function parseTokens(snapshot: Snapshot): TokenSet {
+    return snapshot.tokensJson ? JSON.parse(snapshot.tokensJson) : extractTokens(JSON.parse(snapshot.filteredJson));
+}
+
+interface FileWindow {
+    file: TrackedFile;
+    fileName: string;
+    since: Date;
+    changes: DesignChange[];
+    recordedCount: number;
+    authors: string[];
+    tokenChanges: TokenChange[];
+}
+
+export class DigestRunner {
+    private deps: DigestDeps;
+    private options: DigestOptions;
+
+    constructor(deps: DigestDeps, options: DigestOptions = {}) {
+        this.deps = deps;
+        this.options = options;
+    }
+
+    /**
+     * Send the digest for every tracked file and move each file's window forward
+     */
+    async run(until: Date = new Date()): Promise<DigestResult[]> {
+        const windows = this.deps.store.listTrackedFiles().map(file => this.collect(file, until));
+        const withChanges = windows.filter(w => w.changes.length > 0);
+
+        if (withChanges.length === 0) {
+            console.log(`   📭 Özet için değişiklik yok`);
+        } else if (this.options.group === 'team') {
+            await this.sendTeamDigest(withChanges, until);
+        } else {
+            for (const w of withChanges) await this.sendFileDigest(w, until);
+        }
+
+        // Only advance the windows once the messages went out
+        for (const w of windows) this.deps.store.markDigested(w.file.fileKey, until);
+
+        return windows.map(w => ({
+            fileKey: w.file.fileKey,
+            changeCount: w.changes.length,
+            mergedCount: w.recordedCount - w.changes.length,
+        }));
+    }
+
+    private collect(file: TrackedFile, until: Date): FileWindow {
+        const { store } = this.deps;
+        const lookbackMs = (this.options.lookbackDays ?? 7) * 24 * 60 * 60 * 1000;
+        const since = file.lastDigestAt ? fromSqliteDate(file.lastDigestAt) : new Date(until.getTime() - lookbackMs);
+
+        const recorded = store.queryChanges({ fileKey: file.fileKey, since, until });
+        const changes = mergeChanges(recorded);
+        const authors = [...new Set(recorded.map(c => c.author).filter((a): a is string => !!a))];
+
+        // Token changes over the whole window: state before it vs. the latest snapshot
+        let tokenChanges: TokenChange[] = [];
+        const before = store.getSnapshotAt(file.fileKey, since);
+        const latest = store.getLatestSnapshot(file.fileKey);
+        if (changes.length > 0 && before && latest && before.version !== latest.version) {
+            tokenChanges = diffTokens(parseTokens(before), parseTokens(latest));
+        }
+
+        return {
+            file,
+            fileName: latest?.fileName || file.fileName || file.fileKey,
+            since,
+            changes,
+            recordedCount: recorded.length,
+            authors,
+            tokenChanges,
+        };
+    }
+
+    private async sendFileDigest(w: FileWindow, until: Date): Promise<void> {
+        const fileName = `${w.fileName} — özet`;
+        console.log(`\n   🗞️  ${fileName}: ${w.changes.length} net değişiklik (${w.recordedCount - w.changes.length} birleştirildi)`);
+
+        const changelog = await this.deps.ai.generateChangelog(fileName, w.changes);
+        await this.deps.notifier.send(createNotification({
+            fileKey: w.file.fileKey,
+            fileName,
+            author: { name: w.authors.join(', ') || '—', date: windowLabel(w.since, until) },
+            changelog,
+            changes: w.changes,
+            tokenChanges: w.tokenChanges,
+        }));
+    }
+
+    private async sendTeamDigest(windows: FileWindow[], until: Date): Promise<void> {
+        // Prefix pages with their file so one message can cover every file
+        const changes = windows.flatMap(w => w.changes.map(c => ({
+            ...c,
+            fileKey: w.file.fileKey,
+            page: `${w.fileName} / ${c.page}`,
+        })));
+        const authors = [...new Set(windows.flatMap(w => w.authors))];
+        const since = new Date(Math.min(...windows.map(w => w.since.getTime())));
+        const fileName = `Özet — ${windows.length} dosya`;
+        console.log(`\n   🗞️  ${fileName}: ${changes.length} net değişiklik`);
+
+        const changelog = await this.deps.ai.generateChangelog(fileName, changes);
+        await this.deps.notifier.send(createNotification({
+            fileKey: '',
+            fileName,
+            author: { name: authors.join(', ') || '—', date: windowLabel(since, until) },
+            changelog,
+            changes,
+            tokenChanges: windows.flatMap(w => w.tokenChanges),
+        }));
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Project Discovery
+ * Instead of a fixed list of file keys, DesignRadar can watch Figma teams and projects:
+ * every file in them is tracked automatically. New files start tracking (and get their
+ * baseline on the next run); files that were deleted, archived or moved out of the
+ * watched projects stop tracking. Their history is kept.
+ *
+ * A project that can't be listed (no access, rate limit) is left alone, so a failed
+ * request never untracks anything. Files removed by hand (DELETE /api/files) aren't
+ * brought back.
+ */
+
+import type { FigmaClient } from './figma-client.js';
+import type { Store } from './store.js';
+
+export interface DiscoveryOptions {
+    /** Every project of these teams is watched */
+    teamIds: string[];
+    /** Individual projects, e.g. from teams that shouldn't be watched as a whole */
+    projectIds: string[];
+}
+
+export interface DiscoveryDependencies {
+    figma: Pick<FigmaClient, 'getTeamProjects' | 'getProjectFiles'>;
+    store: Store;
+}
+
+export interface DiscoveryResult {
+    /** Projects listed successfully */
+    projects: number;
+    /** Files in them */
+    files: number;
+    /** Files that started tracking */
+    added: string[];
+    /** Files that stopped tracking */
+    removed: string[];
+}
+
+export class ProjectDiscovery {
+    private deps: DiscoveryDependencies;
+    private options: DiscoveryOptions;
+
+    constructor(deps: DiscoveryDependencies, options: DiscoveryOptions) {
+        this.deps = deps;
+        this.options = options;
+    }
+
+    async run(): Promise<DiscoveryResult> {
+        const { figma, store } = this.deps;
+        const { projectIds, complete } = await this.watchedProjects();
+
+        // fileKey → project it was listed in
+        const found = new Map<string, string>();
+        const listed = new Set<string>();
+        for (const projectId of projectIds) {
+            try {
+                const { files } = await figma.getProjectFiles(projectId);
+                for (const file of files) found.set(file.key, projectId);
+                listed.add(projectId);
+            } catch (err) {
+                console.warn(`   ⚠️ Proje ${projectId} listelenemedi, dosyalarına dokunulmadı:`, err instanceof Error ? err.message : err);
+            }
+        }
+
+        const result: DiscoveryResult = { projects: listed.size, files: found.size, added: [], removed: [] };
+
+        for (const [fileKey, projectId] of found) {
+            const tracked = store.getTrackedFile(fileKey);
+            // Untracked by hand — the user's call wins over discovery
+            if (tracked && !tracked.active && !tracked.projectId) continue;
+
+            if (!tracked?.active) {
+                store.trackFile(fileKey);
+                result.added.push(fileKey);
+                console.log(`   ➕ Takibe alındı: ${fileKey} (proje ${projectId})`);
+                store.setProject(fileKey, projectId);
+            } else if (tracked.projectId && tracked.projectId !== projectId) {
+                // Moved between watched projects. Files tracked explicitly (FIGMA_FILE_KEYS, the API) get no project, so discovery never untracks them.
+                store.setProject(fileKey, projectId);
+            }
+        }
+
+        for (const file of store.listTrackedFiles()) {
+            if (!file.projectId || found.has(file.fileKey)) continue;
+            // Gone from a project we just listed, or its project isn't watched any more
+            const gone = listed.has(file.projectId) || (complete && !projectIds.has(file.projectId));
+            if (gone && store.untrackDiscoveredFile(file.fileKey)) {
+                result.removed.push(file.fileKey);
+                console.log(`   ➖ Takipten çıkarıldı: ${file.fileName || file.fileKey} (projede artık yok)`);
+            }
+        }
+
+        console.log(`   🧭 ${result.projects} proje, ${result.files} dosya: ${result.added.length} yeni, ${result.removed.length} çıkarıldı`);
+        return result;
+    }
+
+    /**
+     * Configured projects plus every project of the watched teams. `complete` is false
+     * when a team couldn't be listed — its projects may still exist.
+     */
+    private async watchedProjects(): Promise<{ projectIds: Set<string>; complete: boolean }> {
+        const projectIds = new Set(this.options.projectIds);
+        let complete = true;
+
+        for (const teamId of this.options.teamIds) {
+            try {
+                const { projects } = await this.deps.figma.getTeamProjects(teamId);
+                for (const project of projects) projectIds.add(String(project.id));
+            } catch (err) {
+                complete = false;
+                console.warn(`   ⚠️ Takım ${teamId} projeleri alınamadı:`, err instanceof Error ? err.message : err);
+            }
+        }
+        return { projectIds, complete };
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Design Token Export CLI
+ * Usage:
+ *   npm run tokens:export <file_key>                          → current tokens (W3C format)
+ *   npm run tokens:export <file_key> <from_version> <to_version> → JSON Patch between versions
+ *   Add --out <path> to choose the output file
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { resolveDbPath } from './config.js';
+import { Store, type Snapshot } from './store.js';
+import { extractTokens, type TokenSet } from './tokens.js';
+import { toW3CTokens, tokenPatch } from './token-export.js';
+
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const outPath = outIndex !== -1 ? args[outIndex + 1] : undefined;
+const positional = outIndex !== -1 ? args.filter((_, i) => i !== outIndex && i !== outIndex + 1) : args;
+
+if (positional.length !== 1 && positional.length !== 3) {
+    console.log('Kullanım: npm run tokens:export <FILE_KEY> [FROM_VERSION TO_VERSION] [--out <path>]');
+    console.log('Örnek:    npm run tokens:export abc123 --out ../frontend/tokens/figma.tokens.json');
+    console.log('          npm run tokens:export abc123 1234567890 1234567999');
+    process.exit(1);
+}
+
+const [fileKey, fromVersion, toVersion] = positional;
+
+function snapshotTokens(snapshot: Snapshot): TokenSet {
+    return snapshot.tokensJson
+        ? JSON.parse(snapshot.tokensJson)
+        : extractTokens(JSON.parse(snapshot.filteredJson));
+}
+
+function requireSnapshot(store: Store, version?: string): Snapshot {
+    const snapshot = version ? store.getSnapshot(fileKey, version) : store.getLatestSnapshot(fileKey);
+    if (!snapshot) {
+        throw new Error(`Snapshot bulunamadı: ${fileKey}${version ? ` @ ${version}` : ''}`);
+    }
+    return snapshot;
+}
+
+const store = new Store(resolveDbPath());
+
+try {
+    let output: unknown;
+    let defaultPath: string;
+
+    if (fromVersion && toVersion) {
+        const from = requireSnapshot(store, fromVersion);
+        const to = requireSnapshot(store, toVersion);
+        output = tokenPatch(snapshotTokens(from), snapshotTokens(to));
+        defaultPath = `./tokens/${fileKey}.${fromVersion}-${toVersion}.patch.json`;
+        console.log(`🧩 ${(output as unknown[]).length} patch işlemi: ${fromVersion} → ${toVersion}`);
+    } else {
+        const latest = requireSnapshot(store);
+        output = toW3CTokens(snapshotTokens(latest));
+        defaultPath = `./tokens/${fileKey}.tokens.json`;
+        console.log(`🎨 "${latest.fileName}" token'ları (version: ${latest.version})`);
+    }
+
+    const target = outPath || defaultPath;
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, JSON.stringify(output, null, 2) + '\n');
+    console.log(`✅ Yazıldı: ${target}`);
+} catch (err) {
+    console.error('❌ Hata:', err);
+    process.exitCode = 1;
+} finally {
+    store.close();
+}
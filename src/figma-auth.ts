@@ -0,0 +1,246 @@
+/**
+ * Figma Authentication
+ * Requests are sent with a personal access token (FIGMA_TOKEN) or on behalf of a team
+ * member who connected their Figma account through the OAuth2 app (/oauth/start).
+ * Connected accounts live in SQLite, so access to private files doesn't hinge on one
+ * person's token and the poller, webhook server and CLIs all see the same accounts.
+ *
+ * Credentials for a request: the file's own account → FIGMA_TOKEN → the configured default
+ * account (FIGMA_OAUTH_DEFAULT_ACCOUNT). Anyone who can reach /oauth/start can connect an
+ * account, so one is never picked just for being connected. Access tokens are refreshed
+ * shortly before they expire.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { FIGMA_API_BASE_URL } from './figma-client.js';
+import type { OAuthAccount, Store } from './store.js';
+
+export const FIGMA_OAUTH_AUTHORIZE_URL = 'https://www.figma.com/oauth';
+
+/** Read access to everything the pipeline and project discovery fetch */
+export const DEFAULT_OAUTH_SCOPES = ['file_content:read', 'file_metadata:read', 'file_versions:read', 'file_comments:read', 'projects:read'];
+
+export interface FigmaOAuthApp {
+    clientId: string;
+    clientSecret: string;
+    /** Must be one of the app's registered callback URLs, e.g. https://radar.example.com/oauth/callback */
+    redirectUri: string;
+    scopes: string[];
+    /** Connected account (user ID) for files without their own when there is no personal access token */
+    defaultAccount?: string;
+}
+
+export interface FigmaAuthOptions {
+    /** Personal access token */
+    token?: string;
+    /** OAuth2 app; without it connected accounts aren't used */
+    oauth?: FigmaOAuthApp;
+    /** REST API root for the token endpoints — a local stub server in tests */
+    apiBaseUrl?: string;
+    /** Clock, for tests */
+    now?: () => number;
+}
+
+/** The callback's state doesn't belong to a /oauth/start this server handed out (or it expired) */
+export class OAuthStateError extends Error {
+    constructor() {
+        super('Unknown or expired OAuth state');
+        this.name = 'OAuthStateError';
+    }
+}
+
+interface TokenResponse {
+    access_token: string;
+    /** Only on the code exchange */
+    refresh_token?: string;
+    expires_in: number;
+    user_id?: number;
+    user_id_string?: string;
+}
+
+interface FigmaUser {
+    id: string;
+    handle: string;
+    email?: string;
+}
+
+// Refresh this long before expiry, so a token doesn't run out in the middle of a run
+const REFRESH_MARGIN_MS = 5 * 60_000;
+// How long a /oauth/start link can take to come back to the callback
+const STATE_TTL_MS = 10 * 60_000;
+
+export class FigmaAuth {
+    private store: Store;
+    private options: FigmaAuthOptions;
+    private accountContext = new AsyncLocalStorage<string | undefined>();
+    private refreshing = new Map<string, Promise<OAuthAccount>>();
+    private pendingStates = new Map<string, number>();
+
+    constructor(store: Store, options: FigmaAuthOptions = {}) {
+        this.store = store;
+        this.options = options;
+    }
+
+    get oauthEnabled(): boolean {
+        return !!this.options.oauth;
+    }
+
+    /**
+     * Run `fn` with every Figma request inside it sent as `account` (a connected user ID)
+     */
+    withAccount<T>(account: string | undefined, fn: () => Promise<T>): Promise<T> {
+        return this.accountContext.run(account, fn);
+    }
+
+    /**
+     * Auth headers for a REST request
+     */
+    async headers(): Promise<Record<string, string>> {
+        const account = this.currentAccount();
+        if (account) {
+            const { accessToken } = account.expiresAt - this.now() > REFRESH_MARGIN_MS
+                ? account
+                : await this.refreshAccount(account);
+            return { Authorization: `Bearer ${accessToken}` };
+        }
+        if (this.options.token) return { 'X-Figma-Token': this.options.token };
+        throw new Error('No Figma credentials: set FIGMA_TOKEN or FIGMA_OAUTH_DEFAULT_ACCOUNT, or give the file a connected account');
+    }
+
+    /**
+     * After a 401/403: refresh the current account's access token.
+     * Resolves false when there is nothing to refresh (personal access token).
+     */
+    async refresh(): Promise<boolean> {
+        const account = this.currentAccount();
+        if (!account) return false;
+        await this.refreshAccount(account);
+        return true;
+    }
+
+    // ─── Authorization code flow ───
+
+    /**
+     * Figma's consent screen, with a one-time state the callback has to bring back
+     */
+    authorizeUrl(): string {
+        const app = this.requireApp();
+        const now = this.now();
+        for (const [state, expiresAt] of this.pendingStates) {
+            if (expiresAt < now) this.pendingStates.delete(state);
+        }
+
+        const state = randomBytes(16).toString('hex');
+        this.pendingStates.set(state, now + STATE_TTL_MS);
+        const params = new URLSearchParams({
+            client_id: app.clientId,
+            redirect_uri: app.redirectUri,
+            scope: app.scopes.join(','),
+            state,
+            response_type: 'code',
+        });
+        return `${FIGMA_OAUTH_AUTHORIZE_URL}?${params}`;
+    }
+
+    /**
+     * Exchange the callback's code for tokens and store the account
+     */
+    async connect(code: string, state: string): Promise<OAuthAccount> {
+        const app = this.requireApp();
+        const stateExpiresAt = this.pendingStates.get(state);
+        this.pendingStates.delete(state);
+        if (!stateExpiresAt || stateExpiresAt < this.now()) throw new OAuthStateError();
+
+        const tokens = await this.tokenRequest('/oauth/token', {
+            redirect_uri: app.redirectUri,
+            code,
+            grant_type: 'authorization_code',
+        });
+        if (!tokens.refresh_token) throw new Error('Figma OAuth response has no refresh token');
+
+        const user = await this.me(tokens.access_token);
+        const userId = tokens.user_id_string ?? (tokens.user_id !== undefined ? String(tokens.user_id) : user.id);
+        this.store.saveOAuthAccount({
+            userId,
+            handle: user.handle,
+            email: user.email,
+            accessToken: tokens.access_token,
+            refreshToken: tokens.refresh_token,
+            expiresAt: this.now() + tokens.expires_in * 1000,
+        });
+        return this.store.getOAuthAccount(userId)!;
+    }
+
+    private currentAccount(): OAuthAccount | undefined {
+        if (!this.options.oauth) return undefined;
+
+        const userId = this.accountContext.getStore();
+        const own = userId ? this.store.getOAuthAccount(userId) : undefined;
+        if (own) return own;
+        if (this.options.token) return undefined;
+        const fallback = this.options.oauth.defaultAccount;
+        return fallback ? this.store.getOAuthAccount(fallback) : undefined;
+    }
+
+    // One refresh per account at a time; concurrent requests share it
+    private refreshAccount(account: OAuthAccount): Promise<OAuthAccount> {
+        let pending = this.refreshing.get(account.userId);
+        if (!pending) {
+            pending = this.tokenRequest('/oauth/refresh', { refresh_token: account.refreshToken })
+                .then(tokens => {
+                    const refreshed: OAuthAccount = {
+                        ...account,
+                        accessToken: tokens.access_token,
+                        refreshToken: tokens.refresh_token ?? account.refreshToken,
+                        expiresAt: this.now() + tokens.expires_in * 1000,
+                    };
+                    this.store.updateOAuthTokens(account.userId, refreshed.accessToken, refreshed.refreshToken, refreshed.expiresAt);
+                    return refreshed;
+                })
+                .finally(() => this.refreshing.delete(account.userId));
+            this.refreshing.set(account.userId, pending);
+        }
+        return pending;
+    }
+
+    private async tokenRequest(path: string, params: Record<string, string>): Promise<TokenResponse> {
+        const app = this.requireApp();
+        const res = await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${Buffer.from(`${app.clientId}:${app.clientSecret}`).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams(params),
+        });
+
+        if (!res.ok) {
+            const body = await res.text();
+            throw new Error(`Figma OAuth error ${res.status}: ${body}`);
+        }
+        return await res.json() as TokenResponse;
+    }
+
+    private async me(accessToken: string): Promise<FigmaUser> {
+        const res = await fetch(`${this.baseUrl}/me`, { headers: { Authorization: `Bearer ${accessToken}` } });
+        if (!res.ok) {
+            const body = await res.text();
+            throw new Error(`Figma API error ${res.status}: ${body}`);
+        }
+        return await res.json() as FigmaUser;
+    }
+
+    private requireApp(): FigmaOAuthApp {
+        if (!this.options.oauth) throw new Error('Figma OAuth app is not configured (FIGMA_OAUTH_CLIENT_ID)');
+        return this.options.oauth;
+    }
+
+    private get baseUrl(): string {
+        return (this.options.apiBaseUrl || FIGMA_API_BASE_URL).replace(/\/+$/, '');
+    }
+
+    private now(): number {
+        return this.options.now ? this.options.now() : Date.now();
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * Figma Response Cache
+ * A response for a specific version never changes, so it is kept on disk and served
+ * without a request — whichever process downloaded it first (poller, webhook server,
+ * backfill or a local debugging session). Requests for the latest state are
+ * revalidated with ETag / If-Modified-Since when Figma sent those headers.
+ *
+ *   <dir>/<fileKey>/<version>/<request>.json.gz     immutable
+ *   <dir>/<fileKey>/latest/<request>.json.gz        + <request>.meta.json (validators)
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { createHash } from 'crypto';
+
+export interface FigmaCacheOptions {
+    /** Version directories kept per file, most recently written first (default: 20) */
+    maxVersionsPerFile?: number;
+}
+
+export interface CacheValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface CachedResponse {
+    body: string;
+    /** Pinned to a version — safe to use without asking Figma */
+    immutable: boolean;
+    validators?: CacheValidators;
+}
+
+interface CacheLocation {
+    fileKey: string;
+    /** Directory name: the version, or "latest" */
+    bucket: string;
+    name: string;
+}
+
+const LATEST = 'latest';
+
+function fileSafe(value: string): string {
+    return value.replace(/[^\w-]/g, '_');
+}
+
+/**
+ * Where a REST path lives in the cache. Only /files/* is cached: render URLs from
+ * /images expire, so an old response would hand out dead links.
+ */
+function locate(path: string): CacheLocation | undefined {
+    const match = path.match(/^\/files\/([A-Za-z0-9]+)(\/[^?]*)?(?:\?(.*))?$/);
+    if (!match) return undefined;
+    const [, fileKey, subPath = '', query = ''] = match;
+
+    const params = new URLSearchParams(query);
+    const version = params.get('version');
+    params.delete('version');
+    params.sort();
+
+    // Long node/ID lists are hashed to keep file names short
+    const rest = params.toString();
+    const suffix = rest.length > 60 ? createHash('sha1').update(rest).digest('hex').slice(0, 16) : fileSafe(rest);
+    return {
+        fileKey,
+        bucket: version ? fileSafe(version) : LATEST,
+        name: ['files', ...subPath.split('/').filter(Boolean), suffix].filter(Boolean).join('-'),
+    };
+}
+
+export class FigmaCache {
+    private dir: string;
+    private options: FigmaCacheOptions;
+
+    constructor(dir: string, options: FigmaCacheOptions = {}) {
+        this.dir = dir;
+        this.options = options;
+    }
+
+    read(path: string): CachedResponse | undefined {
+        const location = locate(path);
+        if (!location) return undefined;
+
+        const bodyPath = this.bodyPath(location);
+        if (!existsSync(bodyPath)) return undefined;
+        try {
+            const body = gunzipSync(readFileSync(bodyPath)).toString('utf8');
+            if (location.bucket !== LATEST) return { body, immutable: true };
+
+            const metaPath = this.metaPath(location);
+            const validators = existsSync(metaPath) ? JSON.parse(readFileSync(metaPath, 'utf8')) as CacheValidators : undefined;
+            return { body, immutable: false, validators };
+        } catch {
+            // Truncated or corrupt entry — refetch
+            return undefined;
+        }
+    }
+
+    /**
+     * Keep a response. Latest-state responses are only worth keeping with validators;
+     * a full file at its reported `version` is also filed under that version.
+     */
+    write(path: string, body: string, validators: CacheValidators = {}, version?: string): void {
+        const location = locate(path);
+        if (!location) return;
+
+        if (location.bucket !== LATEST) {
+            this.writeBody(location, body);
+            this.prune(location.fileKey);
+            return;
+        }
+
+        if (validators.etag || validators.lastModified) {
+            this.writeBody(location, body);
+            this.writeAtomic(this.metaPath(location), JSON.stringify(validators));
+        }
+        if (version && location.name === 'files') {
+            this.writeBody({ ...location, bucket: fileSafe(version) }, body);
+            this.prune(location.fileKey);
+        }
+    }
+
+    private bodyPath(location: CacheLocation): string {
+        return `${this.dir}/${location.fileKey}/${location.bucket}/${location.name}.json.gz`;
+    }
+
+    private metaPath(location: CacheLocation): string {
+        return `${this.dir}/${location.fileKey}/${location.bucket}/${location.name}.meta.json`;
+    }
+
+    private writeBody(location: CacheLocation, body: string): void {
+        this.writeAtomic(this.bodyPath(location), gzipSync(body));
+    }
+
+    // Other processes may read the same entry — never let them see a half-written file
+    private writeAtomic(path: string, data: string | Buffer): void {
+        mkdirSync(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+        const tmp = `${path}.${process.pid}.tmp`;
+        writeFileSync(tmp, data);
+        renameSync(tmp, path);
+    }
+
+    private prune(fileKey: string): void {
+        const root = `${this.dir}/${fileKey}`;
+        const versions = readdirSync(root)
+            .filter(name => name !== LATEST)
+            .map(name => ({ name, mtime: statSync(`${root}/${name}`).mtimeMs }))
+            .sort((a, b) => b.mtime - a.mtime);
+
+        for (const { name } of versions.slice(this.options.maxVersionsPerFile ?? 20)) {
+            rmSync(`${root}/${name}`, { recursive: true, force: true });
+        }
+    }
+}
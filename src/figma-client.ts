@@ -3,6 +3,10 @@
  * Handles file fetching and version tracking
  */
 
+import { requestTier, type RateBudget } from './rate-budget.js';
+import type { FigmaCache } from './figma-cache.js';
+import type { FigmaAuth } from './figma-auth.js';
+
 export interface FigmaFileResponse {
     name: string;
     lastModified: string;
@@ -48,30 +52,119 @@ export interface FigmaNode {
 export interface FigmaVersion {
     id: string;
     created_at: string;
-    label: string;
-    description: string;
+    /** Set for named versions only; autosaves have null */
+    label: string | null;
+    description: string | null;
     user: { handle: string; img_url: string };
 }
 
+export interface FigmaComment {
+    id: string;
+    message: string;
+    created_at: string;
+    resolved_at: string | null;
+    user: { handle: string; img_url: string };
+    /** Set on replies; only the thread's first comment carries client_meta */
+    parent_id?: string;
+    /** Pin position — node_id is present when pinned to a node or frame */
+    client_meta?: { node_id?: string; [key: string]: any } | null;
+}
+
+export interface FigmaNodesResponse {
+    name: string;
+    lastModified: string;
+    version: string;
+    /** null for IDs that don't exist (any more) */
+    nodes: Record<string, { document: FigmaNode; components: Record<string, any>; styles: Record<string, any> } | null>;
+}
+
+export interface FigmaProject {
+    id: string;
+    name: string;
+}
+
+export interface FigmaProjectFile {
+    key: string;
+    name: string;
+    thumbnail_url?: string;
+    last_modified: string;
+}
+
+export interface ImageOptions {
+    /** Render the node as it was in this version (default: current) */
+    version?: string;
+    format?: 'png' | 'jpg' | 'svg' | 'pdf';
+    scale?: number;
+}
+
+export const FIGMA_API_BASE_URL = 'https://api.figma.com/v1';
+
+export interface FigmaClientOptions {
+    /** Shared request budget; without it only 429s slow requests down */
+    budget?: RateBudget;
+    /** On-disk response cache; without it every call goes to Figma */
+    cache?: FigmaCache;
+}
+
 export class FigmaClient {
-    private token: string;
-    private baseUrl = 'https://api.figma.com/v1';
+    private auth: FigmaAuth | string;
+    private baseUrl: string;
+    private budget?: RateBudget;
+    private cache?: FigmaCache;
+
+    /**
+     * @param auth A personal access token, or connected OAuth accounts
+     * @param baseUrl Override for the REST API root, e.g. a local stub server in tests
+     */
+    constructor(auth: FigmaAuth | string, baseUrl: string = FIGMA_API_BASE_URL, options: FigmaClientOptions = {}) {
+        this.auth = auth;
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.budget = options.budget;
+        this.cache = options.cache;
+    }
 
-    constructor(token: string) {
-        this.token = token;
+    private async authHeaders(): Promise<Record<string, string>> {
+        return typeof this.auth === 'string' ? { 'X-Figma-Token': this.auth } : this.auth.headers();
     }
 
     private async request<T>(path: string, retries = 3): Promise<T> {
+        // A pinned version never changes — no request (and no budget) needed
+        const cached = this.cache?.read(path);
+        if (cached?.immutable) return JSON.parse(cached.body) as T;
+
+        const validators: Record<string, string> = {};
+        if (cached?.validators?.etag) validators['If-None-Match'] = cached.validators.etag;
+        if (cached?.validators?.lastModified) validators['If-Modified-Since'] = cached.validators.lastModified;
+
+        const tier = requestTier(path);
+        let reauthenticated = false;
         for (let i = 0; i < retries; i++) {
-            const res = await fetch(`${this.baseUrl}${path}`, {
-                headers: { 'X-Figma-Token': this.token },
-            });
+            await this.budget?.acquire(tier);
+            const headers = { ...(await this.authHeaders()), ...validators };
+            const res = await fetch(`${this.baseUrl}${path}`, { headers });
+            this.budget?.observePlanTier(res.headers.get('x-figma-plan-tier'));
+
+            // An OAuth access token can be revoked or expire early — refresh once and retry
+            if ((res.status === 401 || res.status === 403) && !reauthenticated && typeof this.auth !== 'string') {
+                reauthenticated = true;
+                if (await this.auth.refresh()) {
+                    i--;
+                    continue;
+                }
+            }
 
             if (res.status === 429) {
                 // Parse Figma's Retry-After header (seconds)
                 const retryAfter = parseInt(res.headers.get('retry-after') || '0', 10);
                 const planTier = res.headers.get('x-figma-plan-tier') || 'unknown';
 
+                if (this.budget) {
+                    // The budget makes every caller (and process) back off; it throws once waiting is pointless
+                    const until = this.budget.block(tier, Math.max(retryAfter, Math.pow(2, i) * 2));
+                    console.warn(`⚠️ Figma Rate Limit (429, tier ${tier}). ${until.toLocaleTimeString('tr-TR')}'e kadar istek yapılmayacak (plan: ${planTier})`);
+                    continue;
+                }
+
                 if (retryAfter > 120) {
                     const hours = (retryAfter / 3600).toFixed(1);
                     throw new Error(
@@ -88,22 +181,75 @@ export class FigmaClient {
                 continue;
             }
 
+            if (res.status === 304 && cached) return JSON.parse(cached.body) as T;
+
             if (!res.ok) {
                 const body = await res.text();
                 throw new Error(`Figma API error ${res.status}: ${body}`);
             }
 
-            return res.json() as Promise<T>;
+            const body = await res.text();
+            const data = JSON.parse(body);
+            this.cache?.write(path, body, {
+                etag: res.headers.get('etag') ?? undefined,
+                lastModified: res.headers.get('last-modified') ?? undefined,
+            }, data?.version);
+            return data as T;
         }
         throw new Error(`Figma API rate limit exceeded after ${retries} retries`);
     }
 
-    async getFile(fileKey: string): Promise<FigmaFileResponse> {
-        return this.request<FigmaFileResponse>(`/files/${fileKey}`);
+    /**
+     * Full file tree — the current one, or as it was at `version`
+     */
+    async getFile(fileKey: string, version?: string): Promise<FigmaFileResponse> {
+        const query = version ? `?version=${encodeURIComponent(version)}` : '';
+        return this.request<FigmaFileResponse>(`/files/${fileKey}${query}`);
+    }
+
+    /**
+     * Only the first `depth` levels of the tree (2 = pages and their top-level frames)
+     */
+    async getFileOutline(fileKey: string, depth: number = 2): Promise<FigmaFileResponse> {
+        return this.request<FigmaFileResponse>(`/files/${fileKey}?depth=${depth}`);
+    }
+
+    /**
+     * Full subtrees of specific nodes (e.g. single pages), optionally at a version
+     */
+    async getNodes(fileKey: string, ids: string[], version?: string): Promise<FigmaNodesResponse> {
+        const params = new URLSearchParams({ ids: ids.join(',') });
+        if (version) params.set('version', version);
+        return this.request<FigmaNodesResponse>(`/files/${fileKey}/nodes?${params}`);
     }
 
-    async getFileVersions(fileKey: string): Promise<{ versions: FigmaVersion[] }> {
-        return this.request(`/files/${fileKey}/versions`);
+    /**
+     * One page of the version history, newest first. Pass `before` (a version ID) to page further back.
+     */
+    async getFileVersions(fileKey: string, options: { before?: string; pageSize?: number } = {}): Promise<{ versions: FigmaVersion[] }> {
+        const params = new URLSearchParams();
+        if (options.before) params.set('before', options.before);
+        if (options.pageSize) params.set('page_size', String(options.pageSize));
+        const query = params.toString();
+        return this.request(`/files/${fileKey}/versions${query ? `?${query}` : ''}`);
+    }
+
+    async getComments(fileKey: string): Promise<{ comments: FigmaComment[] }> {
+        return this.request(`/files/${fileKey}/comments`);
+    }
+
+    /**
+     * Projects of a team the credentials can see
+     */
+    async getTeamProjects(teamId: string): Promise<{ name: string; projects: FigmaProject[] }> {
+        return this.request(`/teams/${encodeURIComponent(teamId)}/projects`);
+    }
+
+    /**
+     * Files in a project; trashed files aren't listed
+     */
+    async getProjectFiles(projectId: string): Promise<{ name: string; files: FigmaProjectFile[] }> {
+        return this.request(`/projects/${encodeURIComponent(projectId)}/files`);
     }
 
     async getFileMetadata(fileKey: string): Promise<{ name: string; lastModified: string; version: string }> {
@@ -117,4 +263,34 @@ export class FigmaClient {
             version: data.version
         };
     }
+
+    /**
+     * Render nodes to images. Returns a temporary download URL per node ID
+     * (null when Figma couldn't render it, e.g. the node doesn't exist in that version).
+     */
+    async getImages(fileKey: string, nodeIds: string[], options: ImageOptions = {}): Promise<Record<string, string | null>> {
+        const params = new URLSearchParams({
+            ids: nodeIds.join(','),
+            format: options.format || 'png',
+            scale: String(options.scale ?? 1),
+        });
+        if (options.version) params.set('version', options.version);
+
+        const data = await this.request<{ err: string | null; images: Record<string, string | null> }>(
+            `/images/${fileKey}?${params}`
+        );
+        if (data.err) throw new Error(`Figma image render error: ${data.err}`);
+        return data.images || {};
+    }
+
+    /**
+     * Download a rendered image. Render URLs are pre-signed, so no token is sent.
+     */
+    async downloadImage(url: string): Promise<Buffer> {
+        const res = await fetch(url);
+        if (!res.ok) {
+            throw new Error(`Image download failed ${res.status}: ${url}`);
+        }
+        return Buffer.from(await res.arrayBuffer());
+    }
 }
@@ -0,0 +1,59 @@
+/**
+ * Version History CLI
+ * Usage:
+ *   npm run history <file_key>                 → list stored versions
+ *   npm run history <file_key> <from> [to]     → diff two versions (to defaults to latest)
+ *
+ * <from>/<to> can be a stored version or a date (YYYY-MM-DD); a date picks the
+ * latest snapshot taken on or before it.
+ */
+
+import { resolveDbPath } from './config.js';
+import { Store, type Snapshot } from './store.js';
+import { formatChangesForLLM } from './differ.js';
+
+const args = process.argv.slice(2);
+
+if (args.length < 1) {
+    console.log('Kullanım: npm run history <FILE_KEY> [FROM] [TO]');
+    console.log('Örnek:    npm run history abc123');
+    console.log('          npm run history abc123 2026-10-01');
+    process.exit(1);
+}
+
+const [fileKey, fromRef, toRef] = args;
+
+function resolveSnapshot(store: Store, ref: string): Snapshot {
+    const snapshot = /^\d{4}-\d{2}-\d{2}/.test(ref)
+        ? store.getSnapshotAt(fileKey, new Date(ref.length === 10 ? `${ref}T23:59:59Z` : ref))
+        : store.getSnapshot(fileKey, ref);
+    if (!snapshot) throw new Error(`Snapshot bulunamadı: ${fileKey} @ ${ref}`);
+    return snapshot;
+}
+
+const store = new Store(resolveDbPath());
+
+try {
+    if (!fromRef) {
+        const snapshots = store.listSnapshots(fileKey);
+        console.log(`\n📚 ${fileKey} — ${snapshots.length} versiyon\n`);
+        for (const s of snapshots) {
+            console.log(`   ${s.createdAt}  ${s.version}  ${s.fileName}`);
+        }
+        console.log('');
+    } else {
+        const from = resolveSnapshot(store, fromRef);
+        const to = toRef ? resolveSnapshot(store, toRef) : store.getLatestSnapshot(fileKey)!;
+        const changes = store.diffVersions(fileKey, from.version, to.version);
+
+        console.log(`\n🔄 ${from.version} (${from.createdAt}) → ${to.version} (${to.createdAt})`);
+        console.log(`   ${changes.length} değişiklik\n`);
+        console.log(formatChangesForLLM(changes));
+        console.log('');
+    }
+} catch (err) {
+    console.error('❌ Hata:', err);
+    process.exitCode = 1;
+} finally {
+    store.close();
+}
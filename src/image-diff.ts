@@ -0,0 +1,52 @@
+/**
+ * Pixel Diff
+ * Compares the before/after renders of a frame and produces a highlighted
+ * overlay (faded "after" image with changed pixels in red) plus a score.
+ */
+
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+export interface ImageDiffOptions {
+    /** Per-pixel colour distance that still counts as equal, 0–1 (default: 0.1) */
+    threshold?: number;
+}
+
+export interface ImageDiffResult {
+    changedPixels: number;
+    totalPixels: number;
+    /** Changed pixels as a percentage of the (larger) canvas, 0–100 */
+    percentChanged: number;
+    /** PNG of the highlighted overlay */
+    overlay: Buffer;
+}
+
+// Renders of a resized frame differ in size — put both on the same transparent canvas
+function onCanvas(image: PNG, width: number, height: number): Uint8Array {
+    if (image.width === width && image.height === height) return image.data;
+    const canvas = new PNG({ width, height });
+    PNG.bitblt(image, canvas, 0, 0, image.width, image.height, 0, 0);
+    return canvas.data;
+}
+
+export function compareImages(before: Buffer, after: Buffer, options: ImageDiffOptions = {}): ImageDiffResult {
+    const a = PNG.sync.read(before);
+    const b = PNG.sync.read(after);
+    const width = Math.max(a.width, b.width);
+    const height = Math.max(a.height, b.height);
+
+    const overlay = new PNG({ width, height });
+    // pixelmatch fades the first image into the background, so "after" goes first
+    const changedPixels = pixelmatch(onCanvas(b, width, height), onCanvas(a, width, height), overlay.data, width, height, {
+        threshold: options.threshold ?? 0.1,
+        alpha: 0.3,
+    });
+
+    const totalPixels = width * height;
+    return {
+        changedPixels,
+        totalPixels,
+        percentChanged: totalPixels > 0 ? Math.round(changedPixels / totalPixels * 10000) / 100 : 0,
+        overlay: PNG.sync.write(overlay),
+    };
+}
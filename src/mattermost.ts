@@ -1,77 +1,92 @@
 /**
- * Mattermost Notifier + Terminal Output
- * Posts changelog to Mattermost webhook or prints to terminal
+ * Mattermost Sink
+ * Posts a Markdown changelog with author, version notes, comments, token changes, before/after images and Figma links
  */
 
-export interface NotifierConfig {
-    mode: 'terminal' | 'mattermost';
-    mattermostWebhookUrl?: string;
-}
+import { postWithRetry, type Notification, type NotificationSink } from './notification.js';
 
-export class Notifier {
-    private config: NotifierConfig;
+/**
+ * Build rich changelog with author, date, per-page sections, and Figma links
+ */
+export function renderMarkdown(notification: Notification): string {
+    const { author, contributors, changelog, changes, tokenChanges, suppressedCount, versions, comments, thumbnails, links } = notification;
+    const lines: string[] = [];
 
-    constructor(config: NotifierConfig) {
-        this.config = config;
-        if (config.mode === 'mattermost' && !config.mattermostWebhookUrl) {
-            throw new Error('MATTERMOST_WEBHOOK_URL is required when OUTPUT_MODE=mattermost');
-        }
+    // Header with author
+    if (contributors?.length) {
+        lines.push(`👥 ${contributors.map(c => `**${c.name}** (${c.date})`).join(', ')}`);
+    } else if (author) {
+        lines.push(`👤 **${author.name}** — ${author.date}`);
+    }
+    lines.push(`📂 ${links.pages.length} sayfa, ${changes.length} değişiklik`);
+    if (suppressedCount) {
+        lines.push(`🔇 ${suppressedCount} önemsiz değişiklik gizlendi`);
     }
+    for (const v of versions || []) {
+        lines.push(`🏷️ ${[v.label && `**${v.label}**`, v.description].filter(Boolean).join(' — ')}`);
+    }
+    lines.push('');
 
-    async send(changelog: string, fileName: string): Promise<void> {
-        if (!changelog || changelog.trim() === '') return;
+    // AI-generated changelog
+    lines.push(changelog);
 
-        if (this.config.mode === 'terminal') {
-            this.printToTerminal(changelog, fileName);
-        } else {
-            await this.postToMattermost(changelog, fileName);
+    // The designer's own words, next to the changes they explain
+    if (comments?.length) {
+        lines.push(`\n💬 **Tasarımcı Yorumları:**`);
+        for (const c of comments) {
+            lines.push(`  • _${c.path}_ — **${c.author}**: ${c.message}`);
         }
     }
 
-    private printToTerminal(changelog: string, fileName: string): void {
-        const divider = '═'.repeat(60);
-        console.log(`\n${divider}`);
-        console.log(`🎯 DesignRadar — ${fileName}`);
-        console.log(`📅 ${new Date().toLocaleString('tr-TR')}`);
-        console.log(divider);
-        console.log(changelog);
-        console.log(`${divider}\n`);
+    // Token-level changes matter more to frontend devs than single-node edits
+    if (tokenChanges.length > 0) {
+        lines.push(`\n🎨 **Token Değişiklikleri:**`);
+        for (const t of tokenChanges.slice(0, 15)) {
+            lines.push(`  • ${t.summary}`);
+        }
+        if (tokenChanges.length > 15) {
+            lines.push(`  ...ve ${tokenChanges.length - 15} token değişikliği daha`);
+        }
     }
 
-    private async postToMattermost(changelog: string, fileName: string): Promise<void> {
-        // Mattermost supports Markdown, so links will be clickable
-        const message = `### 🎯 DesignRadar — ${fileName}\n_${new Date().toLocaleString('tr-TR')}_\n\n${changelog}`;
+    // Render URLs are public, so Mattermost can inline them
+    const rendered = (thumbnails || []).filter(t => t.before || t.after);
+    if (rendered.length > 0) {
+        lines.push(`\n🖼️ **Önce / Sonra:**`);
+        for (const t of rendered) {
+            const before = t.before ? `![Önce](${t.before.url})` : '_(yeni)_';
+            const after = t.after ? `![Sonra](${t.after.url})` : '_(silindi)_';
+            const score = t.diff ? ` — %${t.diff.percentChanged} piksel değişti` : '';
+            lines.push(`**${t.name}** (${t.page})${score}`, `${before} → ${after}`);
+        }
+    }
+
+    // Per-page Figma links
+    lines.push(`\n🔗 **Figma Linkleri:**`);
+    for (const p of links.pages) {
+        lines.push(`  📄 [${p.page}](${p.url}) — ${p.changeCount} değişiklik`);
+    }
 
-        const maxRetries = 3;
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                const res = await fetch(this.config.mattermostWebhookUrl!, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        text: message,
-                        username: 'DesignRadar',
-                        icon_emoji: ':art:',
-                    }),
-                });
+    return lines.join('\n');
+}
 
-                if (res.ok) {
-                    console.log(`✅ Mattermost'a gönderildi: ${fileName}`);
-                    return;
-                }
+export class MattermostSink implements NotificationSink {
+    readonly name = 'Mattermost';
+    private webhookUrl: string;
 
-                console.error(`Mattermost error (attempt ${attempt}): ${res.status} ${await res.text()}`);
-            } catch (error) {
-                console.error(`Mattermost connection error (attempt ${attempt}):`, error);
-            }
+    constructor(webhookUrl: string) {
+        this.webhookUrl = webhookUrl;
+    }
 
-            if (attempt < maxRetries) {
-                await new Promise(r => setTimeout(r, 2000 * attempt));
-            }
-        }
+    async send(notification: Notification): Promise<void> {
+        // Mattermost supports Markdown, so links will be clickable
+        const message = `### 🎯 DesignRadar — ${notification.fileName}\n_${new Date().toLocaleString('tr-TR')}_\n\n${renderMarkdown(notification)}`;
 
-        // Fallback: print to terminal if Mattermost fails
-        console.warn('⚠️ Mattermost\'a gönderilemedi, terminal\'e yazdırılıyor:');
-        this.printToTerminal(changelog, fileName);
+        await postWithRetry(this.name, this.webhookUrl, {
+            text: message,
+            username: 'DesignRadar',
+            icon_emoji: ':art:',
+        });
+        console.log(`✅ Mattermost'a gönderildi: ${notification.fileName}`);
     }
 }
@@ -0,0 +1,114 @@
+/**
+ * Noise Suppression
+ * Drops changes nobody needs to hear about before they reach the LLM, configured
+ * in the "noise" section of the rules file:
+ *
+ *   {
+ *     "noise": {
+ *       "minBoundsDelta": 3,                 // ignore bounds changes where every x/y/w/h delta is < 3px
+ *       "ignoreHidden": true,                // ignore changes on hidden layers
+ *       "ignorePages": ["🚧 Scratch", "Archive/*"],
+ *       "ignoreProperties": ["effects"],
+ *       "minPixelChange": 0.5                // ignore frames whose render changed < 0.5% (needs thumbnails)
+ *     }
+ *   }
+ *
+ * Page patterns use the same globs as routing. Suppressed changes are only counted.
+ */
+
+import type { DesignChange } from './differ.js';
+import { globToRegExp, readRulesFile } from './routing.js';
+
+export interface NoiseRules {
+    minBoundsDelta?: number;
+    ignoreHidden?: boolean;
+    ignorePages?: string[];
+    ignoreProperties?: string[];
+    /** Percentage of changed pixels below which a frame's changes are dropped */
+    minPixelChange?: number;
+}
+
+export type SuppressReason = 'page' | 'property' | 'hidden' | 'bounds';
+
+export interface NoiseResult {
+    kept: DesignChange[];
+    suppressed: Record<SuppressReason, number>;
+    suppressedCount: number;
+}
+
+// Replaces the old "skip 1-2px shifts" prompt instruction
+export const DEFAULT_NOISE_RULES: NoiseRules = { minBoundsDelta: 3 };
+
+export function loadNoiseRules(path: string): NoiseRules {
+    const noise = readRulesFile(path)?.noise;
+    if (noise === undefined) return DEFAULT_NOISE_RULES;
+    if (typeof noise !== 'object' || noise === null || Array.isArray(noise)) {
+        throw new Error(`${path}: "noise" must be an object`);
+    }
+    for (const key of ['minBoundsDelta', 'minPixelChange']) {
+        if (noise[key] !== undefined && typeof noise[key] !== 'number') {
+            throw new Error(`${path}: noise.${key} must be a number`);
+        }
+    }
+    for (const key of ['ignorePages', 'ignoreProperties']) {
+        if (noise[key] !== undefined && !Array.isArray(noise[key])) {
+            throw new Error(`${path}: noise.${key} must be an array`);
+        }
+    }
+    return { ...DEFAULT_NOISE_RULES, ...noise };
+}
+
+// Largest x/y/w/h delta of a bounds change; Infinity when it can't be measured
+function boundsDelta(change: DesignChange): number {
+    const { oldValue, newValue } = change;
+    if (change.kind !== 'MODIFIED' || !oldValue || !newValue) return Infinity;
+
+    const deltas = ['x', 'y', 'w', 'h']
+        .filter(k => typeof oldValue[k] === 'number' && typeof newValue[k] === 'number')
+        .map(k => Math.abs(newValue[k] - oldValue[k]));
+    return deltas.length > 0 ? Math.max(...deltas) : Infinity;
+}
+
+export function suppressNoise(changes: DesignChange[], rules: NoiseRules = DEFAULT_NOISE_RULES): NoiseResult {
+    const pagePatterns = (rules.ignorePages || []).map(globToRegExp);
+    const ignoredProperties = new Set(rules.ignoreProperties || []);
+    const suppressed: Record<SuppressReason, number> = { page: 0, property: 0, hidden: 0, bounds: 0 };
+
+    const reasonFor = (c: DesignChange): SuppressReason | undefined => {
+        if (pagePatterns.some(re => re.test(c.page))) return 'page';
+        if (ignoredProperties.has(c.property)) return 'property';
+        if (rules.ignoreHidden && c.hidden) return 'hidden';
+        if (rules.minBoundsDelta && c.property === 'bounds' && boundsDelta(c) < rules.minBoundsDelta) return 'bounds';
+        return undefined;
+    };
+
+    const kept: DesignChange[] = [];
+    for (const change of changes) {
+        const reason = reasonFor(change);
+        if (reason) {
+            suppressed[reason]++;
+        } else {
+            kept.push(change);
+        }
+    }
+
+    return { kept, suppressed, suppressedCount: changes.length - kept.length };
+}
+
+/**
+ * Drop changes inside frames whose rendered pixels barely changed.
+ * Frames without a score (new, deleted or not rendered) always keep their changes.
+ */
+export function suppressUnchangedFrames(
+    changes: DesignChange[],
+    frameOf: (nodeId: string) => string | undefined,
+    percentChanged: Map<string, number>,
+    minPixelChange: number
+): { kept: DesignChange[]; suppressedCount: number; frames: string[] } {
+    const quiet = new Set([...percentChanged].filter(([, percent]) => percent < minPixelChange).map(([frameId]) => frameId));
+    const kept = changes.filter(c => {
+        const frameId = frameOf(c.nodeId);
+        return !frameId || !quiet.has(frameId);
+    });
+    return { kept, suppressedCount: changes.length - kept.length, frames: [...quiet] };
+}
@@ -0,0 +1,127 @@
+/**
+ * Designer Notes — the "why" next to the "what"
+ * Named-version labels/descriptions and Figma comments left on changed nodes,
+ * passed to the LLM prompt and shown in notifications.
+ */
+
+import type { FigmaComment, FigmaVersion } from './figma-client.js';
+import type { DesignChange } from './differ.js';
+import { versionsSince } from './attribution.js';
+
+export interface VersionNote {
+    id: string;
+    label?: string;
+    description?: string;
+    author: string;
+    createdAt: string;
+}
+
+export interface ChangeComment {
+    id: string;
+    /** Node the comment is pinned to (replies inherit their thread's node) */
+    nodeId: string;
+    /** Layer path of the changed node it belongs to */
+    path: string;
+    page: string;
+    message: string;
+    author: string;
+    createdAt: string;
+    resolved: boolean;
+}
+
+export interface DesignNotes {
+    versions: VersionNote[];
+    comments: ChangeComment[];
+}
+
+const MAX_COMMENTS = 20;
+
+/**
+ * Named versions saved since the previous snapshot (newest first).
+ * Autosaves have neither a label nor a description and are skipped.
+ */
+export function collectVersionNotes(versions: FigmaVersion[], prevVersion: string, prevCreatedAt?: Date): VersionNote[] {
+    return versionsSince(versions, prevVersion, prevCreatedAt)
+        .filter(v => v.label || v.description)
+        .map(v => ({
+            id: v.id,
+            label: v.label || undefined,
+            description: v.description || undefined,
+            author: v.user.handle,
+            createdAt: v.created_at,
+        }));
+}
+
+/**
+ * Comments pinned to a changed node (or to the top-level frame containing one).
+ * Open threads are always included; resolved ones only when written since `since`.
+ */
+export function collectComments(
+    comments: FigmaComment[],
+    changes: DesignChange[],
+    frameOf: (nodeId: string) => string | undefined = () => undefined,
+    since?: Date
+): ChangeComment[] {
+    // First change per node, and per frame for comments pinned to the whole frame
+    const targets = new Map<string, DesignChange>();
+    for (const c of changes) {
+        if (!targets.has(c.nodeId)) targets.set(c.nodeId, c);
+    }
+    for (const c of changes) {
+        const frameId = frameOf(c.nodeId);
+        if (frameId && !targets.has(frameId)) targets.set(frameId, c);
+    }
+
+    const threads = new Map(comments.filter(c => !c.parent_id).map(c => [c.id, c]));
+    const result: ChangeComment[] = [];
+
+    for (const comment of comments) {
+        const root = comment.parent_id ? threads.get(comment.parent_id) : comment;
+        const nodeId = root?.client_meta?.node_id;
+        const change = nodeId ? targets.get(nodeId) : undefined;
+        if (!root || !nodeId || !change) continue;
+
+        const resolved = !!root.resolved_at;
+        if (resolved && !(since && new Date(comment.created_at) > since)) continue;
+
+        result.push({
+            id: comment.id,
+            nodeId,
+            path: change.path,
+            page: change.page,
+            message: comment.message,
+            author: comment.user.handle,
+            createdAt: comment.created_at,
+            resolved,
+        });
+    }
+
+    // Newest last so threads read top to bottom; keep the most recent when capping
+    return result
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(-MAX_COMMENTS);
+}
+
+/**
+ * Prompt section with version notes and comments, empty when there are none
+ */
+export function formatNotesForLLM(notes: Partial<DesignNotes>): string {
+    const lines: string[] = [];
+
+    if (notes.versions?.length) {
+        lines.push('Versiyon notları:');
+        for (const v of notes.versions) {
+            lines.push(`  🏷️ ${[v.label, v.description].filter(Boolean).join(' — ')} (${v.author})`);
+        }
+    }
+
+    if (notes.comments?.length) {
+        if (lines.length > 0) lines.push('');
+        lines.push('Tasarımcı yorumları:');
+        for (const c of notes.comments) {
+            lines.push(`  💬 [${c.page}] ${c.path} — ${c.author}: ${c.message.replace(/\s+/g, ' ')}`);
+        }
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,113 @@
+/**
+ * Notification — the structured payload every output sink receives
+ * Sinks render it themselves (Markdown, Block Kit, plain text, JSON)
+ */
+
+import { figmaNodeLink, groupByPage, type DesignChange } from './differ.js';
+import type { TokenChange } from './tokens.js';
+import type { ChangeAuthor } from './pipeline.js';
+import type { Thumbnail } from './thumbnails.js';
+import type { ChangeComment, VersionNote } from './notes.js';
+import type { Contributor } from './attribution.js';
+
+export interface PageLink {
+    page: string;
+    pageId: string;
+    url: string;
+    changeCount: number;
+}
+
+export interface NotificationLinks {
+    /** Omitted for notifications spanning several files (team digest) */
+    file?: string;
+    pages: PageLink[];
+}
+
+export interface Notification {
+    fileKey: string;
+    fileName: string;
+    version?: string;
+    author?: ChangeAuthor;
+    /** Set when several people saved versions since the last notification */
+    contributors?: Contributor[];
+    /** AI (or fallback) summary in Markdown */
+    changelog: string;
+    changes: DesignChange[];
+    tokenChanges: TokenChange[];
+    /** Changes dropped by the noise rules — counted, never listed */
+    suppressedCount?: number;
+    /** Named versions saved since the last notification */
+    versions?: VersionNote[];
+    /** Designer comments on the changed nodes */
+    comments?: ChangeComment[];
+    /** Before/after renders of the changed frames */
+    thumbnails?: Thumbnail[];
+    links: NotificationLinks;
+}
+
+export interface NotificationSink {
+    readonly name: string;
+    /** Rejects when the notification could not be delivered */
+    send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Figma link for a change (or another node on its page); changes carry their own fileKey in team digests
+ */
+export function changeLink(notification: Pick<Notification, 'fileKey'>, change: DesignChange, nodeId: string = change.nodeId): string {
+    return figmaNodeLink(change.fileKey || notification.fileKey, nodeId);
+}
+
+export function createNotification(data: Omit<Notification, 'links'>): Notification {
+    const pages = [...groupByPage(data.changes)].map(([page, pageChanges]) => ({
+        page,
+        pageId: pageChanges[0].pageId,
+        url: changeLink(data, pageChanges[0], pageChanges[0].pageId),
+        changeCount: pageChanges.length,
+    }));
+    return {
+        ...data,
+        links: {
+            file: data.fileKey ? `https://www.figma.com/design/${data.fileKey}` : undefined,
+            pages,
+        },
+    };
+}
+
+/**
+ * An absolute http(s) URL a webhook sink can post to
+ */
+export function isWebhookUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return (url.protocol === 'http:' || url.protocol === 'https:') && !!url.hostname;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * POST a JSON payload with up to 3 attempts and linear backoff
+ */
+export async function postWithRetry(target: string, url: string, payload: unknown, maxRetries: number = 3): Promise<void> {
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+
+            if (res.ok) return;
+
+            console.error(`${target} error (attempt ${attempt}): ${res.status} ${await res.text()}`);
+        } catch (error) {
+            console.error(`${target} connection error (attempt ${attempt}):`, error);
+        }
+
+        if (attempt < maxRetries) {
+            await new Promise(r => setTimeout(r, 2000 * attempt));
+        }
+    }
+    throw new Error(`${target} webhook failed after ${maxRetries} attempts`);
+}
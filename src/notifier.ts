@@ -0,0 +1,176 @@
+/**
+ * Notifier — fans a notification out to every configured sink
+ * Sinks: terminal, mattermost, slack, json (generic webhook)
+ */
+
+import { changeIcon, groupByPage } from './differ.js';
+import { changeLink, postWithRetry, type Notification, type NotificationSink } from './notification.js';
+import { MattermostSink } from './mattermost.js';
+import { SlackSink } from './slack.js';
+import type { NotificationRouter } from './routing.js';
+import type { Config, SinkType } from './config.js';
+
+export type WebhookSinkType = Exclude<SinkType, 'terminal'>;
+
+// ─── Built-in sinks ───
+
+export class TerminalSink implements NotificationSink {
+    readonly name = 'Terminal';
+
+    async send(notification: Notification): Promise<void> {
+        const { author, changelog, changes, tokenChanges } = notification;
+        const divider = '═'.repeat(60);
+        const lines = [
+            '',
+            divider,
+            `🎯 DesignRadar — ${notification.fileName}`,
+            `📅 ${new Date().toLocaleString('tr-TR')}`,
+        ];
+        if (notification.contributors?.length) {
+            lines.push(`👥 ${notification.contributors.map(c => `${c.name} (${c.date})`).join(', ')}`);
+        } else if (author) {
+            lines.push(`👤 ${author.name} — ${author.date}`);
+        }
+        if (notification.suppressedCount) lines.push(`🔇 ${notification.suppressedCount} önemsiz değişiklik gizlendi`);
+        for (const v of notification.versions || []) {
+            lines.push(`🏷️ ${[v.label, v.description].filter(Boolean).join(' — ')}`);
+        }
+        lines.push(divider, changelog, '');
+
+        for (const [pageName, pageChanges] of groupByPage(changes)) {
+            lines.push(`📄 ${pageName} — ${changeLink(notification, pageChanges[0], pageChanges[0].pageId)}`);
+            for (const c of pageChanges) {
+                lines.push(`   ${changeIcon(c)} ${c.path}: ${c.summary}${c.author ? ` (${c.author})` : ''}`);
+            }
+        }
+        if (tokenChanges.length > 0) {
+            lines.push('', '🎨 Token Değişiklikleri:');
+            for (const t of tokenChanges) lines.push(`   • ${t.summary}`);
+        }
+        if (notification.comments?.length) {
+            lines.push('', '💬 Tasarımcı Yorumları:');
+            for (const c of notification.comments) lines.push(`   ${c.path} — ${c.author}: ${c.message}`);
+        }
+        if (notification.thumbnails?.length) {
+            lines.push('', '🖼️ Önce / Sonra:');
+            for (const t of notification.thumbnails) {
+                lines.push(`   ${t.name}: ${t.before?.path || '—'} → ${t.after?.path || '—'}`);
+                if (t.diff) lines.push(`      %${t.diff.percentChanged} piksel değişti — ${t.diff.path}`);
+            }
+        }
+        lines.push(divider, '');
+
+        console.log(lines.join('\n'));
+    }
+}
+
+/**
+ * Posts the raw notification as JSON — for custom integrations (CI, bots, dashboards)
+ */
+export class JsonWebhookSink implements NotificationSink {
+    readonly name = 'JSON webhook';
+    private webhookUrl: string;
+
+    constructor(webhookUrl: string) {
+        this.webhookUrl = webhookUrl;
+    }
+
+    async send(notification: Notification): Promise<void> {
+        await postWithRetry(this.name, this.webhookUrl, {
+            event: 'design.changed',
+            ...notification,
+            changes: notification.changes.map(c => ({ ...c, link: changeLink(notification, c) })),
+        });
+        console.log(`✅ JSON webhook'a gönderildi: ${notification.fileName}`);
+    }
+}
+
+// ─── Notifier ───
+
+export class Notifier {
+    private sinks: NotificationSink[];
+    private router?: NotificationRouter;
+    private fallback = new TerminalSink();
+
+    constructor(sinks: NotificationSink[], router?: NotificationRouter) {
+        this.sinks = sinks;
+        this.router = router;
+    }
+
+    get sinkNames(): string[] {
+        return this.sinks.map(s => s.name);
+    }
+
+    /**
+     * Deliver to every sink (or routed destination) in parallel. One failing sink doesn't
+     * block the others; whatever a failed sink should have received is printed to the terminal instead.
+     */
+    async send(notification: Notification): Promise<void> {
+        if (notification.changes.length === 0 && !notification.changelog.trim()) return;
+
+        let deliveries = [{ sinks: this.sinks, notification }];
+        if (this.router) {
+            try {
+                deliveries = this.router.resolve(notification, this.sinks);
+            } catch (err) {
+                console.warn('⚠️ Bildirim yönlendirilemedi, varsayılan çıkışlar kullanılıyor:', err instanceof Error ? err.message : err);
+            }
+        }
+        const jobs = deliveries.flatMap(d => d.sinks.map(sink => ({ sink, notification: d.notification })));
+
+        const results = await Promise.allSettled(jobs.map(j => j.sink.send(j.notification)));
+
+        // Routed notifications are separate objects: each one that missed a sink is printed once,
+        // unless a terminal sink already showed it
+        const failed = new Set<Notification>();
+        const printed = new Set<Notification>();
+        results.forEach((r, i) => {
+            const job = jobs[i];
+            if (r.status === 'rejected') {
+                console.warn(`⚠️ ${job.sink.name} gönderilemedi:`, r.reason instanceof Error ? r.reason.message : r.reason);
+                failed.add(job.notification);
+            } else if (job.sink instanceof TerminalSink) {
+                printed.add(job.notification);
+            }
+        });
+
+        for (const lost of failed) {
+            if (printed.has(lost)) continue;
+            console.warn('⚠️ Gönderilemeyen bildirim terminal\'e yazdırılıyor:');
+            await this.fallback.send(lost);
+        }
+    }
+}
+
+/**
+ * Sink for a bare webhook URL (routing rules, tracked_files.channel_webhook)
+ */
+export function sinkForWebhook(url: string, type?: WebhookSinkType): NotificationSink {
+    const resolved = type ?? (new URL(url).hostname === 'hooks.slack.com' ? 'slack' : 'mattermost');
+    switch (resolved) {
+        case 'slack':
+            return new SlackSink(url);
+        case 'json':
+            return new JsonWebhookSink(url);
+        case 'mattermost':
+            return new MattermostSink(url);
+    }
+}
+
+export function createSinks(output: Config['output']): NotificationSink[] {
+    return output.sinks.map(type => {
+        switch (type) {
+            case 'terminal':
+                return new TerminalSink();
+            case 'mattermost':
+                if (!output.mattermostWebhookUrl) throw new Error('MATTERMOST_WEBHOOK_URL is required for the mattermost sink');
+                return new MattermostSink(output.mattermostWebhookUrl);
+            case 'slack':
+                if (!output.slackWebhookUrl) throw new Error('SLACK_WEBHOOK_URL is required for the slack sink');
+                return new SlackSink(output.slackWebhookUrl);
+            case 'json':
+                if (!output.jsonWebhookUrl) throw new Error('JSON_WEBHOOK_URL is required for the json sink');
+                return new JsonWebhookSink(output.jsonWebhookUrl);
+        }
+    });
+}
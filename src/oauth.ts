@@ -0,0 +1,61 @@
+/**
+ * OAuth2 Routes — team members connect their Figma account
+ *
+ *   GET /oauth/start       → redirect to Figma's consent screen
+ *   GET /oauth/callback    → exchange the code, store the account and show its user ID
+ *
+ * Only served when a Figma OAuth app is configured (FIGMA_OAUTH_CLIENT_ID).
+ */
+
+import type http from 'node:http';
+import { OAuthStateError, type FigmaAuth } from './figma-auth.js';
+import { escapeHtml, layout, sendHtml } from './dashboard.js';
+
+export class OAuthRouter {
+    private auth: FigmaAuth;
+
+    constructor(auth: FigmaAuth) {
+        this.auth = auth;
+    }
+
+    /**
+     * Serve an OAuth route. Resolves false when the request isn't one.
+     */
+    async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<boolean> {
+        if (!this.auth.oauthEnabled || req.method !== 'GET' || !req.url) return false;
+
+        const url = new URL(req.url, 'http://localhost');
+        if (url.pathname === '/oauth/start') {
+            res.writeHead(302, { Location: this.auth.authorizeUrl() });
+            res.end();
+            return true;
+        }
+        if (url.pathname !== '/oauth/callback') return false;
+
+        const code = url.searchParams.get('code');
+        const state = url.searchParams.get('state');
+        if (url.searchParams.get('error') || !code || !state) {
+            sendHtml(res, 400, layout('Figma bağlantısı', `<h1>Bağlantı tamamlanmadı</h1>
+<p>Figma izin vermedi ya da bağlantı yarıda kaldı. <a href="/oauth/start">Tekrar dene</a></p>`));
+            return true;
+        }
+
+        try {
+            const account = await this.auth.connect(code, state);
+            console.log(`   🔑 Figma hesabı bağlandı: ${account.handle} (${account.userId})`);
+            sendHtml(res, 200, layout('Figma bağlantısı', `<h1>✅ ${escapeHtml(account.handle)} bağlandı</h1>
+<p>DesignRadar artık bu hesabın erişebildiği dosyaları okuyabilir.</p>
+<p class="muted">Bir dosyayı bu hesapla takip etmek için: <code>POST /api/files</code> → <code>{ "fileKey": "...", "account": "${escapeHtml(account.userId)}" }</code></p>`));
+        } catch (err) {
+            if (err instanceof OAuthStateError) {
+                sendHtml(res, 400, layout('Figma bağlantısı', `<h1>Bağlantının süresi doldu</h1>
+<p><a href="/oauth/start">Tekrar dene</a></p>`));
+                return true;
+            }
+            console.error('❌ Figma hesabı bağlanamadı:', err);
+            sendHtml(res, 502, layout('Figma bağlantısı', `<h1>Figma hesabı bağlanamadı</h1>
+<p class="muted">${escapeHtml(err instanceof Error ? err.message : String(err))}</p>`));
+        }
+        return true;
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Partial Fetch
+ * Downloading the whole document on every version is what runs large files into
+ * multi-hour 429s. Instead, the outline (?depth=2 — pages and their top-level
+ * frames) is fetched and hashed per page; only pages whose outline changed, new
+ * pages and a few least-recently verified ones are downloaded via /files/:key/nodes.
+ * Every other page is carried over from the previous snapshot.
+ *
+ * An edit deep inside a frame that leaves the frame itself untouched doesn't change
+ * the outline — the rotation re-verifies every page within ceil(pages / rotatePages) runs.
+ */
+
+import { createHash } from 'crypto';
+import type { FigmaClient, FigmaFileResponse, FigmaNode } from './figma-client.js';
+import type { PageHash, Snapshot, Store } from './store.js';
+import { filterComponents, filterFile, filterNode, filterPage, type FilteredFile, type FilteredPage } from './toon-converter.js';
+
+export interface PartialFetchOptions {
+    /** Unchanged pages downloaded anyway per run, least recently verified first (default: 5) */
+    rotatePages?: number;
+}
+
+export interface PartialFetchResult {
+    filtered: FilteredFile;
+    /** Pages downloaded this run, with their outline hash */
+    pages: Pick<PageHash, 'pageId' | 'hash'>[];
+    /** How many of them had a changed (or new) outline */
+    changedCount: number;
+    /** Everything downloaded, for the size report and debug logs */
+    rawJson: string;
+}
+
+/**
+ * Hash of a page's name and top-level frames (their own properties, not their children).
+ * The same for a full page and its ?depth=2 outline.
+ */
+export function pageHash(page: FigmaNode): string {
+    const outline = {
+        name: page.name,
+        frames: (page.children || []).map(frame => filterNode({ ...frame, children: undefined })),
+    };
+    return createHash('sha1').update(JSON.stringify(outline)).digest('hex');
+}
+
+export class PartialFetcher {
+    private figma: Pick<FigmaClient, 'getFile' | 'getFileOutline' | 'getNodes'>;
+    private store: Store;
+    private options: PartialFetchOptions;
+
+    constructor(figma: Pick<FigmaClient, 'getFile' | 'getFileOutline' | 'getNodes'>, store: Store, options: PartialFetchOptions = {}) {
+        this.figma = figma;
+        this.store = store;
+        this.options = options;
+    }
+
+    /**
+     * Cheap stand-in for getFile: name, version and the page outline
+     */
+    outline(fileKey: string): Promise<FigmaFileResponse> {
+        return this.figma.getFileOutline(fileKey);
+    }
+
+    /**
+     * The filtered file at the outline's version, downloading as few pages as possible
+     */
+    async fetch(fileKey: string, outline: FigmaFileResponse, prev?: Snapshot): Promise<PartialFetchResult> {
+        const outlinePages = outline.document.children || [];
+        const hashes = new Map(outlinePages.map(page => [page.id, pageHash(page)]));
+        const known = new Map(this.store.getPageHashes(fileKey).map(h => [h.pageId, h]));
+        const previous: FilteredFile | undefined = prev ? JSON.parse(prev.filteredJson) : undefined;
+
+        // Nothing to carry pages over from — one full download at the same version
+        if (!previous || known.size === 0) {
+            const file = await this.figma.getFile(fileKey, outline.version);
+            const pages = (file.document.children || []).map(page => ({ pageId: page.id, hash: pageHash(page) }));
+            return { filtered: filterFile(file), pages, changedCount: pages.length, rawJson: JSON.stringify(file) };
+        }
+
+        const previousPages = new Map(previous.pages.map(page => [page.id, page]));
+        const changed = outlinePages
+            .filter(page => !previousPages.has(page.id) || known.get(page.id)?.hash !== hashes.get(page.id))
+            .map(page => page.id);
+        // getPageHashes is ordered least recently verified first
+        const rotated = [...known.keys()]
+            .filter(id => hashes.has(id) && !changed.includes(id))
+            .slice(0, this.options.rotatePages ?? 5);
+        const ids = [...changed, ...rotated];
+
+        const response = ids.length > 0 ? await this.figma.getNodes(fileKey, ids, outline.version) : undefined;
+        const components = { ...previous.components };
+        const downloaded: PartialFetchResult['pages'] = [];
+
+        const pages: FilteredPage[] = [];
+        for (const page of outlinePages) {
+            const node = response?.nodes[page.id];
+            if (node) {
+                pages.push(filterPage(node.document));
+                Object.assign(components, filterComponents(node.components));
+                downloaded.push({ pageId: page.id, hash: hashes.get(page.id)! });
+                continue;
+            }
+            const carried = previousPages.get(page.id);
+            if (carried) pages.push(carried);
+        }
+
+        const filtered: FilteredFile = {
+            name: outline.name,
+            version: outline.version,
+            lastModified: outline.lastModified,
+            pages,
+        };
+        if (Object.keys(components).length > 0) filtered.components = components;
+
+        return {
+            filtered,
+            pages: downloaded,
+            changedCount: changed.length,
+            rawJson: JSON.stringify(response ?? outline),
+        };
+    }
+}
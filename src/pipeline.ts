@@ -0,0 +1,542 @@
+/**
+ * Change Pipeline — fetch → filter → TOON → diff → attribute → noise → notes → thumbnails → AI → notify → store
+ * Shared by Poller and WebhookServer so both modes behave identically.
+ *
+ * The pipeline is an ordered list of named stages that all operate on one
+ * PipelineContext. Extra stages can be plugged in with use().
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import type { FigmaClient, FigmaFileResponse, FigmaVersion } from './figma-client.js';
+import { filterFile, toToon, type FilteredFile } from './toon-converter.js';
+import { diffSnapshots, formatChangesForLLM, figmaNodeLink, groupByPage, changeIcon, type DesignChange } from './differ.js';
+import { extractTokens, diffTokens, type TokenSet, type TokenChange } from './tokens.js';
+import type { AIChangelog } from './ai-changelog.js';
+import { suppressNoise, suppressUnchangedFrames, type NoiseRules } from './noise.js';
+import { ThumbnailRenderer, frameIndex, changedFrames, type Thumbnail, type ThumbnailOptions } from './thumbnails.js';
+import { collectVersionNotes, collectComments, type DesignNotes } from './notes.js';
+import { PartialFetcher, type PartialFetchOptions } from './partial-fetch.js';
+import { versionsSince, listContributors, attributeChanges, type Contributor, type VersionStep } from './attribution.js';
+import { createNotification } from './notification.js';
+import type { Notifier } from './notifier.js';
+import { fromSqliteDate, type Store, type Snapshot, type RetentionPolicy } from './store.js';
+
+export interface ChangeAuthor {
+    name: string;
+    date: string;
+}
+
+export interface PipelineContext {
+    fileKey: string;
+    logDir: string;
+    author?: ChangeAuthor;
+    /** Version to fetch, when the caller already knows it */
+    version?: string;
+    /** Version history (newest first), fetched once per run */
+    versions?: FigmaVersion[];
+    /** Versions saved since the stored one (newest first) */
+    landedVersions: FigmaVersion[];
+    /** Everyone who saved one of the landed versions */
+    contributors: Contributor[];
+    figmaFile?: FigmaFileResponse;
+    rawJson?: string;
+    /** Pages downloaded by a partial fetch, recorded with the snapshot */
+    fetchedPages?: { pageId: string; hash: string }[];
+    filtered?: FilteredFile;
+    filteredJson?: string;
+    toonString?: string;
+    tokens?: TokenSet;
+    prevSnapshot?: Snapshot;
+    changes: DesignChange[];
+    tokenChanges: TokenChange[];
+    /** Changes dropped by the noise rules */
+    suppressedCount: number;
+    /** Named-version notes and comments on the changed nodes */
+    notes: DesignNotes;
+    /** Before/after renders of the changed frames */
+    thumbnails: Thumbnail[];
+    changelog?: string;
+    /** Set when the fetched version is already stored — nothing is persisted */
+    unchanged: boolean;
+    /** Set by a stage to skip every remaining non-final stage */
+    halted: boolean;
+}
+
+export interface PipelineStage {
+    name: string;
+    /** Final stages still run after an earlier stage halted the pipeline */
+    final?: boolean;
+    run(ctx: PipelineContext): Promise<void> | void;
+}
+
+export interface PipelineDeps {
+    figma: FigmaClient;
+    ai: AIChangelog;
+    notifier: Notifier;
+    store: Store;
+}
+
+export interface PipelineOptions {
+    /** Directory for per-file debug dumps (default: ./logs) */
+    logRoot?: string;
+    /** Snapshot retention applied after each save (default: keep 10) */
+    retention?: RetentionPolicy;
+    /** Noise rules applied before the changelog (default: ignore bounds deltas under 3px) */
+    noise?: NoiseRules;
+    /** Per-version changelog + notification; off in digest mode, where changes are only recorded */
+    live?: boolean;
+    /** Render before/after thumbnails of changed frames (off when unset) */
+    thumbnails?: ThumbnailOptions;
+    /** Download only changed pages (outline + /nodes) instead of the whole file (off when unset) */
+    partialFetch?: PartialFetchOptions;
+    /** Replay up to this many intermediate versions to credit each change to its author (default: 3, 0 = off) */
+    attributionMaxVersions?: number;
+}
+
+export interface ProcessOptions {
+    /** Known author (e.g. webhook triggered_by); looked up from versions otherwise */
+    author?: ChangeAuthor;
+    /** Latest version when already known; looked up with a metadata request otherwise. Fetched pinned, so a cached copy is used */
+    version?: string;
+}
+
+export interface PipelineResult {
+    hasChanges: boolean;
+    changeCount: number;
+    suppressedCount: number;
+}
+
+// Version history pages walked back to find the stored version
+const MAX_VERSION_PAGES = 3;
+
+// ─── Pipeline ───
+
+export class ChangePipeline {
+    private deps: PipelineDeps;
+    private options: PipelineOptions;
+    private stages: PipelineStage[];
+    private thumbnails?: ThumbnailRenderer;
+    private partial?: PartialFetcher;
+
+    constructor(deps: PipelineDeps, options: PipelineOptions = {}) {
+        this.deps = deps;
+        this.options = options;
+        if (options.thumbnails) this.thumbnails = new ThumbnailRenderer(deps.figma, options.thumbnails);
+        if (options.partialFetch) this.partial = new PartialFetcher(deps.figma, deps.store, options.partialFetch);
+        this.stages = [
+            { name: 'fetch', run: ctx => this.fetch(ctx) },
+            { name: 'author', run: ctx => this.resolveAuthor(ctx) },
+            { name: 'filter', run: ctx => this.filter(ctx) },
+            { name: 'diff', run: ctx => this.diff(ctx) },
+            { name: 'attribute', run: ctx => this.attribute(ctx) },
+            { name: 'noise', run: ctx => this.suppressNoise(ctx) },
+            { name: 'notes', run: ctx => this.collectNotes(ctx) },
+            { name: 'thumbnails', run: ctx => this.renderThumbnails(ctx) },
+            { name: 'report', run: ctx => this.report(ctx) },
+            { name: 'changelog', run: ctx => this.generateChangelog(ctx) },
+            { name: 'notify', run: ctx => this.notify(ctx) },
+            { name: 'persist', final: true, run: ctx => this.persist(ctx) },
+        ];
+    }
+
+    /**
+     * Plug in an extra stage. Appended before the final stages unless a position is given.
+     */
+    use(stage: PipelineStage, position: { before?: string; after?: string } = {}): this {
+        let index: number;
+        if (position.before || position.after) {
+            const anchor = this.stages.findIndex(s => s.name === (position.before || position.after));
+            if (anchor === -1) {
+                throw new Error(`Unknown pipeline stage: ${position.before || position.after}`);
+            }
+            index = position.before ? anchor : anchor + 1;
+        } else {
+            index = this.stages.findIndex(s => s.final);
+            if (index === -1) index = this.stages.length;
+        }
+        this.stages.splice(index, 0, stage);
+        return this;
+    }
+
+    /**
+     * Run every stage for one file
+     */
+    async process(fileKey: string, options: ProcessOptions = {}): Promise<PipelineResult> {
+        const ctx: PipelineContext = {
+            fileKey,
+            logDir: `${this.options.logRoot || './logs'}/${fileKey}`,
+            author: options.author,
+            version: options.version,
+            landedVersions: [],
+            contributors: [],
+            changes: [],
+            tokenChanges: [],
+            suppressedCount: 0,
+            notes: { versions: [], comments: [] },
+            thumbnails: [],
+            unchanged: false,
+            halted: false,
+        };
+
+        for (const stage of this.stages) {
+            if (ctx.halted && !stage.final) continue;
+            await stage.run(ctx);
+        }
+
+        const hasChanges = !ctx.unchanged && ctx.changes.length > 0;
+        return {
+            hasChanges,
+            changeCount: hasChanges ? ctx.changes.length : 0,
+            suppressedCount: ctx.unchanged ? 0 : ctx.suppressedCount,
+        };
+    }
+
+    // ─── Stages ───
+
+    private async resolveAuthor(ctx: PipelineContext): Promise<void> {
+        const prev = this.deps.store.getLatestSnapshot(ctx.fileKey);
+        const since = prev ? fromSqliteDate(prev.createdAt) : undefined;
+
+        try {
+            ctx.versions = await this.loadVersions(ctx.fileKey, prev?.version, since);
+        } catch {
+            console.warn('   ⚠️ Versiyon bilgisi alınamadı');
+        }
+
+        if (ctx.versions) {
+            // Without a stored version only the latest one counts (baseline)
+            ctx.landedVersions = prev ? versionsSince(ctx.versions, prev.version, since) : ctx.versions.slice(0, 1);
+            ctx.contributors = listContributors(ctx.landedVersions.length > 0 ? ctx.landedVersions : ctx.versions.slice(0, 1));
+        }
+
+        // A known author (webhook triggered_by) still wins for the headline
+        if (!ctx.author && ctx.contributors.length > 0) {
+            ctx.author = {
+                name: ctx.contributors.map(c => c.name).join(', '),
+                date: ctx.contributors[0].date,
+            };
+            if (ctx.landedVersions.length > 1) {
+                console.log(`   👥 ${ctx.landedVersions.length} versiyon: ${ctx.contributors.map(c => `${c.name} (${c.date})`).join(', ')}`);
+            }
+        }
+        if (ctx.author) {
+            console.log(`   👤 Son değişiklik: ${ctx.author.name} — ${ctx.author.date}`);
+        }
+    }
+
+    /**
+     * Page back through the version history until the stored version (or its date) is reached
+     */
+    private async loadVersions(fileKey: string, prevVersion?: string, since?: Date): Promise<FigmaVersion[]> {
+        const versions: FigmaVersion[] = [];
+        let before: string | undefined;
+
+        for (let page = 0; page < MAX_VERSION_PAGES; page++) {
+            const { versions: batch } = await this.deps.figma.getFileVersions(fileKey, before ? { before } : {});
+            versions.push(...batch);
+
+            const oldest = batch[batch.length - 1];
+            if (!prevVersion || !oldest || batch.some(v => v.id === prevVersion)) break;
+            if (since && new Date(oldest.created_at) <= since) break;
+            before = oldest.id;
+        }
+        return versions;
+    }
+
+    private async fetch(ctx: PipelineContext): Promise<void> {
+        // Cheap metadata check before downloading anything else
+        const lastVersion = this.deps.store.getLastVersion(ctx.fileKey);
+        ctx.version ??= (await this.deps.figma.getFileMetadata(ctx.fileKey)).version;
+        if (lastVersion === ctx.version) {
+            console.log(`   ⏭️  No changes (version: ${ctx.version})`);
+            ctx.unchanged = true;
+            ctx.halted = true;
+            return;
+        }
+        console.log(`   📥 New version detected: ${lastVersion || 'first scan'} → ${ctx.version}`);
+
+        // With partial fetch this is only the outline; the changed pages follow
+        const figmaFile = this.partial
+            ? await this.partial.outline(ctx.fileKey)
+            : await this.deps.figma.getFile(ctx.fileKey, ctx.version);
+        const pageCount = figmaFile.document.children?.length || 0;
+        console.log(`   📄 File: "${figmaFile.name}" (${pageCount} pages)`);
+
+        ctx.figmaFile = figmaFile;
+        ctx.rawJson = JSON.stringify(figmaFile);
+
+        if (this.partial) {
+            const result = await this.partial.fetch(ctx.fileKey, figmaFile, this.deps.store.getLatestSnapshot(ctx.fileKey));
+            ctx.filtered = result.filtered;
+            ctx.rawJson = result.rawJson;
+            ctx.fetchedPages = result.pages;
+            console.log(`   📑 ${result.pages.length}/${pageCount} sayfa indirildi (${result.changedCount} değişen, ${result.pages.length - result.changedCount} rotasyon)`);
+        }
+    }
+
+    private filter(ctx: PipelineContext): void {
+        const rawJson = ctx.rawJson!;
+        const filtered = ctx.filtered ?? filterFile(ctx.figmaFile!);
+        const filteredJson = JSON.stringify(filtered);
+        const toonString = toToon(filtered);
+
+        ctx.filtered = filtered;
+        ctx.filteredJson = filteredJson;
+        ctx.toonString = toonString;
+        ctx.tokens = extractTokens(filtered);
+
+        // ─── Size & Cost Analysis ───
+        const rawSize = rawJson.length;
+        const filteredSize = filteredJson.length;
+        const toonSize = toonString.length;
+        const filterReduction = ((rawSize - filteredSize) / rawSize * 100).toFixed(1);
+        const rawTokens = Math.round(rawSize / 4);
+        const filteredTokens = Math.round(filteredSize / 4);
+
+        console.log(`\n   📊 ── Boyut & Maliyet Analizi ──`);
+        console.log(`   📦 Raw Figma JSON:    ${(rawSize / 1024).toFixed(1)} KB  (~${rawTokens.toLocaleString()} token)`);
+        console.log(`   🔽 Filtered JSON:     ${(filteredSize / 1024).toFixed(1)} KB  (~${filteredTokens.toLocaleString()} token)  [%${filterReduction} azalma]`);
+        console.log(`   🔽 TOON Encoded:      ${(toonSize / 1024).toFixed(1)} KB`);
+        console.log(`   💰 Raw → LLM:  ~$${(rawTokens * 0.0000025).toFixed(4)}  |  Filtered → LLM:  ~$${(filteredTokens * 0.0000025).toFixed(4)}`);
+
+        // ─── Save debug logs ───
+        mkdirSync(ctx.logDir, { recursive: true });
+        writeFileSync(`${ctx.logDir}/1_raw_figma.json`, rawJson);
+        writeFileSync(`${ctx.logDir}/2_filtered.json`, JSON.stringify(filtered, null, 2));
+        writeFileSync(`${ctx.logDir}/3_encoded.toon`, toonString);
+        writeFileSync(`${ctx.logDir}/5_tokens.json`, JSON.stringify(ctx.tokens, null, 2));
+        console.log(`   📁 Debug dosyaları: ${ctx.logDir}/`);
+    }
+
+    private diff(ctx: PipelineContext): void {
+        ctx.prevSnapshot = this.deps.store.getLatestSnapshot(ctx.fileKey);
+
+        if (!ctx.prevSnapshot) {
+            console.log(`   📸 First snapshot saved (baseline)`);
+            ctx.halted = true;
+            return;
+        }
+
+        const prevFiltered: FilteredFile = JSON.parse(ctx.prevSnapshot.filteredJson);
+        ctx.changes = diffSnapshots(prevFiltered, ctx.filtered!);
+
+        // Snapshots stored before token extraction existed are re-derived on the fly
+        const prevTokens: TokenSet = ctx.prevSnapshot.tokensJson
+            ? JSON.parse(ctx.prevSnapshot.tokensJson)
+            : extractTokens(prevFiltered);
+        ctx.tokenChanges = diffTokens(prevTokens, ctx.tokens!);
+
+        if (ctx.changes.length === 0) {
+            console.log(`   ✅ Version changed but no visible design changes`);
+            ctx.halted = true;
+        }
+    }
+
+    /**
+     * Credit changes to their authors when several people saved versions since the last run
+     */
+    private async attribute(ctx: PipelineContext): Promise<void> {
+        if (ctx.contributors.length < 2) return;
+
+        const max = this.options.attributionMaxVersions ?? 3;
+        // The fetched file is the newest landed version; everything older is replayed
+        const intermediate = ctx.landedVersions.slice(1).reverse();
+        if (intermediate.length === 0 || intermediate.length > max) {
+            console.log(`   👥 ${ctx.landedVersions.length} versiyon birleşik raporlanıyor (değişiklik bazlı yazar için en fazla ${max + 1})`);
+            return;
+        }
+
+        const steps: VersionStep[] = [];
+        let previous: FilteredFile = JSON.parse(ctx.prevSnapshot!.filteredJson);
+        try {
+            for (const version of intermediate) {
+                const filtered = filterFile(await this.deps.figma.getFile(ctx.fileKey, version.id));
+                steps.push({ author: version.user.handle, changes: diffSnapshots(previous, filtered) });
+                previous = filtered;
+            }
+        } catch (err) {
+            console.warn(`   ⚠️ Ara versiyonlar alınamadı, yazarlar birleşik gösterilecek: ${(err as Error).message}`);
+            return;
+        }
+        steps.push({ author: ctx.landedVersions[0].user.handle, changes: diffSnapshots(previous, ctx.filtered!) });
+
+        ctx.changes = attributeChanges(ctx.changes, steps);
+        const credited = ctx.changes.filter(c => c.author).length;
+        console.log(`   👥 ${credited}/${ctx.changes.length} değişiklik yazarına atandı (${intermediate.length} ara versiyon)`);
+    }
+
+    private suppressNoise(ctx: PipelineContext): void {
+        const { kept, suppressed, suppressedCount } = suppressNoise(ctx.changes, this.options.noise);
+        ctx.changes = kept;
+        ctx.suppressedCount = suppressedCount;
+        if (suppressedCount === 0) return;
+
+        const reasons = Object.entries(suppressed).filter(([, n]) => n > 0).map(([reason, n]) => `${reason}: ${n}`);
+        console.log(`   🔇 ${suppressedCount} önemsiz değişiklik bastırıldı (${reasons.join(', ')})`);
+
+        if (kept.length === 0) {
+            console.log(`   ✅ Only noise changed — nothing to notify`);
+            ctx.halted = true;
+        }
+    }
+
+    private async collectNotes(ctx: PipelineContext): Promise<void> {
+        if (this.options.live === false) return;
+        const { figma } = this.deps;
+        const prev = ctx.prevSnapshot!;
+        const since = fromSqliteDate(prev.createdAt);
+
+        try {
+            ctx.versions ??= (await figma.getFileVersions(ctx.fileKey)).versions;
+            ctx.notes.versions = collectVersionNotes(ctx.versions, prev.version, since);
+        } catch {
+            console.warn('   ⚠️ Versiyon notları alınamadı');
+        }
+
+        try {
+            const { comments } = await figma.getComments(ctx.fileKey);
+            const frames = frameIndex(JSON.parse(prev.filteredJson), ctx.filtered!);
+            ctx.notes.comments = collectComments(comments, ctx.changes, nodeId => frames.get(nodeId)?.nodeId, since);
+        } catch {
+            console.warn('   ⚠️ Yorumlar alınamadı');
+        }
+
+        for (const v of ctx.notes.versions) {
+            console.log(`   🏷️  ${[v.label, v.description].filter(Boolean).join(' — ')}`);
+        }
+        if (ctx.notes.comments.length > 0) {
+            console.log(`   💬 ${ctx.notes.comments.length} yorum değişikliklerle eşleşti`);
+        }
+    }
+
+    private async renderThumbnails(ctx: PipelineContext): Promise<void> {
+        if (!this.thumbnails || this.options.live === false) return;
+
+        const prevFiltered: FilteredFile = JSON.parse(ctx.prevSnapshot!.filteredJson);
+        const frames = frameIndex(prevFiltered, ctx.filtered!);
+        try {
+            ctx.thumbnails = await this.thumbnails.render(
+                ctx.fileKey, changedFrames(ctx.changes, frames, this.thumbnails.maxFrames),
+                ctx.prevSnapshot!.version, ctx.figmaFile!.version
+            );
+            console.log(`   🖼️  ${ctx.thumbnails.length} frame için önce/sonra görseli alındı`);
+        } catch (err) {
+            // Thumbnails are a nice-to-have — never block the changelog on them
+            console.warn(`   ⚠️ Önce/sonra görselleri alınamadı: ${(err as Error).message}`);
+            return;
+        }
+
+        for (const t of ctx.thumbnails) {
+            if (t.diff) console.log(`      ${t.name}: %${t.diff.percentChanged} piksel değişti`);
+        }
+
+        const minPixelChange = this.options.noise?.minPixelChange;
+        if (!minPixelChange) return;
+
+        const scores = new Map(ctx.thumbnails.filter(t => t.diff).map(t => [t.nodeId, t.diff!.percentChanged]));
+        const { kept, suppressedCount, frames: quiet } = suppressUnchangedFrames(
+            ctx.changes, nodeId => frames.get(nodeId)?.nodeId, scores, minPixelChange
+        );
+        if (suppressedCount === 0) return;
+
+        ctx.changes = kept;
+        ctx.suppressedCount += suppressedCount;
+        ctx.thumbnails = ctx.thumbnails.filter(t => !quiet.includes(t.nodeId));
+        console.log(`   🔇 ${suppressedCount} değişiklik görsel olarak fark edilmediği için bastırıldı (%${minPixelChange} altı)`);
+
+        if (kept.length === 0) {
+            console.log(`   ✅ Only pixel noise changed — nothing to notify`);
+            ctx.halted = true;
+        }
+    }
+
+    private report(ctx: PipelineContext): void {
+        // ─── Per-page detailed log ───
+        const byPage = groupByPage(ctx.changes);
+        console.log(`\n   🔄 ${ctx.changes.length} design change(s) across ${byPage.size} page(s):\n`);
+
+        for (const [pageName, pageChanges] of byPage) {
+            const pageLink = figmaNodeLink(ctx.fileKey, pageChanges[0].pageId);
+            console.log(`   📄 ${pageName} (${pageChanges.length} changes)`);
+            console.log(`      🔗 ${pageLink}`);
+            for (const c of pageChanges) {
+                console.log(`      ${changeIcon(c)} ${c.path}`);
+                console.log(`         ${c.summary}`);
+                console.log(`         🔗 ${figmaNodeLink(ctx.fileKey, c.nodeId)}`);
+            }
+            console.log('');
+        }
+
+        if (ctx.tokenChanges.length > 0) {
+            console.log(`   🎨 ${ctx.tokenChanges.length} token change(s):`);
+            for (const t of ctx.tokenChanges) {
+                console.log(`      • ${t.summary}`);
+            }
+            console.log('');
+        }
+
+        // Save diff details
+        const rawSize = ctx.rawJson!.length;
+        const diffForLLM = formatChangesForLLM(ctx.changes);
+        const diffTokenCount = Math.round(diffForLLM.length / 4);
+        writeFileSync(`${ctx.logDir}/4_diff.txt`, diffForLLM);
+        console.log(`   📏 LLM'e gönderilen diff: ${diffForLLM.length} char (~${diffTokenCount} token)`);
+        console.log(`   🏆 Raw JSON yerine diff göndererek %${((rawSize - diffForLLM.length) / rawSize * 100).toFixed(1)} tasarruf!`);
+    }
+
+    private async generateChangelog(ctx: PipelineContext): Promise<void> {
+        if (this.options.live === false) return;
+        console.log(`\n   🤖 Generating changelog...`);
+        ctx.changelog = await this.deps.ai.generateChangelog(ctx.figmaFile!.name, ctx.changes, ctx.notes);
+    }
+
+    private async notify(ctx: PipelineContext): Promise<void> {
+        if (this.options.live === false) {
+            console.log(`   🗞️  Digest modu: ${ctx.changes.length} değişiklik özete eklenecek`);
+            return;
+        }
+        await this.deps.notifier.send(createNotification({
+            fileKey: ctx.fileKey,
+            fileName: ctx.figmaFile!.name,
+            version: ctx.figmaFile!.version,
+            author: ctx.author,
+            changelog: ctx.changelog || '',
+            changes: ctx.changes,
+            tokenChanges: ctx.tokenChanges,
+            suppressedCount: ctx.suppressedCount,
+            contributors: ctx.contributors.length > 1 ? ctx.contributors : undefined,
+            versions: ctx.notes.versions,
+            comments: ctx.notes.comments,
+            thumbnails: ctx.thumbnails,
+        }));
+    }
+
+    private persist(ctx: PipelineContext): void {
+        if (!ctx.figmaFile || !ctx.filtered || ctx.unchanged) return;
+
+        const { store } = this.deps;
+        const { fileKey, figmaFile } = ctx;
+        store.saveSnapshot(
+            fileKey, figmaFile.version, figmaFile.name,
+            ctx.toonString!, ctx.filteredJson!, JSON.stringify(ctx.tokens)
+        );
+        if (ctx.fetchedPages) {
+            store.savePageHashes(fileKey, figmaFile.version, ctx.fetchedPages, ctx.filtered.pages.map(p => p.id));
+        }
+        if (ctx.prevSnapshot && ctx.changes.length > 0) {
+            store.saveChangeSet({
+                fileKey,
+                fileName: figmaFile.name,
+                fromVersion: ctx.prevSnapshot.version,
+                toVersion: figmaFile.version,
+                // With several contributors the headline joins their names; only attributed changes get an author
+                author: ctx.contributors.length > 1 ? undefined : ctx.author?.name,
+                changelog: ctx.changelog,
+                changes: ctx.changes,
+                thumbnails: ctx.thumbnails,
+            });
+        }
+        store.updateTrackedFile(fileKey, figmaFile.name, figmaFile.version);
+        store.cleanOldSnapshots(fileKey, this.options.retention);
+    }
+}
@@ -1,239 +1,152 @@
 
 /**
- * Poller — Orchestrates the Figma → TOON → Diff → AI → Notify pipeline
+ * Poller — Runs the change pipeline for every tracked file on a schedule
+ * With DIGEST_CRON set, changes are only recorded and sent as a periodic digest
  */
 
 import cron from 'node-cron';
-import { FigmaClient, type FigmaVersion } from './figma-client.js';
-import { filterFile, toToon, fromToon, type FilteredFile } from './toon-converter.js';
-import { diffSnapshots, formatChangesForLLM, figmaNodeLink, type DesignChange } from './differ.js';
+import { FigmaClient } from './figma-client.js';
+import { FigmaCache } from './figma-cache.js';
+import { FigmaAuth } from './figma-auth.js';
 import { AIChangelog } from './ai-changelog.js';
-import { Notifier } from './mattermost.js';
+import { Notifier, createSinks } from './notifier.js';
+import { NotificationRouter, loadRoutingRules } from './routing.js';
+import { loadNoiseRules } from './noise.js';
 import { Store } from './store.js';
+import { ChangePipeline, type PipelineResult } from './pipeline.js';
+import { DigestRunner, type DigestResult } from './digest.js';
+import { RateBudget, RateBudgetExceeded, FILE_PRIORITIES } from './rate-budget.js';
+import { ProjectDiscovery } from './discovery.js';
 import type { Config } from './config.js';
 
 export class Poller {
     private figma: FigmaClient;
-    private ai: AIChangelog;
-    private notifier: Notifier;
+    private auth: FigmaAuth;
     private store: Store;
+    private budget: RateBudget;
+    private pipeline: ChangePipeline;
+    private digest: DigestRunner;
+    private discovery?: ProjectDiscovery;
+    private lastDiscoveryAt = 0;
     private config: Config;
     private cronJob?: cron.ScheduledTask;
+    private digestJob?: cron.ScheduledTask;
 
     constructor(config: Config) {
         this.config = config;
-        this.figma = new FigmaClient(config.figma.token);
-        this.ai = new AIChangelog(config.llm.provider, config.llm.apiKey, config.llm.model);
-        this.notifier = new Notifier(config.output);
         this.store = new Store(config.dbPath);
+        this.store.seedTrackedFiles(config.figma.fileKeys);
+        this.budget = new RateBudget(this.store, { limits: config.figma.rateLimits });
+        this.auth = new FigmaAuth(this.store, { token: config.figma.token, oauth: config.figma.oauth, apiBaseUrl: config.figma.apiBaseUrl });
+        this.figma = new FigmaClient(this.auth, config.figma.apiBaseUrl, {
+            budget: this.budget,
+            cache: config.figma.cache && new FigmaCache(config.figma.cache.dir, { maxVersionsPerFile: config.figma.cache.maxVersionsPerFile }),
+        });
+        const ai = new AIChangelog(config.llm.provider, config.llm.apiKey, config.llm.model);
+        const notifier = new Notifier(
+            createSinks(config.output),
+            new NotificationRouter(loadRoutingRules(config.rulesPath), key => this.store.getTrackedFile(key)?.channelWebhook)
+        );
+        this.pipeline = new ChangePipeline({ figma: this.figma, ai, notifier, store: this.store }, {
+            retention: config.retention,
+            noise: loadNoiseRules(config.rulesPath),
+            live: !config.digest.cron,
+            thumbnails: config.thumbnails,
+            attributionMaxVersions: config.attributionMaxVersions,
+            partialFetch: config.partialFetch,
+        });
+        this.discovery = config.discovery && new ProjectDiscovery({ figma: this.figma, store: this.store }, config.discovery);
+        this.digest = new DigestRunner({ store: this.store, ai, notifier }, {
+            group: config.digest.group,
+            lookbackDays: config.digest.lookbackDays,
+        });
     }
 
     /**
-     * Process a single file: fetch → filter → TOON → diff → changelog → notify
+     * Process a single file with the shared change pipeline (which skips unchanged versions)
      */
-    async processFile(fileKey: string): Promise<{ hasChanges: boolean; changeCount: number }> {
+    async processFile(fileKey: string): Promise<PipelineResult> {
         console.log(`\n🔍 Checking file: ${fileKey}`);
-
-        // 1. Check if file has new version
-        const metadata = await this.figma.getFileMetadata(fileKey);
-        const lastVersion = this.store.getLastVersion(fileKey);
-
-        if (lastVersion === metadata.version) {
-            console.log(`   ⏭️  No changes (version: ${metadata.version})`);
-            return { hasChanges: false, changeCount: 0 };
-        }
-
-        console.log(`   📥 New version detected: ${lastVersion || 'first scan'} → ${metadata.version}`);
-
-        // 2. Get version author info
-        let author: { name: string; date: string } | undefined;
-        try {
-            const versionsData = await this.figma.getFileVersions(fileKey);
-            const latestVersion = versionsData.versions[0];
-            if (latestVersion) {
-                author = {
-                    name: latestVersion.user.handle,
-                    date: new Date(latestVersion.created_at).toLocaleString('tr-TR'),
-                };
-            }
-        } catch {
-            console.warn('   ⚠️ Versiyon bilgisi alınamadı');
-        }
-
-        // 3. Fetch full file
-        const figmaFile = await this.figma.getFile(fileKey);
-        const rawJson = JSON.stringify(figmaFile);
-        const rawSize = rawJson.length;
-        const pageCount = figmaFile.document.children?.length || 0;
-        console.log(`   📄 File: "${figmaFile.name}" (${pageCount} pages)`);
-        if (author) {
-            console.log(`   👤 Son değişiklik: ${author.name} — ${author.date}`);
-        }
-
-        // 4. Filter & convert to TOON
-        const filtered = filterFile(figmaFile);
-        const filteredJson = JSON.stringify(filtered);
-        const toonString = toToon(filtered);
-        const filteredSize = filteredJson.length;
-        const toonSize = toonString.length;
-
-        // ─── Size & Cost Analysis ───
-        const filterReduction = ((rawSize - filteredSize) / rawSize * 100).toFixed(1);
-        const rawTokens = Math.round(rawSize / 4);
-        const filteredTokens = Math.round(filteredSize / 4);
-
-        console.log(`\n   📊 ── Boyut & Maliyet Analizi ──`);
-        console.log(`   📦 Raw Figma JSON:    ${(rawSize / 1024).toFixed(1)} KB  (~${rawTokens.toLocaleString()} token)`);
-        console.log(`   🔽 Filtered JSON:     ${(filteredSize / 1024).toFixed(1)} KB  (~${filteredTokens.toLocaleString()} token)  [%${filterReduction} azalma]`);
-        console.log(`   🔽 TOON Encoded:      ${(toonSize / 1024).toFixed(1)} KB`);
-        console.log(`   💰 Raw → LLM:  ~$${(rawTokens * 0.0000025).toFixed(4)}  |  Filtered → LLM:  ~$${(filteredTokens * 0.0000025).toFixed(4)}`);
-
-        // ─── Save debug logs ───
-        const { mkdirSync, writeFileSync } = await import('fs');
-        const logDir = `./logs/${fileKey}`;
-        mkdirSync(logDir, { recursive: true });
-        writeFileSync(`${logDir}/1_raw_figma.json`, rawJson);
-        writeFileSync(`${logDir}/2_filtered.json`, JSON.stringify(filtered, null, 2));
-        writeFileSync(`${logDir}/3_encoded.toon`, toonString);
-        console.log(`   📁 Debug dosyaları: ${logDir}/`);
-
-        // 5. Get previous snapshot for diff
-        const prevSnapshot = this.store.getLatestSnapshot(fileKey);
-
-        if (!prevSnapshot) {
-            console.log(`   📸 First snapshot saved (baseline)`);
-            this.store.saveSnapshot(fileKey, metadata.version, figmaFile.name, toonString, filteredJson);
-            this.store.updateTrackedFile(fileKey, figmaFile.name, metadata.version);
-            return { hasChanges: false, changeCount: 0 };
-        }
-
-        // 6. Diff with previous
-        const prevFiltered: FilteredFile = JSON.parse(prevSnapshot.filteredJson);
-        const changes = diffSnapshots(prevFiltered, filtered);
-
-        if (changes.length === 0) {
-            console.log(`   ✅ Version changed but no visible design changes`);
-            this.store.saveSnapshot(fileKey, metadata.version, figmaFile.name, toonString, filteredJson);
-            this.store.updateTrackedFile(fileKey, figmaFile.name, metadata.version);
-            return { hasChanges: false, changeCount: 0 };
-        }
-
-        // ─── Per-page detailed log ───
-        const byPage = new Map<string, DesignChange[]>();
-        for (const c of changes) {
-            const existing = byPage.get(c.page) || [];
-            existing.push(c);
-            byPage.set(c.page, existing);
-        }
-
-        console.log(`\n   🔄 ${changes.length} design change(s) across ${byPage.size} page(s):\n`);
-
-        for (const [pageName, pageChanges] of byPage) {
-            const pageId = pageChanges[0].pageId;
-            const pageLink = figmaNodeLink(fileKey, pageId);
-            console.log(`   📄 ${pageName} (${pageChanges.length} changes)`);
-            console.log(`      🔗 ${pageLink}`);
-            for (const c of pageChanges) {
-                const icon = c.kind === 'ADDED' ? '➕' : c.kind === 'REMOVED' ? '➖' : '✏️';
-                const nodeLink = figmaNodeLink(fileKey, c.nodeId);
-                console.log(`      ${icon} ${c.path}`);
-                console.log(`         ${c.summary}`);
-                console.log(`         🔗 ${nodeLink}`);
-            }
-            console.log('');
-        }
-
-        // Save diff details
-        const diffForLLM = formatChangesForLLM(changes);
-        const diffTokens = Math.round(diffForLLM.length / 4);
-        writeFileSync(`${logDir}/4_diff.txt`, diffForLLM);
-        console.log(`   📏 LLM'e gönderilen diff: ${diffForLLM.length} char (~${diffTokens} token)`);
-        console.log(`   🏆 Raw JSON yerine diff göndererek %${((rawSize - diffForLLM.length) / rawSize * 100).toFixed(1)} tasarruf!`);
-
-        // 7. Generate AI changelog
-        console.log(`\n   🤖 Generating changelog...`);
-        const changelog = await this.ai.generateChangelog(figmaFile.name, changes);
-
-        // 8. Build rich notification with author & links
-        const richChangelog = this.buildRichChangelog(
-            figmaFile.name, fileKey, changelog, changes, byPage, author
-        );
-
-        // 9. Send notification
-        await this.notifier.send(richChangelog, figmaFile.name);
-
-        // 10. Save new snapshot
-        this.store.saveSnapshot(fileKey, metadata.version, figmaFile.name, toonString, filteredJson);
-        this.store.updateTrackedFile(fileKey, figmaFile.name, metadata.version);
-        this.store.cleanOldSnapshots(fileKey);
-
-        return { hasChanges: true, changeCount: changes.length };
+        return this.pipeline.process(fileKey);
     }
 
     /**
-     * Build rich changelog with author, date, per-page sections, and Figma links
+     * Sync tracked files with the watched teams/projects, at most once per discovery interval.
+     * Newly found files get their baseline in the same poll.
      */
-    private buildRichChangelog(
-        fileName: string,
-        fileKey: string,
-        aiChangelog: string,
-        changes: DesignChange[],
-        byPage: Map<string, DesignChange[]>,
-        author?: { name: string; date: string }
-    ): string {
-        const lines: string[] = [];
-
-        // Header with author
-        if (author) {
-            lines.push(`👤 **${author.name}** — ${author.date}`);
-        }
-        lines.push(`📂 ${byPage.size} sayfa, ${changes.length} değişiklik\n`);
-
-        // AI-generated changelog
-        lines.push(aiChangelog);
+    private async discover(): Promise<void> {
+        if (!this.discovery || !this.config.discovery) return;
+        if (Date.now() - this.lastDiscoveryAt < this.config.discovery.intervalMinutes * 60_000) return;
+        this.lastDiscoveryAt = Date.now();
 
-        // Per-page Figma links
-        lines.push(`\n🔗 **Figma Linkleri:**`);
-        for (const [pageName, pageChanges] of byPage) {
-            const pageLink = figmaNodeLink(fileKey, pageChanges[0].pageId);
-            lines.push(`  📄 [${pageName}](${pageLink}) — ${pageChanges.length} değişiklik`);
+        console.log(`\n🧭 Figma projeleri taranıyor...`);
+        try {
+            await this.discovery.run();
+        } catch (error) {
+            console.error('❌ Proje keşfi başarısız:', error);
         }
-
-        return lines.join('\n');
     }
 
     /**
-     * Process all tracked files once
+     * Process all tracked files once, high priority first. Requests are paced by the
+     * shared rate budget; files that can't get one are deferred to the next poll.
      */
     async pollOnce(): Promise<void> {
         console.log(`\n${'─'.repeat(50)}`);
         console.log(`🕐 DesignRadar poll — ${new Date().toLocaleString('tr-TR')}`);
         console.log('─'.repeat(50));
 
-        for (const fileKey of this.config.figma.fileKeys) {
+        await this.discover();
+
+        const files = this.store.listTrackedFiles()
+            .sort((a, b) => FILE_PRIORITIES.indexOf(a.priority) - FILE_PRIORITIES.indexOf(b.priority));
+        for (const file of files) {
             try {
-                await this.processFile(fileKey);
+                await this.auth.withAccount(file.account, () =>
+                    this.budget.withPriority(file.priority, () => this.processFile(file.fileKey)));
             } catch (error) {
-                console.error(`❌ Error processing ${fileKey}:`, error);
-            }
-
-            // Rate limiting: wait 2s between files
-            if (this.config.figma.fileKeys.length > 1) {
-                await new Promise(r => setTimeout(r, 2000));
+                if (error instanceof RateBudgetExceeded) {
+                    console.warn(`   ⏸️  ${file.fileKey} sonraki poll'a ertelendi: Figma API bütçesi ${error.retryAt.toLocaleTimeString('tr-TR')}'e kadar dolu`);
+                    continue;
+                }
+                console.error(`❌ Error processing ${file.fileKey}:`, error);
             }
         }
 
         console.log(`\n✅ Poll complete\n`);
     }
 
+    /**
+     * Send the rollup of everything recorded since the previous digest
+     */
+    async runDigest(): Promise<DigestResult[]> {
+        console.log(`\n${'─'.repeat(50)}`);
+        console.log(`🗞️  DesignRadar digest — ${new Date().toLocaleString('tr-TR')}`);
+        console.log('─'.repeat(50));
+
+        const results = await this.digest.run();
+        console.log(`\n✅ Digest complete\n`);
+        return results;
+    }
+
     /**
      * Start continuous polling with cron
      */
     start(): void {
         const interval = this.config.pollIntervalMinutes;
+        const digestCron = this.config.digest.cron;
+        if (digestCron && !cron.validate(digestCron)) {
+            throw new Error(`Invalid DIGEST_CRON: ${digestCron}`);
+        }
+
         console.log(`🚀 DesignRadar started — polling every ${interval} minutes`);
-        console.log(`📂 Tracking ${this.config.figma.fileKeys.length} file(s)`);
-        console.log(`📤 Output: ${this.config.output.mode}`);
+        console.log(`📂 Tracking ${this.store.getTrackedFileKeys().length} file(s)`);
+        if (this.config.discovery) {
+            const { teamIds, projectIds, intervalMinutes } = this.config.discovery;
+            console.log(`🧭 Discovery: ${teamIds.length} team(s), ${projectIds.length} project(s), every ${intervalMinutes} minutes`);
+        }
+        console.log(`📤 Output: ${this.config.output.sinks.join(', ')}`);
+        console.log(`📊 Figma API bütçesi: plan ${this.budget.planTier}, tier 1 ${this.budget.limit(1)}/dk`);
         console.log(`🤖 LLM: ${this.config.llm.provider} / ${this.config.llm.model}\n`);
 
         // Run immediately on start
@@ -243,6 +156,13 @@ export class Poller {
         this.cronJob = cron.schedule(`*/${interval} * * * *`, () => {
             this.pollOnce();
         });
+
+        if (digestCron) {
+            console.log(`🗞️  Digest mode: ${digestCron} (${this.config.digest.group === 'team' ? 'tek mesaj' : 'dosya başına'})`);
+            this.digestJob = cron.schedule(digestCron, () => {
+                this.runDigest().catch(err => console.error('❌ Digest failed:', err));
+            });
+        }
     }
 
     /**
@@ -250,6 +170,7 @@ export class Poller {
      */
     stop(): void {
         this.cronJob?.stop();
+        this.digestJob?.stop();
         this.store.close();
         console.log('🛑 DesignRadar stopped');
     }
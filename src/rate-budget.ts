@@ -0,0 +1,168 @@
+/**
+ * Figma API Rate Budget
+ * Figma limits REST calls per minute by endpoint tier, with limits that depend on
+ * the plan (reported in the x-figma-plan-tier header). Instead of only reacting to
+ * 429s, every request takes a token from its tier's bucket. Buckets live in SQLite,
+ * so the poller, the webhook server and the CLIs spend from one shared budget.
+ *
+ * High and normal priority work waits for a token; low priority work doesn't dip
+ * into the reserve and gives up with RateBudgetExceeded, to be retried next poll.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Store } from './store.js';
+
+export type RequestTier = 1 | 2 | 3;
+export type FilePriority = 'high' | 'normal' | 'low';
+
+export const FILE_PRIORITIES: FilePriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Requests per minute by plan and endpoint tier. Deliberately below Figma's published
+ * limits; FIGMA_RATE_LIMITS overrides them.
+ */
+export const PLAN_LIMITS: Record<string, Record<RequestTier, number>> = {
+    starter: { 1: 2, 2: 10, 3: 20 },
+    student: { 1: 2, 2: 10, 3: 20 },
+    pro: { 1: 10, 2: 25, 3: 50 },
+    org: { 1: 15, 2: 50, 3: 100 },
+    enterprise: { 1: 20, 2: 100, 3: 150 },
+};
+
+const DEFAULT_PLAN = 'pro';
+const PLAN_SETTING = 'figma_plan_tier';
+
+export interface RateBudgetOptions {
+    /** Requests per minute per tier, instead of the plan's defaults */
+    limits?: Partial<Record<RequestTier, number>>;
+    /** Longest a high/normal priority request waits for a token (default: 2 min) */
+    maxWaitMs?: number;
+    /** Share of each bucket kept for high/normal priority work (default: 0.5) */
+    lowPriorityReserve?: number;
+    /** Clock, for tests */
+    now?: () => number;
+}
+
+export class RateBudgetExceeded extends Error {
+    readonly tier: RequestTier;
+    readonly retryAt: Date;
+
+    constructor(tier: RequestTier, retryAt: Date) {
+        super(`Figma API budget exhausted for tier ${tier} until ${retryAt.toISOString()}`);
+        this.name = 'RateBudgetExceeded';
+        this.tier = tier;
+        this.retryAt = retryAt;
+    }
+}
+
+/**
+ * Figma's endpoint tier for a REST path: file contents and renders are the expensive tier 1
+ */
+export function requestTier(path: string): RequestTier {
+    if (/^\/files\/[^/?]+\/(versions|comments)/.test(path)) return 2;
+    if (/^\/(teams\/[^/?]+\/projects|projects\/[^/?]+\/files)/.test(path)) return 2;
+    if (/^\/files\/[^/?]+\/meta/.test(path)) return 3;
+    return 1;
+}
+
+export class RateBudget {
+    private store: Store;
+    private options: RateBudgetOptions;
+    private plan: string;
+    private priorityContext = new AsyncLocalStorage<FilePriority>();
+
+    constructor(store: Store, options: RateBudgetOptions = {}) {
+        this.store = store;
+        this.options = options;
+        this.plan = store.getSetting(PLAN_SETTING) || DEFAULT_PLAN;
+    }
+
+    get planTier(): string {
+        return this.plan;
+    }
+
+    limit(tier: RequestTier): number {
+        return this.options.limits?.[tier] ?? (PLAN_LIMITS[this.plan] ?? PLAN_LIMITS[DEFAULT_PLAN])[tier];
+    }
+
+    /**
+     * Run `fn` with every Figma request inside it spending at this priority
+     */
+    withPriority<T>(priority: FilePriority, fn: () => Promise<T>): Promise<T> {
+        return this.priorityContext.run(priority, fn);
+    }
+
+    /**
+     * Remember the plan from a response header; limits follow it from then on
+     */
+    observePlanTier(planTier: string | null): void {
+        if (!planTier || planTier === this.plan || !PLAN_LIMITS[planTier]) return;
+        console.log(`   📊 Figma planı: ${planTier} (önceki: ${this.plan})`);
+        this.plan = planTier;
+        this.store.setSetting(PLAN_SETTING, planTier);
+    }
+
+    /**
+     * Take one token for the tier, waiting when the priority allows it
+     */
+    async acquire(tier: RequestTier): Promise<void> {
+        const priority = this.priorityContext.getStore() ?? 'normal';
+        const maxWait = this.options.maxWaitMs ?? 120_000;
+
+        for (;;) {
+            const waitMs = this.take(tier, priority);
+            if (waitMs === 0) return;
+            if (priority === 'low' || waitMs > maxWait) {
+                throw new RateBudgetExceeded(tier, new Date(this.now() + waitMs));
+            }
+            if (waitMs >= 1000) {
+                console.log(`   ⏳ Figma API bütçesi (tier ${tier}): ${Math.ceil(waitMs / 1000)}sn bekleniyor`);
+            }
+            await new Promise(r => setTimeout(r, waitMs));
+        }
+    }
+
+    /**
+     * After a 429: nobody spends from this tier until Retry-After has passed
+     */
+    block(tier: RequestTier, retryAfterSeconds: number): Date {
+        const until = this.now() + retryAfterSeconds * 1000;
+        this.store.updateRateBucket(tier, bucket => ({
+            tokens: 0,
+            updatedAt: this.now(),
+            blockedUntil: Math.max(until, bucket?.blockedUntil ?? 0),
+        }));
+        return new Date(until);
+    }
+
+    private now(): number {
+        return this.options.now ? this.options.now() : Date.now();
+    }
+
+    // Returns 0 when a token was taken, otherwise how long until one is available
+    private take(tier: RequestTier, priority: FilePriority): number {
+        const now = this.now();
+        const capacity = this.limit(tier);
+        const perMs = capacity / 60_000;
+        const floor = priority === 'low' ? capacity * (this.options.lowPriorityReserve ?? 0.5) : 0;
+        let waitMs = 0;
+
+        this.store.updateRateBucket(tier, bucket => {
+            const tokens = bucket
+                ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs)
+                : capacity;
+            const blockedUntil = bucket?.blockedUntil ?? 0;
+
+            if (blockedUntil > now) {
+                waitMs = blockedUntil - now;
+            } else if (tokens - 1 >= floor) {
+                return { tokens: tokens - 1, updatedAt: now, blockedUntil: 0 };
+            } else {
+                waitMs = Math.ceil((floor + 1 - tokens) / perMs);
+            }
+            return { tokens, updatedAt: now, blockedUntil };
+        });
+
+        return waitMs;
+    }
+}
@@ -0,0 +1,202 @@
+/**
+ * Notification Routing
+ * Sends each change to the channel that owns it, based on a rules file:
+ *
+ *   {
+ *     "routes": [
+ *       { "file": "abc123", "webhook": "https://hooks.slack.com/services/..." },
+ *       { "page": "Mobile/*", "webhook": "https://mattermost.example.com/hooks/mobile" },
+ *       { "file": "abc123", "path": "Checkout/**", "webhook": "https://example.com/hook", "type": "json" }
+ *     ]
+ *   }
+ *
+ * - `page` globs match the page name, `path` globs the node path ("Header / Button" → "Header/Button").
+ *   `*` stays within one segment, `**` spans segments, `?` is one character; matching is case-insensitive.
+ * - A change goes to every page/path route it matches. Unmatched changes go to the file's own
+ *   destination (a file-only route, else tracked_files.channel_webhook), else to the default sinks.
+ * - `type` is inferred when omitted: hooks.slack.com → slack, anything else → mattermost.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { DesignChange } from './differ.js';
+import { createNotification, isWebhookUrl, type Notification, type NotificationSink } from './notification.js';
+import { sinkForWebhook, type WebhookSinkType } from './notifier.js';
+
+export interface RouteRule {
+    file?: string;
+    page?: string;
+    path?: string;
+    webhook: string;
+    type?: WebhookSinkType;
+}
+
+export interface RoutingRules {
+    routes: RouteRule[];
+}
+
+export interface Delivery {
+    /** undefined = the default sinks */
+    webhook?: string;
+    sinks: NotificationSink[];
+    notification: Notification;
+}
+
+const WEBHOOK_SINK_TYPES: WebhookSinkType[] = ['mattermost', 'slack', 'json'];
+
+/**
+ * Read the shared rules file (routes, noise, ...). Undefined when it doesn't exist.
+ */
+export function readRulesFile(path: string): Record<string, any> | undefined {
+    if (!existsSync(path)) return undefined;
+    return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Load the routes section. A missing file means "no routing" — everything goes to the default sinks.
+ */
+export function loadRoutingRules(path: string): RoutingRules {
+    const parsed = readRulesFile(path);
+    if (!parsed) return { routes: [] };
+
+    const routes: unknown = parsed.routes ?? [];
+    if (!Array.isArray(routes)) throw new Error(`${path}: "routes" must be an array`);
+
+    routes.forEach((r, i) => {
+        if (typeof r?.webhook !== 'string' || !r.webhook) {
+            throw new Error(`${path}: routes[${i}] needs a "webhook" URL`);
+        }
+        if (!isWebhookUrl(r.webhook)) {
+            throw new Error(`${path}: routes[${i}] "webhook" must be an http(s) URL`);
+        }
+        if (!r.file && !r.page && !r.path) {
+            throw new Error(`${path}: routes[${i}] needs at least one of "file", "page" or "path"`);
+        }
+        if (r.type && !WEBHOOK_SINK_TYPES.includes(r.type)) {
+            throw new Error(`${path}: routes[${i}] has unknown type "${r.type}"`);
+        }
+    });
+    return { routes };
+}
+
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            pattern += '.*';
+            i++;
+        } else if (ch === '*') {
+            pattern += '[^/]*';
+        } else if (ch === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
+// Figma paths use " / " between layers; globs are written with plain "/"
+function normalizePath(path: string): string {
+    return path.split('/').map(s => s.trim()).join('/');
+}
+
+export class NotificationRouter {
+    private rules: RouteRule[];
+    private fileWebhook: (fileKey: string) => string | undefined;
+    private matchers = new Map<string, RegExp>();
+    private sinks = new Map<string, NotificationSink>();
+
+    /**
+     * @param fileWebhook Fallback per-file destination (e.g. tracked_files.channel_webhook)
+     */
+    constructor(rules: RoutingRules, fileWebhook: (fileKey: string) => string | undefined = () => undefined) {
+        this.rules = rules.routes;
+        this.fileWebhook = fileWebhook;
+    }
+
+    /**
+     * Split a notification into one delivery per destination, each with only its own changes
+     */
+    resolve(notification: Notification, defaultSinks: NotificationSink[]): Delivery[] {
+        const { fileKey } = notification;
+        const fileRule = this.rules.find(r => r.file === fileKey && !r.page && !r.path);
+        const fileTarget = fileRule
+            ? { webhook: fileRule.webhook, type: fileRule.type }
+            : this.fileTarget(fileKey);
+        const changeRules = this.rules.filter(r => (r.page || r.path) && (!r.file || r.file === fileKey));
+
+        if (changeRules.length === 0) {
+            return [this.delivery(fileTarget, notification, defaultSinks)];
+        }
+
+        const groups = new Map<string | undefined, { rule?: Pick<RouteRule, 'webhook' | 'type'>; changes: DesignChange[] }>();
+        const add = (rule: Pick<RouteRule, 'webhook' | 'type'> | undefined, change: DesignChange) => {
+            const group = groups.get(rule?.webhook) || { rule, changes: [] };
+            group.changes.push(change);
+            groups.set(rule?.webhook, group);
+        };
+
+        for (const change of notification.changes) {
+            const matched = changeRules.filter(r => this.matches(r, change));
+            // The same webhook may be listed by several rules — deliver the change once
+            const webhooks = new Set<string>();
+            for (const rule of matched) {
+                if (webhooks.has(rule.webhook)) continue;
+                webhooks.add(rule.webhook);
+                add(rule, change);
+            }
+            if (matched.length === 0) add(fileTarget, change);
+        }
+
+        const { links, ...rest } = notification;
+        return [...groups.values()].map(({ rule, changes }) =>
+            this.delivery(rule, createNotification({
+                ...rest,
+                changes,
+                thumbnails: rest.thumbnails?.filter(t => changes.some(c => c.pageId === t.pageId)),
+                comments: rest.comments?.filter(comment => changes.some(c => c.path === comment.path)),
+            }), defaultSinks));
+    }
+
+    private fileTarget(fileKey: string): Pick<RouteRule, 'webhook' | 'type'> | undefined {
+        const webhook = this.fileWebhook(fileKey);
+        return webhook ? { webhook } : undefined;
+    }
+
+    private matches(rule: RouteRule, change: DesignChange): boolean {
+        if (rule.page && !this.matcher(rule.page).test(change.page)) return false;
+        if (rule.path && !this.matcher(rule.path).test(normalizePath(change.path))) return false;
+        return true;
+    }
+
+    private matcher(glob: string): RegExp {
+        let re = this.matchers.get(glob);
+        if (!re) {
+            re = globToRegExp(glob);
+            this.matchers.set(glob, re);
+        }
+        return re;
+    }
+
+    private delivery(
+        target: Pick<RouteRule, 'webhook' | 'type'> | undefined,
+        notification: Notification,
+        defaultSinks: NotificationSink[]
+    ): Delivery {
+        if (!target) return { sinks: defaultSinks, notification };
+
+        let sink = this.sinks.get(target.webhook);
+        if (!sink) {
+            try {
+                sink = sinkForWebhook(target.webhook, target.type);
+            } catch (err) {
+                // e.g. a malformed channel_webhook stored before it was validated
+                console.warn(`⚠️ Geçersiz webhook, varsayılan çıkışlar kullanılıyor: ${target.webhook}`, err instanceof Error ? err.message : err);
+                return { sinks: defaultSinks, notification };
+            }
+            this.sinks.set(target.webhook, sink);
+        }
+        return { webhook: target.webhook, sinks: [sink], notification };
+    }
+}
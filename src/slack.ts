@@ -0,0 +1,154 @@
+/**
+ * Slack Sink
+ * Renders a notification as Block Kit: header / summary / per-page sections with Figma buttons / before-after images
+ */
+
+import { groupByPage, type DesignChange } from './differ.js';
+import { changeLink, postWithRetry, type Notification, type NotificationSink } from './notification.js';
+
+export interface SlackBlock {
+    type: string;
+    [key: string]: any;
+}
+
+export interface SlackMessage {
+    text: string;          // Fallback for notifications and old clients
+    blocks: SlackBlock[];
+}
+
+// Slack limits: 50 blocks per message, 3000 chars per section, 25 elements per actions block, 10 per context block
+const MAX_PAGES = 10;
+const MAX_SECTION_CHARS = 2900;
+const MAX_NODE_BUTTONS = 5;
+const MAX_THUMBNAILS = 3;
+const MAX_TOKEN_CHANGES = 15;
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Markdown → Slack mrkdwn: **bold** → *bold*, [label](url) → <url|label>
+export function toMrkdwn(markdown: string): string {
+    return markdown
+        .replace(/\*\*(.+?)\*\*/g, '*$1*')
+        .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<$2|$1>');
+}
+
+function plainText(text: string, max: number = 75): { type: 'plain_text'; text: string; emoji: true } {
+    return { type: 'plain_text', text: truncate(text, max), emoji: true };
+}
+
+function pageBlocks(notification: Notification, pageName: string, pageChanges: DesignChange[]): SlackBlock[] {
+    const lines = pageChanges.slice(0, 8).map(c => `• ${c.path}: ${c.summary}${c.author ? ` — _${c.author}_` : ''}`);
+    if (pageChanges.length > 8) lines.push(`_...ve ${pageChanges.length - 8} değişiklik daha_`);
+
+    const blocks: SlackBlock[] = [{
+        type: 'section',
+        text: {
+            type: 'mrkdwn',
+            text: truncate(`📄 *${pageName}* — ${pageChanges.length} değişiklik\n${lines.join('\n')}`, MAX_SECTION_CHARS),
+        },
+        accessory: {
+            type: 'button',
+            text: plainText('Sayfayı aç'),
+            url: changeLink(notification, pageChanges[0], pageChanges[0].pageId),
+        },
+    }];
+
+    // One button per changed node (deduplicated), so devs can jump straight to the layer
+    const seen = new Set<string>();
+    const buttons: SlackBlock[] = [];
+    for (const c of pageChanges) {
+        if (seen.has(c.nodeId) || c.nodeId === c.pageId) continue;
+        seen.add(c.nodeId);
+        buttons.push({
+            type: 'button',
+            text: plainText(c.path.split(' / ').pop() || c.nodeId),
+            url: changeLink(notification, c),
+        });
+        if (buttons.length === MAX_NODE_BUTTONS) break;
+    }
+    if (buttons.length > 0) blocks.push({ type: 'actions', elements: buttons });
+
+    return blocks;
+}
+
+function thumbnailBlocks(notification: Notification): SlackBlock[] {
+    const blocks: SlackBlock[] = [];
+    for (const t of (notification.thumbnails || []).slice(0, MAX_THUMBNAILS)) {
+        const state = !t.before ? ' _(yeni)_' : !t.after ? ' _(silindi)_' : t.diff ? ` · %${t.diff.percentChanged} piksel değişti` : '';
+        blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `🖼️ *${t.name}* — ${t.page}${state}` }] });
+        if (t.before) blocks.push({ type: 'image', image_url: t.before.url, alt_text: `${t.name} — önce`, title: plainText('Önce') });
+        if (t.after) blocks.push({ type: 'image', image_url: t.after.url, alt_text: `${t.name} — sonra`, title: plainText('Sonra') });
+    }
+    return blocks;
+}
+
+export function buildSlackMessage(data: Notification): SlackMessage {
+    const byPage = groupByPage(data.changes);
+
+    const context = [`📂 ${byPage.size} sayfa, ${data.changes.length} değişiklik`];
+    if (data.suppressedCount) context.push(`🔇 ${data.suppressedCount} önemsiz değişiklik gizlendi`);
+    if (data.contributors?.length) {
+        context.unshift(`👥 ${data.contributors.map(c => `*${c.name}* (${c.date})`).join(', ')}`);
+    } else if (data.author) {
+        context.unshift(`👤 *${data.author.name}* — ${data.author.date}`);
+    }
+    // All version notes share one element, so a busy day can't push the context block past its limit
+    const notes = (data.versions || []).map(v => `🏷️ ${[v.label && `*${v.label}*`, v.description].filter(Boolean).join(' — ')}`);
+    if (notes.length > 0) context.push(truncate(notes.join('\n'), MAX_SECTION_CHARS));
+
+    const blocks: SlackBlock[] = [
+        { type: 'header', text: plainText(`🎯 DesignRadar — ${data.fileName}`, 150) },
+        { type: 'context', elements: context.map(text => ({ type: 'mrkdwn', text })) },
+        { type: 'section', text: { type: 'mrkdwn', text: truncate(toMrkdwn(data.changelog), MAX_SECTION_CHARS) } },
+    ];
+
+    if (data.comments?.length) {
+        const lines = data.comments.map(c => `• _${c.path}_ — *${c.author}*: ${c.message}`);
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(`💬 *Tasarımcı Yorumları*\n${lines.join('\n')}`, MAX_SECTION_CHARS) } });
+    }
+
+    // Token-level changes matter more to frontend devs than single-node edits
+    if (data.tokenChanges.length > 0) {
+        const lines = data.tokenChanges.slice(0, MAX_TOKEN_CHANGES).map(t => `• ${t.summary}`);
+        if (data.tokenChanges.length > MAX_TOKEN_CHANGES) {
+            lines.push(`_...ve ${data.tokenChanges.length - MAX_TOKEN_CHANGES} token değişikliği daha_`);
+        }
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(`🎨 *Token Değişiklikleri*\n${lines.join('\n')}`, MAX_SECTION_CHARS) } });
+    }
+
+    const images = thumbnailBlocks(data);
+    if (images.length > 0) blocks.push({ type: 'divider' }, ...images);
+
+    const pages = [...byPage];
+    for (const [pageName, pageChanges] of pages.slice(0, MAX_PAGES)) {
+        blocks.push({ type: 'divider' });
+        blocks.push(...pageBlocks(data, pageName, pageChanges));
+    }
+    if (pages.length > MAX_PAGES) {
+        blocks.push({
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `_...ve ${pages.length - MAX_PAGES} sayfa daha_` }],
+        });
+    }
+
+    return {
+        text: `🎯 DesignRadar — ${data.fileName}: ${data.changes.length} değişiklik`,
+        blocks,
+    };
+}
+
+export class SlackSink implements NotificationSink {
+    readonly name = 'Slack';
+    private webhookUrl: string;
+
+    constructor(webhookUrl: string) {
+        this.webhookUrl = webhookUrl;
+    }
+
+    async send(notification: Notification): Promise<void> {
+        await postWithRetry(this.name, this.webhookUrl, buildSlackMessage(notification));
+        console.log(`✅ Slack'e gönderildi: ${notification.fileName}`);
+    }
+}
@@ -4,6 +4,9 @@
  */
 
 import Database from 'better-sqlite3';
+import { diffSnapshots, type DesignChange } from './differ.js';
+import type { Thumbnail } from './thumbnails.js';
+import type { FilePriority } from './rate-budget.js';
 
 export interface Snapshot {
     fileKey: string;
@@ -11,9 +14,193 @@ export interface Snapshot {
     fileName: string;
     toonData: string;
     filteredJson: string;
+    tokensJson?: string;
     createdAt: string;
 }
 
+export type SnapshotInfo = Pick<Snapshot, 'fileKey' | 'version' | 'fileName' | 'createdAt'>;
+
+export interface RetentionPolicy {
+    keepCount?: number;     // Max snapshots per file (undefined = unlimited)
+    maxAgeDays?: number;    // Drop snapshots older than this (undefined = forever)
+}
+
+export interface TrackedFile {
+    fileKey: string;
+    fileName?: string;
+    lastVersion?: string;
+    lastCheckedAt?: string;
+    active: boolean;
+    /** Per-file notification destination (overridden by the routing rules file) */
+    channelWebhook?: string;
+    /** End of the period covered by the last digest */
+    lastDigestAt?: string;
+    /** Order in the poll and how patiently it waits for the Figma API budget */
+    priority: FilePriority;
+    /** Connected Figma account (user ID) the file is fetched as */
+    account?: string;
+    /** Watched project the file was discovered in; discovery stops tracking it once it's gone */
+    projectId?: string;
+}
+
+export interface ChangeSet {
+    id: number;
+    fileKey: string;
+    fileName: string;
+    fromVersion: string;
+    toVersion: string;
+    author?: string;
+    changelog?: string;
+    createdAt: string;
+    changeCount: number;
+}
+
+export interface NewChangeSet {
+    fileKey: string;
+    fileName: string;
+    fromVersion: string;
+    toVersion: string;
+    author?: string;
+    changelog?: string;
+    changes: DesignChange[];
+    thumbnails?: Thumbnail[];
+    /** Defaults to now; backfilled history uses the version's own date */
+    createdAt?: Date;
+}
+
+export interface StoredChange extends DesignChange {
+    id: number;
+    changeSetId: number;
+    fileKey: string;
+    author?: string;
+    createdAt: string;
+}
+
+export interface PageHash {
+    pageId: string;
+    /** Hash of the page outline (top-level frames) */
+    hash: string;
+    /** Version the page's full content was last downloaded at */
+    version: string;
+    checkedAt: string;
+}
+
+export interface RateBucket {
+    tokens: number;
+    /** Epoch milliseconds */
+    updatedAt: number;
+    /** Set after a 429: no requests in this tier until then (epoch ms) */
+    blockedUntil: number;
+}
+
+export interface OAuthAccount {
+    /** Figma user ID */
+    userId: string;
+    handle: string;
+    email?: string;
+    accessToken: string;
+    refreshToken: string;
+    /** Access token expiry (epoch ms) */
+    expiresAt: number;
+    connectedAt: string;
+}
+
+export interface ChangeQuery {
+    fileKey?: string;
+    changeSetId?: number;
+    page?: string;
+    nodeId?: string;
+    author?: string;
+    since?: Date;
+    /** Exclusive, so back-to-back windows sharing a bound don't both see a change */
+    until?: Date;
+    limit?: number;
+}
+
+const SNAPSHOT_COLUMNS = `
+        file_key as fileKey, version, file_name as fileName,
+        toon_data as toonData, filtered_json as filteredJson,
+        tokens_json as tokensJson, created_at as createdAt`;
+
+// SQLite datetime('now') format: "YYYY-MM-DD HH:MM:SS" (UTC)
+function toSqliteDate(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function fromSqliteDate(value: string): Date {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+const TRACKED_FILE_COLUMNS = `
+        file_key as fileKey, file_name as fileName,
+        last_version as lastVersion, last_checked_at as lastCheckedAt, active,
+        channel_webhook as channelWebhook, last_digest_at as lastDigestAt, priority, account,
+        project_id as projectId`;
+
+interface TrackedFileRow {
+    fileKey: string;
+    fileName: string | null;
+    lastVersion: string | null;
+    lastCheckedAt: string | null;
+    active: number;
+    channelWebhook: string | null;
+    lastDigestAt: string | null;
+    priority: FilePriority;
+    account: string | null;
+    projectId: string | null;
+}
+
+function toTrackedFile(row: TrackedFileRow): TrackedFile {
+    return {
+        fileKey: row.fileKey,
+        fileName: row.fileName ?? undefined,
+        lastVersion: row.lastVersion ?? undefined,
+        lastCheckedAt: row.lastCheckedAt ?? undefined,
+        active: row.active === 1,
+        channelWebhook: row.channelWebhook ?? undefined,
+        lastDigestAt: row.lastDigestAt ?? undefined,
+        priority: row.priority,
+        account: row.account ?? undefined,
+        projectId: row.projectId ?? undefined,
+    };
+}
+
+const OAUTH_ACCOUNT_COLUMNS = `
+        user_id as userId, handle, email, access_token as accessToken,
+        refresh_token as refreshToken, expires_at as expiresAt, connected_at as connectedAt`;
+
+type OAuthAccountRow = Omit<OAuthAccount, 'email'> & { email: string | null };
+
+function toOAuthAccount(row: OAuthAccountRow): OAuthAccount {
+    return { ...row, email: row.email ?? undefined };
+}
+
+const CHANGE_SET_COLUMNS = `
+        cs.id, cs.file_key as fileKey, cs.file_name as fileName,
+        cs.from_version as fromVersion, cs.to_version as toVersion,
+        cs.author, cs.changelog, cs.created_at as createdAt,
+        (SELECT COUNT(*) FROM changes c WHERE c.change_set_id = cs.id) as changeCount`;
+
+type ChangeSetRow = Omit<ChangeSet, 'author' | 'changelog'> & { author: string | null; changelog: string | null };
+
+function toChangeSet(row: ChangeSetRow): ChangeSet {
+    return { ...row, author: row.author ?? undefined, changelog: row.changelog ?? undefined };
+}
+
+function toStoredChange(row: Record<string, any>): StoredChange {
+    const parse = (value: string | null) => value === null ? undefined : JSON.parse(value);
+    const change: StoredChange = {
+        id: row.id, changeSetId: row.changeSetId, fileKey: row.fileKey,
+        kind: row.kind, page: row.page, pageId: row.pageId, nodeId: row.nodeId,
+        path: row.path, property: row.property,
+        oldValue: parse(row.oldValue), newValue: parse(row.newValue),
+        summary: row.summary, createdAt: row.createdAt,
+    };
+    if (row.component) change.component = parse(row.component);
+    if (row.author) change.author = row.author;
+    return change;
+}
+
 export class Store {
     private db: Database.Database;
 
@@ -43,34 +230,301 @@ export class Store {
         channel_webhook TEXT
       );
 
+      CREATE TABLE IF NOT EXISTS change_sets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_key TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        from_version TEXT NOT NULL,
+        to_version TEXT NOT NULL,
+        author TEXT,
+        changelog TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(file_key, from_version, to_version)
+      );
+
+      CREATE TABLE IF NOT EXISTS changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        change_set_id INTEGER NOT NULL REFERENCES change_sets(id) ON DELETE CASCADE,
+        file_key TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        page TEXT NOT NULL,
+        page_id TEXT NOT NULL,
+        node_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        property TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        summary TEXT NOT NULL,
+        component TEXT,
+        author TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS thumbnails (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        change_set_id INTEGER NOT NULL REFERENCES change_sets(id) ON DELETE CASCADE,
+        node_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        page TEXT NOT NULL,
+        page_id TEXT NOT NULL,
+        before_path TEXT,
+        before_url TEXT,
+        after_path TEXT,
+        after_url TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS page_hashes (
+        file_key TEXT NOT NULL,
+        page_id TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        version TEXT NOT NULL,
+        checked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (file_key, page_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS rate_buckets (
+        tier INTEGER PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        blocked_until INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS oauth_accounts (
+        user_id TEXT PRIMARY KEY,
+        handle TEXT NOT NULL,
+        email TEXT,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        connected_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
       CREATE INDEX IF NOT EXISTS idx_snapshots_file_key ON snapshots(file_key);
       CREATE INDEX IF NOT EXISTS idx_snapshots_created ON snapshots(created_at);
+      CREATE INDEX IF NOT EXISTS idx_change_sets_file_key ON change_sets(file_key, created_at);
+      CREATE INDEX IF NOT EXISTS idx_changes_file_key ON changes(file_key, created_at);
+      CREATE INDEX IF NOT EXISTS idx_changes_node ON changes(node_id);
+      CREATE INDEX IF NOT EXISTS idx_changes_set ON changes(change_set_id);
+      CREATE INDEX IF NOT EXISTS idx_thumbnails_set ON thumbnails(change_set_id);
     `);
+        this.db.pragma('foreign_keys = ON');
+
+        this.addColumn('snapshots', 'tokens_json', 'TEXT');
+        this.addColumn('tracked_files', 'active', 'INTEGER NOT NULL DEFAULT 1');
+        this.addColumn('tracked_files', 'last_digest_at', 'TEXT');
+        this.addColumn('thumbnails', 'diff_path', 'TEXT');
+        this.addColumn('thumbnails', 'diff_percent', 'REAL');
+        this.addColumn('tracked_files', 'priority', "TEXT NOT NULL DEFAULT 'normal'");
+        this.addColumn('tracked_files', 'account', 'TEXT');
+        this.addColumn('tracked_files', 'project_id', 'TEXT');
+        this.addColumn('snapshots', 'backfilled', 'INTEGER NOT NULL DEFAULT 0');
+    }
+
+    // Lightweight migration for databases created before a column existed
+    private addColumn(table: string, column: string, definition: string): void {
+        const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (!columns.some(c => c.name === column)) {
+            this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
     }
 
     // ─── Snapshots ───
 
-    saveSnapshot(fileKey: string, version: string, fileName: string, toonData: string, filteredJson: string): void {
+    /**
+     * @param backfilled Replayed from the version history — exempt from retention
+     */
+    saveSnapshot(
+        fileKey: string, version: string, fileName: string,
+        toonData: string, filteredJson: string, tokensJson?: string, createdAt?: Date, backfilled: boolean = false
+    ): void {
         this.db.prepare(`
-      INSERT OR REPLACE INTO snapshots (file_key, version, file_name, toon_data, filtered_json)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(fileKey, version, fileName, toonData, filteredJson);
+      INSERT OR REPLACE INTO snapshots (file_key, version, file_name, toon_data, filtered_json, tokens_json, created_at, backfilled)
+      VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')), ?)
+    `).run(fileKey, version, fileName, toonData, filteredJson, tokensJson ?? null, createdAt ? toSqliteDate(createdAt) : null, backfilled ? 1 : 0);
     }
 
     getLatestSnapshot(fileKey: string): Snapshot | undefined {
         const row = this.db.prepare(`
-      SELECT file_key as fileKey, version, file_name as fileName,
-             toon_data as toonData, filtered_json as filteredJson,
-             created_at as createdAt
+      SELECT ${SNAPSHOT_COLUMNS}
       FROM snapshots
       WHERE file_key = ?
-      ORDER BY created_at DESC
+      ORDER BY created_at DESC, id DESC
       LIMIT 1
     `).get(fileKey) as Snapshot | undefined;
 
         return row;
     }
 
+    getSnapshot(fileKey: string, version: string): Snapshot | undefined {
+        return this.db.prepare(`
+      SELECT ${SNAPSHOT_COLUMNS}
+      FROM snapshots
+      WHERE file_key = ? AND version = ?
+    `).get(fileKey, version) as Snapshot | undefined;
+    }
+
+    /**
+     * Latest snapshot taken at or before a point in time ("as of last sprint's release")
+     */
+    getSnapshotAt(fileKey: string, date: Date): Snapshot | undefined {
+        return this.db.prepare(`
+      SELECT ${SNAPSHOT_COLUMNS}
+      FROM snapshots
+      WHERE file_key = ? AND created_at <= ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `).get(fileKey, toSqliteDate(date)) as Snapshot | undefined;
+    }
+
+    /**
+     * Version timeline for a file, newest first (without the heavy snapshot payloads)
+     */
+    listSnapshots(fileKey: string): SnapshotInfo[] {
+        return this.db.prepare(`
+      SELECT file_key as fileKey, version, file_name as fileName, created_at as createdAt
+      FROM snapshots
+      WHERE file_key = ?
+      ORDER BY created_at DESC, id DESC
+    `).all(fileKey) as SnapshotInfo[];
+    }
+
+    /**
+     * Diff any two stored versions of a file
+     */
+    diffVersions(fileKey: string, fromVersion: string, toVersion: string): DesignChange[] {
+        const from = this.getSnapshot(fileKey, fromVersion);
+        const to = this.getSnapshot(fileKey, toVersion);
+        if (!from) throw new Error(`Snapshot not found: ${fileKey} @ ${fromVersion}`);
+        if (!to) throw new Error(`Snapshot not found: ${fileKey} @ ${toVersion}`);
+
+        return diffSnapshots(JSON.parse(from.filteredJson), JSON.parse(to.filteredJson));
+    }
+
+    // ─── Change History ───
+
+    /**
+     * Persist one diff result (all changes between two versions) atomically
+     */
+    saveChangeSet(set: NewChangeSet): number {
+        const deleteExisting = this.db.prepare(`
+      DELETE FROM change_sets WHERE file_key = ? AND from_version = ? AND to_version = ?
+    `);
+        const insertSet = this.db.prepare(`
+      INSERT INTO change_sets (file_key, file_name, from_version, to_version, author, changelog, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+    `);
+        const insertChange = this.db.prepare(`
+      INSERT INTO changes (change_set_id, file_key, kind, page, page_id, node_id, path, property,
+                           old_value, new_value, summary, component, author, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+    `);
+        const insertThumbnail = this.db.prepare(`
+      INSERT INTO thumbnails (change_set_id, node_id, name, page, page_id, before_path, before_url, after_path, after_url,
+                              diff_path, diff_percent)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+        const json = (value: unknown) => value === undefined ? null : JSON.stringify(value);
+        const createdAt = set.createdAt ? toSqliteDate(set.createdAt) : null;
+
+        return this.db.transaction(() => {
+            // Re-processing the same version pair replaces its changes (cascade)
+            deleteExisting.run(set.fileKey, set.fromVersion, set.toVersion);
+            const { lastInsertRowid } = insertSet.run(
+                set.fileKey, set.fileName, set.fromVersion, set.toVersion, set.author ?? null, set.changelog ?? null, createdAt
+            );
+            const changeSetId = Number(lastInsertRowid);
+            for (const c of set.changes) {
+                insertChange.run(
+                    changeSetId, set.fileKey, c.kind, c.page, c.pageId, c.nodeId, c.path, c.property,
+                    json(c.oldValue), json(c.newValue), c.summary, json(c.component), c.author ?? set.author ?? null, createdAt
+                );
+            }
+            for (const t of set.thumbnails || []) {
+                insertThumbnail.run(
+                    changeSetId, t.nodeId, t.name, t.page, t.pageId,
+                    t.before?.path ?? null, t.before?.url ?? null, t.after?.path ?? null, t.after?.url ?? null,
+                    t.diff?.path ?? null, t.diff?.percentChanged ?? null
+                );
+            }
+            return changeSetId;
+        })();
+    }
+
+    /**
+     * Before/after renders stored with a change set
+     */
+    listThumbnails(changeSetId: number): Thumbnail[] {
+        const rows = this.db.prepare(`
+      SELECT node_id as nodeId, name, page, page_id as pageId,
+             before_path as beforePath, before_url as beforeUrl, after_path as afterPath, after_url as afterUrl,
+             diff_path as diffPath, diff_percent as diffPercent
+      FROM thumbnails
+      WHERE change_set_id = ?
+      ORDER BY id ASC
+    `).all(changeSetId) as Record<string, any>[];
+
+        return rows.map(row => {
+            const thumbnail: Thumbnail = { nodeId: row.nodeId, name: row.name, page: row.page, pageId: row.pageId };
+            if (row.beforePath) thumbnail.before = { path: row.beforePath, url: row.beforeUrl ?? '' };
+            if (row.afterPath) thumbnail.after = { path: row.afterPath, url: row.afterUrl ?? '' };
+            if (row.diffPath) thumbnail.diff = { path: row.diffPath, percentChanged: row.diffPercent };
+            return thumbnail;
+        });
+    }
+
+    getChangeSet(id: number): ChangeSet | undefined {
+        const row = this.db.prepare(`
+      SELECT ${CHANGE_SET_COLUMNS}
+      FROM change_sets cs
+      WHERE cs.id = ?
+    `).get(id) as ChangeSetRow | undefined;
+        return row && toChangeSet(row);
+    }
+
+    listChangeSets(fileKey: string, limit: number = 50): ChangeSet[] {
+        const rows = this.db.prepare(`
+      SELECT ${CHANGE_SET_COLUMNS}
+      FROM change_sets cs
+      WHERE cs.file_key = ?
+      ORDER BY cs.created_at DESC, cs.id DESC
+      LIMIT ?
+    `).all(fileKey, limit) as ChangeSetRow[];
+        return rows.map(toChangeSet);
+    }
+
+    /**
+     * Query stored changes; every filter is optional and they combine with AND
+     */
+    queryChanges(query: ChangeQuery = {}): StoredChange[] {
+        const where: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.fileKey) { where.push('file_key = ?'); params.push(query.fileKey); }
+        if (query.changeSetId) { where.push('change_set_id = ?'); params.push(query.changeSetId); }
+        if (query.page) { where.push('page = ?'); params.push(query.page); }
+        if (query.nodeId) { where.push('node_id = ?'); params.push(query.nodeId); }
+        if (query.author) { where.push('author = ?'); params.push(query.author); }
+        if (query.since) { where.push('created_at >= ?'); params.push(toSqliteDate(query.since)); }
+        if (query.until) { where.push('created_at < ?'); params.push(toSqliteDate(query.until)); }
+
+        const rows = this.db.prepare(`
+      SELECT id, change_set_id as changeSetId, file_key as fileKey, kind, page, page_id as pageId,
+             node_id as nodeId, path, property, old_value as oldValue, new_value as newValue,
+             summary, component, author, created_at as createdAt
+      FROM changes
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY created_at ASC, id ASC
+      ${query.limit ? 'LIMIT ?' : ''}
+    `).all(...params, ...(query.limit ? [query.limit] : [])) as Record<string, any>[];
+
+        return rows.map(toStoredChange);
+    }
+
     // ─── Tracked Files ───
 
     getLastVersion(fileKey: string): string | undefined {
@@ -80,6 +534,120 @@ export class Store {
         return row?.last_version;
     }
 
+    /**
+     * Tracked files, active ones only unless asked otherwise.
+     * This table — not FIGMA_FILE_KEYS — is the source of truth for what gets processed.
+     */
+    listTrackedFiles(includeInactive: boolean = false): TrackedFile[] {
+        const rows = this.db.prepare(`
+      SELECT ${TRACKED_FILE_COLUMNS}
+      FROM tracked_files
+      ${includeInactive ? '' : 'WHERE active = 1'}
+      ORDER BY file_name COLLATE NOCASE, file_key
+    `).all() as TrackedFileRow[];
+        return rows.map(toTrackedFile);
+    }
+
+    getTrackedFile(fileKey: string): TrackedFile | undefined {
+        const row = this.db.prepare(`
+      SELECT ${TRACKED_FILE_COLUMNS}
+      FROM tracked_files
+      WHERE file_key = ?
+    `).get(fileKey) as TrackedFileRow | undefined;
+        return row && toTrackedFile(row);
+    }
+
+    getTrackedFileKeys(): string[] {
+        return this.listTrackedFiles().map(f => f.fileKey);
+    }
+
+    isTracked(fileKey: string): boolean {
+        return this.getTrackedFile(fileKey)?.active ?? false;
+    }
+
+    /**
+     * Seed from config. Existing rows are left alone, so files removed
+     * at runtime don't come back on restart.
+     */
+    seedTrackedFiles(fileKeys: string[]): void {
+        const insert = this.db.prepare('INSERT OR IGNORE INTO tracked_files (file_key) VALUES (?)');
+        this.db.transaction(() => {
+            for (const fileKey of fileKeys) insert.run(fileKey);
+        })();
+    }
+
+    trackFile(fileKey: string, channelWebhook?: string): void {
+        this.db.prepare(`
+      INSERT INTO tracked_files (file_key, active, channel_webhook) VALUES (?, 1, ?)
+      ON CONFLICT(file_key) DO UPDATE SET active = 1, channel_webhook = COALESCE(excluded.channel_webhook, channel_webhook)
+    `).run(fileKey, channelWebhook ?? null);
+    }
+
+    markDigested(fileKey: string, until: Date): void {
+        this.db.prepare(
+            'UPDATE tracked_files SET last_digest_at = ? WHERE file_key = ?'
+        ).run(toSqliteDate(until), fileKey);
+    }
+
+    /**
+     * Set (or clear with undefined) the file's own notification webhook
+     */
+    setChannelWebhook(fileKey: string, channelWebhook?: string): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET channel_webhook = ? WHERE file_key = ?'
+        ).run(channelWebhook ?? null, fileKey);
+        return result.changes > 0;
+    }
+
+    setPriority(fileKey: string, priority: FilePriority): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET priority = ? WHERE file_key = ?'
+        ).run(priority, fileKey);
+        return result.changes > 0;
+    }
+
+    /**
+     * Fetch the file as a connected account (or, with undefined, the default credentials)
+     */
+    setAccount(fileKey: string, account?: string): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET account = ? WHERE file_key = ?'
+        ).run(account ?? null, fileKey);
+        return result.changes > 0;
+    }
+
+    /**
+     * Record the watched project a file was discovered in
+     */
+    setProject(fileKey: string, projectId?: string): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET project_id = ? WHERE file_key = ?'
+        ).run(projectId ?? null, fileKey);
+        return result.changes > 0;
+    }
+
+    /**
+     * Stop tracking a file; its snapshots and change history are kept.
+     * Project discovery won't bring it back.
+     */
+    untrackFile(fileKey: string): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET active = 0, project_id = NULL WHERE file_key = ? AND active = 1'
+        ).run(fileKey);
+        return result.changes > 0;
+    }
+
+    /**
+     * Stop tracking a discovered file that left its project (deleted, archived or moved).
+     * Unlike untrackFile, discovery picks it up again if it comes back.
+     */
+    untrackDiscoveredFile(fileKey: string): boolean {
+        const result = this.db.prepare(
+            'UPDATE tracked_files SET active = 0 WHERE file_key = ? AND active = 1 AND project_id IS NOT NULL'
+        ).run(fileKey);
+        return result.changes > 0;
+    }
+
     updateTrackedFile(fileKey: string, fileName: string, version: string): void {
         this.db.prepare(`
       INSERT INTO tracked_files (file_key, file_name, last_version, last_checked_at)
@@ -89,16 +657,154 @@ export class Store {
     `).run(fileKey, fileName, version, fileName, version);
     }
 
-    // ─── Cleanup ───
+    // ─── Page Hashes (partial fetch) ───
+
+    /**
+     * Stored page hashes, least recently verified first
+     */
+    getPageHashes(fileKey: string): PageHash[] {
+        return this.db.prepare(`
+      SELECT page_id as pageId, hash, version, checked_at as checkedAt
+      FROM page_hashes
+      WHERE file_key = ?
+      ORDER BY checked_at ASC, rowid ASC
+    `).all(fileKey) as PageHash[];
+    }
 
-    cleanOldSnapshots(fileKey: string, keepCount: number = 10): void {
+    /**
+     * Record the pages downloaded at `version` and forget pages that no longer exist
+     */
+    savePageHashes(fileKey: string, version: string, pages: Pick<PageHash, 'pageId' | 'hash'>[], currentPageIds: string[]): void {
+        const upsert = this.db.prepare(`
+      INSERT INTO page_hashes (file_key, page_id, hash, version, checked_at)
+      VALUES (?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(file_key, page_id)
+      DO UPDATE SET hash = excluded.hash, version = excluded.version, checked_at = excluded.checked_at
+    `);
+        const current = new Set(currentPageIds);
+        const remove = this.db.prepare('DELETE FROM page_hashes WHERE file_key = ? AND page_id = ?');
+
+        this.db.transaction(() => {
+            for (const page of pages) upsert.run(fileKey, page.pageId, page.hash, version);
+            for (const { pageId } of this.getPageHashes(fileKey)) {
+                if (!current.has(pageId)) remove.run(fileKey, pageId);
+            }
+        })();
+    }
+
+    // ─── Rate Budget ───
+
+    /**
+     * Read-modify-write one API tier's token bucket under a write lock,
+     * so the poller, webhook server and CLIs sharing the database don't overspend
+     */
+    updateRateBucket(tier: number, update: (bucket: RateBucket | undefined) => RateBucket): RateBucket {
+        const select = this.db.prepare(`
+      SELECT tokens, updated_at as updatedAt, blocked_until as blockedUntil FROM rate_buckets WHERE tier = ?
+    `);
+        const upsert = this.db.prepare(`
+      INSERT INTO rate_buckets (tier, tokens, updated_at, blocked_until) VALUES (?, ?, ?, ?)
+      ON CONFLICT(tier) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at, blocked_until = excluded.blocked_until
+    `);
+
+        return this.db.transaction(() => {
+            const bucket = update(select.get(tier) as RateBucket | undefined);
+            upsert.run(tier, bucket.tokens, bucket.updatedAt, bucket.blockedUntil);
+            return bucket;
+        }).immediate();
+    }
+
+    getSetting(key: string): string | undefined {
+        const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+        return row?.value;
+    }
+
+    setSetting(key: string, value: string): void {
         this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(key, value);
+    }
+
+    // ─── OAuth Accounts ───
+
+    /**
+     * Connected accounts, most recently connected first
+     */
+    listOAuthAccounts(): OAuthAccount[] {
+        const rows = this.db.prepare(`
+      SELECT ${OAUTH_ACCOUNT_COLUMNS}
+      FROM oauth_accounts
+      ORDER BY connected_at DESC, rowid DESC
+    `).all() as OAuthAccountRow[];
+        return rows.map(toOAuthAccount);
+    }
+
+    getOAuthAccount(userId: string): OAuthAccount | undefined {
+        const row = this.db.prepare(`
+      SELECT ${OAUTH_ACCOUNT_COLUMNS}
+      FROM oauth_accounts
+      WHERE user_id = ?
+    `).get(userId) as OAuthAccountRow | undefined;
+        return row && toOAuthAccount(row);
+    }
+
+    /**
+     * Add an account, or replace the tokens of one that reconnected
+     */
+    saveOAuthAccount(account: Omit<OAuthAccount, 'connectedAt'>): void {
+        this.db.prepare(`
+      INSERT INTO oauth_accounts (user_id, handle, email, access_token, refresh_token, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        handle = excluded.handle, email = excluded.email, access_token = excluded.access_token,
+        refresh_token = excluded.refresh_token, expires_at = excluded.expires_at, connected_at = datetime('now')
+    `).run(account.userId, account.handle, account.email ?? null, account.accessToken, account.refreshToken, account.expiresAt);
+    }
+
+    updateOAuthTokens(userId: string, accessToken: string, refreshToken: string, expiresAt: number): void {
+        this.db.prepare(
+            'UPDATE oauth_accounts SET access_token = ?, refresh_token = ?, expires_at = ? WHERE user_id = ?'
+        ).run(accessToken, refreshToken, expiresAt, userId);
+    }
+
+    /**
+     * Forget an account; files fetched as it go back to the default credentials
+     */
+    removeOAuthAccount(userId: string): boolean {
+        return this.db.transaction(() => {
+            this.db.prepare('UPDATE tracked_files SET account = NULL WHERE account = ?').run(userId);
+            return this.db.prepare('DELETE FROM oauth_accounts WHERE user_id = ?').run(userId).changes > 0;
+        })();
+    }
+
+    // ─── Cleanup ───
+
+    /**
+     * Apply the retention policy. The newest snapshot is always kept since
+     * it is the baseline for the next diff. Backfilled snapshots were asked for
+     * explicitly and don't count toward it.
+     */
+    cleanOldSnapshots(fileKey: string, retention: RetentionPolicy = { keepCount: 10 }): void {
+        if (retention.keepCount !== undefined) {
+            this.db.prepare(`
+      DELETE FROM snapshots
+      WHERE file_key = ? AND backfilled = 0 AND id NOT IN (
+        SELECT id FROM snapshots WHERE file_key = ? AND backfilled = 0
+        ORDER BY created_at DESC, id DESC LIMIT ?
+      )
+    `).run(fileKey, fileKey, Math.max(1, retention.keepCount));
+        }
+
+        if (retention.maxAgeDays !== undefined) {
+            this.db.prepare(`
       DELETE FROM snapshots
-      WHERE file_key = ? AND id NOT IN (
+      WHERE file_key = ? AND backfilled = 0 AND created_at < datetime('now', ?) AND id NOT IN (
         SELECT id FROM snapshots WHERE file_key = ?
-        ORDER BY created_at DESC LIMIT ?
+        ORDER BY created_at DESC, id DESC LIMIT 1
       )
-    `).run(fileKey, fileKey, keepCount);
+    `).run(fileKey, `-${retention.maxAgeDays} days`, fileKey);
+        }
     }
 
     close(): void {
@@ -0,0 +1,170 @@
+/**
+ * Before/After Thumbnails
+ * Renders the top-level frames that contain changes, once at the previous
+ * version and once at the current one, and keeps the PNGs on disk. Frames
+ * present in both versions also get a pixel diff overlay and score.
+ *
+ *   <dir>/<fileKey>/<version>/<frameId>.png
+ *   <dir>/<fileKey>/<toVersion>/<frameId>.diff.png
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { compareImages } from './image-diff.js';
+import type { FigmaClient } from './figma-client.js';
+import type { FilteredFile } from './toon-converter.js';
+import type { DesignChange } from './differ.js';
+
+export interface ThumbnailOptions {
+    /** Where rendered PNGs are written (default: ./thumbnails) */
+    dir?: string;
+    /** Frames rendered per change set (default: 5) */
+    maxFrames?: number;
+    scale?: number;
+}
+
+export interface ThumbnailImage {
+    /** Local file */
+    path: string;
+    /** Figma's pre-signed render URL — public, but expires after ~30 days */
+    url: string;
+}
+
+export interface ThumbnailDiff {
+    /** Local overlay PNG with changed pixels highlighted */
+    path: string;
+    percentChanged: number;
+}
+
+export interface Thumbnail {
+    /** Top-level frame on the page */
+    nodeId: string;
+    name: string;
+    page: string;
+    pageId: string;
+    /** Missing when the frame didn't exist in that version */
+    before?: ThumbnailImage;
+    after?: ThumbnailImage;
+    /** Only when the frame exists in both versions */
+    diff?: ThumbnailDiff;
+}
+
+export type ChangedFrame = Pick<Thumbnail, 'nodeId' | 'name' | 'page' | 'pageId'>;
+
+// ─── Frame lookup ───
+
+function indexFrames(file: FilteredFile, frames: Map<string, ChangedFrame>): void {
+    const walk = (node: Record<string, any>, frame: ChangedFrame) => {
+        if (!frames.has(node.id)) frames.set(node.id, frame);
+        for (const child of node.children || []) walk(child, frame);
+    };
+    for (const page of file.pages) {
+        for (const top of page.children) {
+            walk(top, { nodeId: top.id, name: top.name || top.id, page: page.name, pageId: page.id });
+        }
+    }
+}
+
+/**
+ * Every node → the top-level node (direct child of its page) that contains it.
+ * The current version wins, so moved nodes resolve to their new frame.
+ */
+export function frameIndex(prev: FilteredFile, next: FilteredFile): Map<string, ChangedFrame> {
+    const frames = new Map<string, ChangedFrame>();
+    indexFrames(next, frames);
+    indexFrames(prev, frames);
+    return frames;
+}
+
+/**
+ * Frames that contain at least one change, most-changed first
+ */
+export function changedFrames(changes: DesignChange[], frames: Map<string, ChangedFrame>, max: number = 5): ChangedFrame[] {
+    const counts = new Map<string, { frame: ChangedFrame; count: number }>();
+    for (const change of changes) {
+        const frame = frames.get(change.nodeId);
+        if (!frame) continue;
+        const entry = counts.get(frame.nodeId) || { frame, count: 0 };
+        entry.count++;
+        counts.set(frame.nodeId, entry);
+    }
+
+    return [...counts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, max)
+        .map(e => e.frame);
+}
+
+function fileSafe(nodeId: string): string {
+    return nodeId.replace(/[^\w-]/g, '_');
+}
+
+// ─── Renderer ───
+
+export class ThumbnailRenderer {
+    private figma: FigmaClient;
+    private options: ThumbnailOptions;
+
+    constructor(figma: FigmaClient, options: ThumbnailOptions = {}) {
+        this.figma = figma;
+        this.options = options;
+    }
+
+    get maxFrames(): number {
+        return this.options.maxFrames ?? 5;
+    }
+
+    /**
+     * Render the frames at both versions and save them locally
+     */
+    async render(fileKey: string, frames: ChangedFrame[], fromVersion: string, toVersion: string): Promise<Thumbnail[]> {
+        if (frames.length === 0) return [];
+
+        const [before, after] = await Promise.all([
+            this.renderVersion(fileKey, frames, fromVersion),
+            this.renderVersion(fileKey, frames, toVersion),
+        ]);
+
+        return frames
+            .map(frame => {
+                const thumbnail: Thumbnail = { ...frame, before: before.get(frame.nodeId), after: after.get(frame.nodeId) };
+                if (thumbnail.before && thumbnail.after) {
+                    thumbnail.diff = this.diff(thumbnail.before, thumbnail.after, thumbnail.after.path.replace(/\.png$/, '.diff.png'));
+                }
+                return thumbnail;
+            })
+            .filter(t => t.before || t.after);
+    }
+
+    private diff(before: ThumbnailImage, after: ThumbnailImage, path: string): ThumbnailDiff | undefined {
+        try {
+            const result = compareImages(readFileSync(before.path), readFileSync(after.path));
+            writeFileSync(path, result.overlay);
+            return { path, percentChanged: result.percentChanged };
+        } catch (err) {
+            // Not a PNG (e.g. a render error page) — keep the images, skip the score
+            console.warn(`   ⚠️ Piksel farkı hesaplanamadı (${path}): ${(err as Error).message}`);
+            return undefined;
+        }
+    }
+
+    private async renderVersion(fileKey: string, frames: ChangedFrame[], version: string): Promise<Map<string, ThumbnailImage>> {
+        const urls = await this.figma.getImages(fileKey, frames.map(f => f.nodeId), {
+            version,
+            format: 'png',
+            scale: this.options.scale ?? 1,
+        });
+
+        const dir = `${this.options.dir || './thumbnails'}/${fileKey}/${fileSafe(version)}`;
+        mkdirSync(dir, { recursive: true });
+
+        const images = new Map<string, ThumbnailImage>();
+        for (const frame of frames) {
+            const url = urls[frame.nodeId];
+            if (!url) continue;
+            const path = `${dir}/${fileSafe(frame.nodeId)}.png`;
+            writeFileSync(path, await this.figma.downloadImage(url));
+            images.set(frame.nodeId, { path, url });
+        }
+        return images;
+    }
+}
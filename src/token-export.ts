@@ -0,0 +1,145 @@
+/**
+ * Design Token Export
+ * TokenSet → W3C Design Tokens (Style Dictionary compatible) + JSON Patch between versions
+ */
+
+import { createHash } from 'crypto';
+import type { DesignToken, TokenCategory, TokenSet, TypographyValue } from './tokens.js';
+
+export interface W3CToken {
+    $type: string;
+    $value: string | number | Record<string, string | number>;
+    $extensions?: Record<string, any>;
+}
+
+export type W3CTokenDocument = Record<string, Record<string, W3CToken>>;
+
+export interface JsonPatchOperation {
+    op: 'add' | 'remove' | 'replace';
+    path: string;
+    value?: any;
+}
+
+const GROUP_NAMES: Record<TokenCategory, string> = {
+    color: 'color',
+    typography: 'typography',
+    spacing: 'spacing',
+    radius: 'radius',
+};
+
+// ─── Token naming ───
+// Figma snapshots carry no token names, so names are derived from values
+// and stay stable as long as the value does. Slugs can collide ("Noto Sans" and
+// "Noto-Sans", colors differing only in case): the token whose key sorts later then
+// gets a suffix hashed from its key.
+
+function slug(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function tokenName(token: DesignToken): string {
+    if (token.category === 'typography') {
+        const t = token.value as TypographyValue;
+        return slug([t.fontFamily, t.fontSize, t.fontWeight, t.lineHeight].filter(v => v !== undefined).join('-'));
+    }
+    return slug(String(token.value));
+}
+
+function keySuffix(token: DesignToken): string {
+    return createHash('sha1').update(token.key).digest('hex').slice(0, 6);
+}
+
+function px(value: number): string {
+    return `${value}px`;
+}
+
+function toW3CToken(token: DesignToken): W3CToken {
+    const extensions = { 'com.designradar': { usage: token.nodeIds.length } };
+
+    switch (token.category) {
+        case 'color':
+            return { $type: 'color', $value: token.value as string, $extensions: extensions };
+        case 'typography': {
+            const t = token.value as TypographyValue;
+            const value: Record<string, string | number> = {};
+            if (t.fontFamily !== undefined) value.fontFamily = t.fontFamily;
+            if (t.fontSize !== undefined) value.fontSize = px(t.fontSize);
+            if (t.fontWeight !== undefined) value.fontWeight = t.fontWeight;
+            // W3C wants a unitless multiplier of the font size here, not a dimension
+            if (t.lineHeight !== undefined && t.fontSize) value.lineHeight = Math.round(t.lineHeight / t.fontSize * 1000) / 1000;
+            return { $type: 'typography', $value: value, $extensions: extensions };
+        }
+        case 'spacing':
+        case 'radius':
+            return { $type: 'dimension', $value: px(token.value as number), $extensions: extensions };
+    }
+}
+
+// ─── W3C document ───
+
+export function toW3CTokens(tokens: TokenSet): W3CTokenDocument {
+    const doc: W3CTokenDocument = {};
+
+    for (const category of Object.keys(GROUP_NAMES) as TokenCategory[]) {
+        const group: Record<string, W3CToken> = {};
+        const sorted = Object.values(tokens[category] || {}).sort((a, b) => a.key.localeCompare(b.key, 'en', { numeric: true }));
+        for (const token of sorted) {
+            const name = tokenName(token);
+            group[name in group ? `${name}-${keySuffix(token)}` : name] = toW3CToken(token);
+        }
+        if (Object.keys(group).length > 0) doc[GROUP_NAMES[category]] = group;
+    }
+
+    return doc;
+}
+
+// ─── JSON Patch (RFC 6902) ───
+
+function escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function jsonPatch(from: any, to: any, path: string = ''): JsonPatchOperation[] {
+    if (isPlainObject(from) && isPlainObject(to)) {
+        const ops: JsonPatchOperation[] = [];
+        for (const key of Object.keys(from)) {
+            const childPath = `${path}/${escapePointer(key)}`;
+            if (!(key in to)) {
+                ops.push({ op: 'remove', path: childPath });
+            } else {
+                ops.push(...jsonPatch(from[key], to[key], childPath));
+            }
+        }
+        for (const key of Object.keys(to)) {
+            if (!(key in from)) {
+                ops.push({ op: 'add', path: `${path}/${escapePointer(key)}`, value: to[key] });
+            }
+        }
+        return ops;
+    }
+
+    if (JSON.stringify(from) === JSON.stringify(to)) return [];
+    return [{ op: 'replace', path, value: to }];
+}
+
+/**
+ * Patch between two token sets. Usage counts live in $extensions and change
+ * with almost every edit, so they are left out of the patch.
+ */
+export function tokenPatch(from: TokenSet, to: TokenSet): JsonPatchOperation[] {
+    const strip = (doc: W3CTokenDocument) => {
+        const stripped: W3CTokenDocument = {};
+        for (const [group, tokens] of Object.entries(doc)) {
+            stripped[group] = {};
+            for (const [name, { $type, $value }] of Object.entries(tokens)) {
+                stripped[group][name] = { $type, $value };
+            }
+        }
+        return stripped;
+    };
+    return jsonPatch(strip(toW3CTokens(from)), strip(toW3CTokens(to)));
+}
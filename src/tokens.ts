@@ -0,0 +1,154 @@
+/**
+ * Design Token Extraction & Token-level Diffing
+ * Derives colors, typography, spacing and radii from a filtered snapshot
+ */
+
+import type { FilteredFile } from './toon-converter.js';
+
+export type TokenCategory = 'color' | 'typography' | 'spacing' | 'radius';
+
+export interface TypographyValue {
+    fontFamily?: string;
+    fontSize?: number;
+    fontWeight?: number;
+    lineHeight?: number;
+}
+
+export interface DesignToken {
+    category: TokenCategory;
+    key: string;           // Value-derived identity: "#3366E5", "Inter/16/700/24", "16"
+    value: string | number | TypographyValue;
+    nodeIds: string[];     // Nodes using this token
+}
+
+export type TokenSet = Record<TokenCategory, Record<string, DesignToken>>;
+
+export type TokenChangeKind = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export interface TokenChange {
+    kind: TokenChangeKind;
+    category: TokenCategory;
+    oldValue?: DesignToken['value'];
+    newValue?: DesignToken['value'];
+    usage: number;         // Nodes affected
+    summary: string;
+}
+
+export const TOKEN_CATEGORIES: TokenCategory[] = ['color', 'typography', 'spacing', 'radius'];
+
+const SPACING_PROPERTIES = ['itemSpacing', 'paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom'];
+
+// ─── Extraction ───
+
+function emptyTokenSet(): TokenSet {
+    return { color: {}, typography: {}, spacing: {}, radius: {} };
+}
+
+function addUsage(set: TokenSet, category: TokenCategory, key: string, value: DesignToken['value'], nodeId: string): void {
+    const token = set[category][key] || (set[category][key] = { category, key, value, nodeIds: [] });
+    if (!token.nodeIds.includes(nodeId)) token.nodeIds.push(nodeId);
+}
+
+function typographyKey(t: TypographyValue): string {
+    return [t.fontFamily ?? '-', t.fontSize ?? '-', t.fontWeight ?? '-', t.lineHeight ?? '-'].join('/');
+}
+
+function collectNode(set: TokenSet, node: Record<string, any>): void {
+    const id = node.id;
+
+    for (const fill of node.fills || []) {
+        if (fill.color) addUsage(set, 'color', fill.color, fill.color, id);
+        for (const stop of fill.stops || []) {
+            addUsage(set, 'color', stop.color, stop.color, id);
+        }
+    }
+    if (typeof node.backgroundColor === 'string') {
+        addUsage(set, 'color', node.backgroundColor, node.backgroundColor, id);
+    }
+
+    if (node.fontFamily !== undefined || node.fontSize !== undefined) {
+        const typography: TypographyValue = {};
+        if (node.fontFamily !== undefined) typography.fontFamily = node.fontFamily;
+        if (node.fontSize !== undefined) typography.fontSize = node.fontSize;
+        if (node.fontWeight !== undefined) typography.fontWeight = node.fontWeight;
+        if (node.lineHeightPx !== undefined) typography.lineHeight = Math.round(node.lineHeightPx * 100) / 100;
+        addUsage(set, 'typography', typographyKey(typography), typography, id);
+    }
+
+    for (const prop of SPACING_PROPERTIES) {
+        const val = node[prop];
+        if (typeof val === 'number' && val > 0) addUsage(set, 'spacing', String(val), val, id);
+    }
+
+    if (typeof node.cornerRadius === 'number' && node.cornerRadius > 0) {
+        addUsage(set, 'radius', String(node.cornerRadius), node.cornerRadius, id);
+    }
+
+    for (const child of node.children || []) {
+        collectNode(set, child);
+    }
+}
+
+export function extractTokens(file: FilteredFile): TokenSet {
+    const set = emptyTokenSet();
+    for (const page of file.pages) {
+        for (const node of page.children) {
+            collectNode(set, node);
+        }
+    }
+    return set;
+}
+
+// ─── Diffing ───
+
+export function formatTokenValue(value: DesignToken['value'] | undefined): string {
+    if (value === undefined) return 'none';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return `${value}px`;
+    const parts = [value.fontFamily, value.fontSize !== undefined ? `${value.fontSize}px` : undefined,
+        value.fontWeight, value.lineHeight !== undefined ? `/${value.lineHeight}px` : undefined];
+    return parts.filter(p => p !== undefined).join(' ');
+}
+
+function diffCategory(category: TokenCategory, oldTokens: Record<string, DesignToken>, newTokens: Record<string, DesignToken>): TokenChange[] {
+    const changes: TokenChange[] = [];
+    const removed = Object.values(oldTokens).filter(t => !newTokens[t.key]);
+    const added = new Map(Object.values(newTokens).filter(t => !oldTokens[t.key]).map(t => [t.key, t]));
+
+    // Where did the nodes of each removed token go? If most of them now share
+    // one newly added token, the token was changed rather than removed.
+    for (const oldToken of removed) {
+        let best: { token: DesignToken; overlap: number } | undefined;
+        for (const candidate of added.values()) {
+            const overlap = oldToken.nodeIds.filter(id => candidate.nodeIds.includes(id)).length;
+            if (overlap > 0 && (!best || overlap > best.overlap)) best = { token: candidate, overlap };
+        }
+
+        if (best && best.overlap * 2 >= oldToken.nodeIds.length) {
+            added.delete(best.token.key);
+            changes.push({
+                kind: 'CHANGED', category,
+                oldValue: oldToken.value, newValue: best.token.value, usage: best.overlap,
+                summary: `${category} ${formatTokenValue(oldToken.value)} → ${formatTokenValue(best.token.value)}, used by ${best.overlap} node(s)`,
+            });
+        } else {
+            changes.push({
+                kind: 'REMOVED', category, oldValue: oldToken.value, usage: oldToken.nodeIds.length,
+                summary: `${category} ${formatTokenValue(oldToken.value)} removed (was used by ${oldToken.nodeIds.length} node(s))`,
+            });
+        }
+    }
+
+    for (const token of added.values()) {
+        changes.push({
+            kind: 'ADDED', category, newValue: token.value, usage: token.nodeIds.length,
+            summary: `${category} ${formatTokenValue(token.value)} added, used by ${token.nodeIds.length} node(s)`,
+        });
+    }
+
+    return changes;
+}
+
+export function diffTokens(oldSet: TokenSet, newSet: TokenSet): TokenChange[] {
+    return TOKEN_CATEGORIES.flatMap(category => diffCategory(category, oldSet[category] || {}, newSet[category] || {}));
+}
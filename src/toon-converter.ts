@@ -134,28 +134,54 @@ export interface FilteredPage {
     children: Record<string, any>[];
 }
 
+export interface FilteredComponent {
+    name: string;
+    componentSetId?: string;
+}
+
 export interface FilteredFile {
     name: string;
     version: string;
     lastModified: string;
     pages: FilteredPage[];
+    components?: Record<string, FilteredComponent>;   // Component masters referenced by INSTANCE.componentId
 }
 
-export function filterFile(figmaResponse: FigmaFileResponse): FilteredFile {
-    const doc = figmaResponse.document;
-    // Document > Canvas (pages) > children
-    const pages: FilteredPage[] = (doc.children || []).map(page => ({
+export function filterComponents(components: Record<string, any> | undefined): Record<string, FilteredComponent> | undefined {
+    if (!components || Object.keys(components).length === 0) return undefined;
+
+    const filtered: Record<string, FilteredComponent> = {};
+    for (const [id, component] of Object.entries(components)) {
+        filtered[id] = { name: component.name };
+        if (component.componentSetId) filtered[id].componentSetId = component.componentSetId;
+    }
+    return filtered;
+}
+
+export function filterPage(page: FigmaNode): FilteredPage {
+    return {
         id: page.id,
         name: page.name,
         children: (page.children || []).map(child => filterNode(child)),
-    }));
+    };
+}
 
-    return {
+export function filterFile(figmaResponse: FigmaFileResponse): FilteredFile {
+    const doc = figmaResponse.document;
+    // Document > Canvas (pages) > children
+    const pages: FilteredPage[] = (doc.children || []).map(filterPage);
+
+    const filtered: FilteredFile = {
         name: figmaResponse.name,
         version: figmaResponse.version,
         lastModified: figmaResponse.lastModified,
         pages,
     };
+
+    const components = filterComponents(figmaResponse.components);
+    if (components) filtered.components = components;
+
+    return filtered;
 }
 
 // ─── Encode filtered file to TOON string ───
@@ -167,7 +193,8 @@ export function toToon(filteredFile: FilteredFile): string {
 // ─── Decode TOON string back to object ───
 
 export function fromToon(toonString: string): FilteredFile {
-    return decode(toonString) as FilteredFile;
+    // decode() is typed as JsonValue, which TypeScript won't cast to FilteredFile directly
+    return decode(toonString) as unknown as FilteredFile;
 }
 
 // ─── Full pipeline: Figma response → TOON string ───
@@ -6,16 +6,25 @@
  *   1. Start HTTP server on a port
  *   2. Expose via ngrok (or any tunnel)
  *   3. Register webhook with Figma API
- *   4. Receive FILE_UPDATE → trigger processFile()
+ *   4. Receive FILE_UPDATE → debounce per file → processFile()
  */
 
 import http from 'node:http';
 import { FigmaClient } from './figma-client.js';
-import { filterFile, toToon, type FilteredFile } from './toon-converter.js';
-import { diffSnapshots, formatChangesForLLM, figmaNodeLink, type DesignChange } from './differ.js';
+import { FigmaCache } from './figma-cache.js';
+import { FigmaAuth } from './figma-auth.js';
+import { RateBudget, RateBudgetExceeded } from './rate-budget.js';
 import { AIChangelog } from './ai-changelog.js';
-import { Notifier } from './mattermost.js';
+import { Notifier, createSinks } from './notifier.js';
+import { NotificationRouter, loadRoutingRules } from './routing.js';
+import { loadNoiseRules } from './noise.js';
 import { Store } from './store.js';
+import { ChangePipeline, type PipelineResult } from './pipeline.js';
+import { Dashboard } from './dashboard.js';
+import { ApiRouter } from './api.js';
+import { OAuthRouter } from './oauth.js';
+import { FileDebouncer } from './debouncer.js';
+import { ProjectDiscovery } from './discovery.js';
 import type { Config } from './config.js';
 
 interface FigmaWebhookPayload {
@@ -29,145 +38,131 @@ interface FigmaWebhookPayload {
 }
 
 export class WebhookServer {
-    private figma: FigmaClient;
-    private ai: AIChangelog;
-    private notifier: Notifier;
     private store: Store;
+    private pipeline: ChangePipeline;
+    private dashboard: Dashboard;
+    private api: ApiRouter;
+    private oauth: OAuthRouter;
+    private debouncer: FileDebouncer;
     private config: Config;
     private server: http.Server | null = null;
     private passcode: string;
     private webhookIds: string[] = [];
     private processing = new Set<string>(); // prevent duplicate processing
+    private budget: RateBudget;
+    private auth: FigmaAuth;
+    private discovery?: ProjectDiscovery;
+    private discoveryTimer?: NodeJS.Timeout;
 
     constructor(config: Config) {
         this.config = config;
-        this.figma = new FigmaClient(config.figma.token);
-        this.ai = new AIChangelog(config.llm.provider, config.llm.apiKey, config.llm.model);
-        this.notifier = new Notifier(config.output);
         this.store = new Store(config.dbPath);
+        this.store.seedTrackedFiles(config.figma.fileKeys);
+        this.budget = new RateBudget(this.store, { limits: config.figma.rateLimits });
+        this.auth = new FigmaAuth(this.store, { token: config.figma.token, oauth: config.figma.oauth, apiBaseUrl: config.figma.apiBaseUrl });
+        const figma = new FigmaClient(this.auth, config.figma.apiBaseUrl, {
+            budget: this.budget,
+            cache: config.figma.cache && new FigmaCache(config.figma.cache.dir, { maxVersionsPerFile: config.figma.cache.maxVersionsPerFile }),
+        });
+        this.discovery = config.discovery && new ProjectDiscovery({ figma, store: this.store }, config.discovery);
+        this.pipeline = new ChangePipeline({
+            figma,
+            ai: new AIChangelog(config.llm.provider, config.llm.apiKey, config.llm.model),
+            notifier: new Notifier(
+                createSinks(config.output),
+                new NotificationRouter(loadRoutingRules(config.rulesPath), key => this.store.getTrackedFile(key)?.channelWebhook)
+            ),
+            store: this.store,
+        }, {
+            retention: config.retention,
+            noise: loadNoiseRules(config.rulesPath),
+            thumbnails: config.thumbnails,
+            attributionMaxVersions: config.attributionMaxVersions,
+            partialFetch: config.partialFetch,
+        });
+        this.dashboard = new Dashboard(this.store);
+        this.api = new ApiRouter(this.store, config.apiToken, fileKey => this.processFile(fileKey));
+        this.oauth = new OAuthRouter(this.auth);
+        this.debouncer = new FileDebouncer(
+            (fileKey, authors) => this.processDebounced(fileKey, authors),
+            {
+                windowMs: config.webhookDebounce.windowSeconds * 1000,
+                maxWaitMs: config.webhookDebounce.maxWaitSeconds * 1000,
+            }
+        );
         this.passcode = config.webhookPasscode || `dr_${Date.now()}`;
     }
 
     /**
-     * Process a file change triggered by webhook
+     * Queue a webhook event; bursts for the same file collapse into one run
      */
-    async processFile(fileKey: string, triggeredBy?: string): Promise<void> {
+    enqueueFile(fileKey: string, triggeredBy?: string): void {
+        const waiting = this.debouncer.pending.includes(fileKey) || this.debouncer.isRunning(fileKey);
+        this.debouncer.trigger(fileKey, ...(triggeredBy ? [triggeredBy] : []));
+        if (!waiting) {
+            console.log(`   ⏳ ${fileKey} için ${this.config.webhookDebounce.windowSeconds}s sessizlik bekleniyor`);
+        }
+    }
+
+    private async processDebounced(fileKey: string, authors: string[]): Promise<void> {
+        const result = await this.processFile(fileKey, authors.join(', ') || undefined);
+        // A manual API run holds the file — pick the burst up again once it's free
+        if (!result) this.debouncer.trigger(fileKey, ...authors);
+    }
+
+    /**
+     * Run the pipeline for a file now (debounced webhook bursts and the REST API)
+     */
+    async processFile(fileKey: string, triggeredBy?: string): Promise<PipelineResult | undefined> {
         // Prevent duplicate processing of same file
         if (this.processing.has(fileKey)) {
             console.log(`   ⏭️  ${fileKey} zaten işleniyor, atlanıyor`);
-            return;
+            return undefined;
         }
         this.processing.add(fileKey);
 
         try {
-            console.log(`\n🔍 Webhook tetiklendi: ${fileKey}`);
+            console.log(`\n🔍 İşleniyor: ${fileKey}`);
             if (triggeredBy) {
                 console.log(`   👤 Değişikliği yapan: ${triggeredBy}`);
             }
 
-            // Small delay to let Figma settle (changes may still be saving)
-            await new Promise(r => setTimeout(r, 3000));
-
-            // 1. Fetch full file
-            const figmaFile = await this.figma.getFile(fileKey);
-            const rawJson = JSON.stringify(figmaFile);
-            const rawSize = rawJson.length;
-            const pageCount = figmaFile.document.children?.length || 0;
-            console.log(`   📄 File: "${figmaFile.name}" (${pageCount} pages)`);
-
-            // 2. Filter & convert to TOON
-            const filtered = filterFile(figmaFile);
-            const filteredJson = JSON.stringify(filtered);
-            const toonString = toToon(filtered);
-
-            // ─── Size Analysis ───
-            const filteredSize = filteredJson.length;
-            const filterReduction = ((rawSize - filteredSize) / rawSize * 100).toFixed(1);
-            console.log(`   📊 Raw: ${(rawSize / 1024).toFixed(1)}KB → Filtered: ${(filteredSize / 1024).toFixed(1)}KB [%${filterReduction} azalma]`);
-
-            // ─── Save debug logs ───
-            const { mkdirSync, writeFileSync } = await import('fs');
-            const logDir = `./logs/${fileKey}`;
-            mkdirSync(logDir, { recursive: true });
-            writeFileSync(`${logDir}/1_raw_figma.json`, rawJson);
-            writeFileSync(`${logDir}/2_filtered.json`, JSON.stringify(filtered, null, 2));
-            writeFileSync(`${logDir}/3_encoded.toon`, toonString);
-
-            // 3. Get previous snapshot
-            const prevSnapshot = this.store.getLatestSnapshot(fileKey);
-            const version = Date.now().toString();
-
-            if (!prevSnapshot) {
-                console.log(`   📸 İlk snapshot kaydedildi (baseline)`);
-                this.store.saveSnapshot(fileKey, version, figmaFile.name, toonString, filteredJson);
-                this.store.updateTrackedFile(fileKey, figmaFile.name, version);
-                return;
-            }
-
-            // 4. Diff
-            const prevFiltered: FilteredFile = JSON.parse(prevSnapshot.filteredJson);
-            const changes = diffSnapshots(prevFiltered, filtered);
-
-            if (changes.length === 0) {
-                console.log(`   ✅ Görsel değişiklik yok (metadata değişmiş olabilir)`);
-                this.store.saveSnapshot(fileKey, version, figmaFile.name, toonString, filteredJson);
-                return;
-            }
-
-            // ─── Per-page grouped output ───
-            const byPage = new Map<string, DesignChange[]>();
-            for (const c of changes) {
-                const existing = byPage.get(c.page) || [];
-                existing.push(c);
-                byPage.set(c.page, existing);
-            }
-
-            console.log(`\n   🔄 ${changes.length} değişiklik, ${byPage.size} sayfada:\n`);
-
-            for (const [pageName, pageChanges] of byPage) {
-                const pageLink = figmaNodeLink(fileKey, pageChanges[0].pageId);
-                console.log(`   📄 ${pageName} (${pageChanges.length} değişiklik)`);
-                console.log(`      🔗 ${pageLink}`);
-                for (const c of pageChanges) {
-                    const icon = c.kind === 'ADDED' ? '➕' : c.kind === 'REMOVED' ? '➖' : '✏️';
-                    console.log(`      ${icon} ${c.path} → ${c.summary}`);
-                }
-                console.log('');
+            const file = this.store.getTrackedFile(fileKey);
+            return await this.auth.withAccount(file?.account, () =>
+                this.budget.withPriority(file?.priority ?? 'normal', () => this.pipeline.process(fileKey, {
+                    author: triggeredBy
+                        ? { name: triggeredBy, date: new Date().toLocaleString('tr-TR') }
+                        : undefined,
+                })));
+        } catch (err) {
+            // The version diff catches up on the next event, nothing is lost
+            if (err instanceof RateBudgetExceeded) {
+                console.warn(`   ⏸️  ${fileKey} ertelendi: Figma API bütçesi ${err.retryAt.toLocaleTimeString('tr-TR')}'e kadar dolu`);
+                return { hasChanges: false, changeCount: 0, suppressedCount: 0 };
             }
-
-            // Save diff
-            const diffForLLM = formatChangesForLLM(changes);
-            writeFileSync(`${logDir}/4_diff.txt`, diffForLLM);
-
-            // 5. Generate AI changelog
-            console.log(`   🤖 Changelog oluşturuluyor...`);
-            const changelog = await this.ai.generateChangelog(figmaFile.name, changes);
-
-            // 6. Build rich notification
-            const lines: string[] = [];
-            if (triggeredBy) {
-                lines.push(`👤 **${triggeredBy}** — ${new Date().toLocaleString('tr-TR')}`);
-            }
-            lines.push(`📂 ${byPage.size} sayfa, ${changes.length} değişiklik\n`);
-            lines.push(changelog);
-            lines.push(`\n🔗 **Figma Linkleri:**`);
-            for (const [pageName, pageChanges] of byPage) {
-                const pageLink = figmaNodeLink(fileKey, pageChanges[0].pageId);
-                lines.push(`  📄 [${pageName}](${pageLink}) — ${pageChanges.length} değişiklik`);
-            }
-
-            await this.notifier.send(lines.join('\n'), figmaFile.name);
-
-            // 7. Save snapshot
-            this.store.saveSnapshot(fileKey, version, figmaFile.name, toonString, filteredJson);
-            this.store.updateTrackedFile(fileKey, figmaFile.name, version);
-            this.store.cleanOldSnapshots(fileKey);
-
+            throw err;
         } finally {
             this.processing.delete(fileKey);
         }
     }
 
+    /**
+     * Sync tracked files with the watched teams/projects and baseline the new ones,
+     * so their first webhook event already has something to diff against
+     */
+    async discover(): Promise<void> {
+        if (!this.discovery) return;
+        console.log(`\n🧭 Figma projeleri taranıyor...`);
+        const { added } = await this.discovery.run();
+        for (const fileKey of added) {
+            try {
+                await this.processFile(fileKey);
+            } catch (err) {
+                console.error(`❌ Baseline alınamadı (${fileKey}):`, err);
+            }
+        }
+    }
+
     /**
      * Register webhook with Figma for a team
      */
@@ -181,7 +176,7 @@ export class WebhookServer {
         const res = await fetch('https://api.figma.com/v2/webhooks', {
             method: 'POST',
             headers: {
-                'X-Figma-Token': this.config.figma.token,
+                ...(await this.auth.headers()),
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -210,7 +205,7 @@ export class WebhookServer {
      */
     async listWebhooks(teamId: string): Promise<any[]> {
         const res = await fetch(`https://api.figma.com/v2/teams/${teamId}/webhooks`, {
-            headers: { 'X-Figma-Token': this.config.figma.token },
+            headers: await this.auth.headers(),
         });
 
         if (!res.ok) {
@@ -228,7 +223,7 @@ export class WebhookServer {
     async deleteWebhook(webhookId: string): Promise<void> {
         const res = await fetch(`https://api.figma.com/v2/webhooks/${webhookId}`, {
             method: 'DELETE',
-            headers: { 'X-Figma-Token': this.config.figma.token },
+            headers: await this.auth.headers(),
         });
 
         if (res.ok) {
@@ -236,77 +231,111 @@ export class WebhookServer {
         }
     }
 
+    /**
+     * Route one request: health check, webhook, OAuth, REST API, dashboard
+     */
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        // Health check
+        if (req.method === 'GET' && req.url === '/health') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ status: 'ok', mode: 'webhook' }));
+            return;
+        }
+
+        // Webhook endpoint
+        if (req.method === 'POST' && req.url === '/webhook') {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', async () => {
+                // Respond immediately (Figma expects fast response)
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ status: 'received' }));
+
+                try {
+                    const payload: FigmaWebhookPayload = JSON.parse(body);
+
+                    // Verify passcode
+                    if (payload.passcode !== this.passcode) {
+                        console.warn(`⚠️ Geçersiz passcode, webhook reddedildi`);
+                        return;
+                    }
+
+                    console.log(`\n${'─'.repeat(50)}`);
+                    console.log(`🔔 Webhook alındı — ${new Date().toLocaleString('tr-TR')}`);
+                    console.log(`   Event: ${payload.event_type}`);
+                    console.log(`   File: ${payload.file_name || payload.file_key}`);
+                    if (payload.triggered_by) {
+                        console.log(`   By: ${payload.triggered_by.handle}`);
+                    }
+                    console.log('─'.repeat(50));
+
+                    if (payload.event_type === 'FILE_UPDATE' && payload.file_key) {
+                        // Check if this file is one we're tracking
+                        const isTracked = this.store.isTracked(payload.file_key);
+                        if (!isTracked) {
+                            console.log(`   ⏭️  ${payload.file_key} takip listesinde değil, atlanıyor`);
+                            return;
+                        }
+
+                        this.enqueueFile(payload.file_key, payload.triggered_by?.handle);
+                    }
+                } catch (err) {
+                    console.error('❌ Webhook işleme hatası:', err);
+                }
+            });
+            return;
+        }
+
+        // Team members connecting their Figma account
+        if (await this.oauth.handle(req, res)) return;
+
+        // Authenticated REST API
+        if (await this.api.handle(req, res)) return;
+
+        // Read-only dashboard (HTML + JSON)
+        if (this.dashboard.handle(req, res)) return;
+
+        // 404 for everything else
+        res.writeHead(404);
+        res.end('Not Found');
+    }
+
     /**
      * Start the webhook HTTP server
      */
     start(port: number = 3100): Promise<void> {
         return new Promise((resolve) => {
             this.server = http.createServer(async (req, res) => {
-                // Health check
-                if (req.method === 'GET' && req.url === '/health') {
-                    res.writeHead(200, { 'Content-Type': 'application/json' });
-                    res.end(JSON.stringify({ status: 'ok', mode: 'webhook' }));
-                    return;
+                try {
+                    await this.handleRequest(req, res);
+                } catch (err) {
+                    // Never let one bad request take the server down
+                    console.error('❌ HTTP isteği işlenemedi:', err);
+                    if (!res.headersSent) res.writeHead(500);
+                    res.end('Internal Server Error');
                 }
-
-                // Webhook endpoint
-                if (req.method === 'POST' && req.url === '/webhook') {
-                    let body = '';
-                    req.on('data', chunk => { body += chunk; });
-                    req.on('end', async () => {
-                        // Respond immediately (Figma expects fast response)
-                        res.writeHead(200, { 'Content-Type': 'application/json' });
-                        res.end(JSON.stringify({ status: 'received' }));
-
-                        try {
-                            const payload: FigmaWebhookPayload = JSON.parse(body);
-
-                            // Verify passcode
-                            if (payload.passcode !== this.passcode) {
-                                console.warn(`⚠️ Geçersiz passcode, webhook reddedildi`);
-                                return;
-                            }
-
-                            console.log(`\n${'─'.repeat(50)}`);
-                            console.log(`🔔 Webhook alındı — ${new Date().toLocaleString('tr-TR')}`);
-                            console.log(`   Event: ${payload.event_type}`);
-                            console.log(`   File: ${payload.file_name || payload.file_key}`);
-                            if (payload.triggered_by) {
-                                console.log(`   By: ${payload.triggered_by.handle}`);
-                            }
-                            console.log('─'.repeat(50));
-
-                            if (payload.event_type === 'FILE_UPDATE' && payload.file_key) {
-                                // Check if this file is one we're tracking
-                                const isTracked = this.config.figma.fileKeys.includes(payload.file_key);
-                                if (!isTracked) {
-                                    console.log(`   ⏭️  ${payload.file_key} takip listesinde değil, atlanıyor`);
-                                    return;
-                                }
-
-                                await this.processFile(
-                                    payload.file_key,
-                                    payload.triggered_by?.handle
-                                );
-                            }
-                        } catch (err) {
-                            console.error('❌ Webhook işleme hatası:', err);
-                        }
-                    });
-                    return;
-                }
-
-                // 404 for everything else
-                res.writeHead(404);
-                res.end('Not Found');
             });
 
             this.server.listen(port, () => {
                 console.log(`\n🚀 DesignRadar Webhook Server başlatıldı`);
                 console.log(`   📡 Port: ${port}`);
                 console.log(`   🔑 Passcode: ${this.passcode}`);
-                console.log(`   📂 Tracking: ${this.config.figma.fileKeys.length} file(s)`);
+                console.log(`   📊 Dashboard: http://localhost:${port}/`);
+                console.log(`   📂 Tracking: ${this.store.getTrackedFileKeys().length} file(s)`);
+                console.log(`   🔐 REST API: ${this.api.enabled ? 'açık' : 'kapalı (API_TOKEN yok)'}`);
+                if (this.auth.oauthEnabled) {
+                    console.log(`   🔑 Figma hesabı bağla: http://localhost:${port}/oauth/start (${this.store.listOAuthAccounts().length} bağlı)`);
+                }
                 console.log(`   🤖 LLM: ${this.config.llm.provider} / ${this.config.llm.model}`);
+                console.log(`   📤 Output: ${this.config.output.sinks.join(', ')}`);
+                console.log(`   ⏱️  Debounce: ${this.config.webhookDebounce.windowSeconds}s (max ${this.config.webhookDebounce.maxWaitSeconds}s)`);
+                if (this.config.discovery) {
+                    const { teamIds, projectIds, intervalMinutes } = this.config.discovery;
+                    console.log(`   🧭 Keşif: ${teamIds.length} takım, ${projectIds.length} proje (${intervalMinutes} dk'da bir)`);
+                    const discover = () => this.discover().catch(err => console.error('❌ Proje keşfi başarısız:', err));
+                    discover();
+                    this.discoveryTimer = setInterval(discover, intervalMinutes * 60_000);
+                }
                 console.log(`\n   ⏳ Figma webhook olayları bekleniyor...\n`);
                 resolve();
             });
@@ -317,6 +346,9 @@ export class WebhookServer {
      * Stop the server and cleanup webhooks
      */
     async stop(): Promise<void> {
+        this.debouncer.cancelAll();
+        clearInterval(this.discoveryTimer);
+
         // Cleanup registered webhooks
         for (const id of this.webhookIds) {
             try {
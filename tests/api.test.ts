@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ApiRouter } from '../src/api.js';
+import { Store } from '../src/store.js';
+import { filterFile } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+
+describe('REST API', () => {
+    let store: Store;
+    let server: http.Server;
+    let baseUrl: string;
+    let processed: string[];
+
+    const call = (method: string, path: string, body?: unknown, token = 'secret') =>
+        fetch(`${baseUrl}${path}`, {
+            method,
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+    beforeEach(async () => {
+        store = new Store(':memory:');
+        processed = [];
+        const api = new ApiRouter(store, 'secret', async (fileKey) => {
+            processed.push(fileKey);
+            return { hasChanges: true, changeCount: 3 };
+        });
+
+        server = http.createServer(async (req, res) => {
+            if (!(await api.handle(req, res))) {
+                res.writeHead(404);
+                res.end('Not Found');
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+        server.close();
+        store.close();
+    });
+
+    it('should reject requests without the API token', async () => {
+        const res = await call('POST', '/api/files', { fileKey: 'ABC' }, 'wrong');
+        expect(res.status).toBe(401);
+        expect(store.isTracked('ABC')).toBe(false);
+    });
+
+    it('should add a tracked file and baseline it', async () => {
+        const res = await call('POST', '/api/files', { fileKey: 'ABC' });
+
+        expect(res.status).toBe(201);
+        expect(store.getTrackedFileKeys()).toEqual(['ABC']);
+        expect(processed).toEqual(['ABC']);
+    });
+
+    it('should reject an invalid file key', async () => {
+        expect((await call('POST', '/api/files', { fileKey: '../etc' })).status).toBe(400);
+        expect((await call('POST', '/api/files', 'not json')).status).toBe(400);
+        expect((await call('POST', '/api/files', { fileKey: 'ABC', channelWebhook: 'javascript:x' })).status).toBe(400);
+        expect((await call('POST', '/api/files', { fileKey: 'ABC', channelWebhook: 'http://' })).status).toBe(400);
+        expect((await call('POST', '/api/files', { fileKey: 'ABC', channelWebhook: 'hooks.slack.com/services/x' })).status).toBe(400);
+    });
+
+    it('should store a per-file channel webhook', async () => {
+        const res = await call('POST', '/api/files', { fileKey: 'ABC', channelWebhook: 'https://hooks.slack.com/services/T/B/x' });
+
+        expect(res.status).toBe(201);
+        expect(store.getTrackedFile('ABC')?.channelWebhook).toBe('https://hooks.slack.com/services/T/B/x');
+    });
+
+    it('should store a file priority for the rate budget', async () => {
+        const res = await call('POST', '/api/files', { fileKey: 'ABC', priority: 'low' });
+
+        expect(res.status).toBe(201);
+        expect((await res.json()).priority).toBe('low');
+        expect(store.getTrackedFile('ABC')?.priority).toBe('low');
+        expect((await call('POST', '/api/files', { fileKey: 'DEF', priority: 'urgent' })).status).toBe(400);
+    });
+
+    it('should remove a tracked file but keep it out after re-seeding', async () => {
+        store.seedTrackedFiles(['ABC']);
+
+        expect((await call('DELETE', '/api/files/ABC')).status).toBe(200);
+        expect((await call('DELETE', '/api/files/ABC')).status).toBe(404);
+
+        store.seedTrackedFiles(['ABC']);
+        expect(store.isTracked('ABC')).toBe(false);
+    });
+
+    it('should process a tracked file on demand', async () => {
+        store.trackFile('ABC');
+
+        const res = await call('POST', '/api/files/ABC/process');
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ fileKey: 'ABC', hasChanges: true, changeCount: 3 });
+        expect((await call('POST', '/api/files/NOPE/process')).status).toBe(404);
+    });
+
+    it('should diff two stored versions', async () => {
+        const v1 = filterFile(figmaSample as any);
+        const v2: any = JSON.parse(JSON.stringify(v1));
+        v2.pages[0].children[1].children[0].characters = 'Yeni Başlık';
+        store.saveSnapshot('ABC', 'v1', 'F', '', JSON.stringify(v1));
+        store.saveSnapshot('ABC', 'v2', 'F', '', JSON.stringify(v2));
+
+        const res = await call('GET', '/api/files/ABC/diff?from=v1');
+        const body = await res.json() as any;
+
+        expect(res.status).toBe(200);
+        expect(body).toMatchObject({ from: 'v1', to: 'v2', changeCount: 1 });
+        expect(body.changes[0].property).toBe('characters');
+        expect((await call('GET', '/api/files/ABC/diff')).status).toBe(400);
+        expect((await call('GET', '/api/files/ABC/diff?from=v0')).status).toBe(404);
+    });
+
+    it('should fetch a file as a connected account', async () => {
+        store.saveOAuthAccount({ userId: '42', handle: 'ayse', accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3_600_000 });
+
+        const res = await call('POST', '/api/files', { fileKey: 'ABC', account: '42' });
+
+        expect(res.status).toBe(201);
+        expect((await res.json()).account).toBe('42');
+        expect(store.getTrackedFile('ABC')?.account).toBe('42');
+        expect((await call('POST', '/api/files', { fileKey: 'DEF', account: '99' })).status).toBe(400);
+    });
+
+    it('should list and disconnect accounts without exposing tokens', async () => {
+        store.saveOAuthAccount({ userId: '42', handle: 'ayse', accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3_600_000 });
+
+        const list = await (await call('GET', '/api/accounts')).json() as any;
+        expect(list.accounts).toEqual([{ userId: '42', handle: 'ayse', connectedAt: expect.any(String) }]);
+
+        expect((await call('DELETE', '/api/accounts/42')).status).toBe(200);
+        expect((await call('DELETE', '/api/accounts/42')).status).toBe(404);
+        expect(store.listOAuthAccounts()).toEqual([]);
+    });
+
+    it('should check the token before decoding the path', async () => {
+        expect((await call('DELETE', '/api/files/%E0', undefined, 'wrong')).status).toBe(401);
+        expect((await call('DELETE', '/api/files/%E0')).status).toBe(400);
+        expect((await call('POST', '/api/files/%E0/process')).status).toBe(400);
+        expect((await call('DELETE', '/api/accounts/%E0')).status).toBe(400);
+        expect(processed).toEqual([]);
+    });
+
+    it('should leave read-only routes to the dashboard', async () => {
+        expect(await (await call('GET', '/api/files')).text()).toBe('Not Found');
+    });
+});
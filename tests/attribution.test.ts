@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { versionsSince, listContributors, attributeChanges } from '../src/attribution.js';
+import type { FigmaVersion } from '../src/figma-client.js';
+import { change } from './helpers.js';
+
+function version(id: string, created_at: string, handle: string): FigmaVersion {
+    return { id, created_at, label: null, description: null, user: { handle, img_url: '' } };
+}
+
+const versions = [
+    version('v4', '2026-10-19T12:00:00Z', 'mehmet'),
+    version('v3', '2026-10-19T11:00:00Z', 'ayse'),
+    version('v2', '2026-10-19T10:00:00Z', 'mehmet'),
+    version('v1', '2026-10-18T10:00:00Z', 'ayse'),
+];
+
+describe('versionsSince', () => {
+    it('stops at the stored version', () => {
+        expect(versionsSince(versions, 'v2').map(v => v.id)).toEqual(['v4', 'v3']);
+    });
+
+    it('falls back to the snapshot date when the stored version is not listed', () => {
+        expect(versionsSince(versions, 'v0', new Date('2026-10-19T09:00:00Z')).map(v => v.id)).toEqual(['v4', 'v3', 'v2']);
+    });
+});
+
+describe('listContributors', () => {
+    it('lists each author once with their latest version', () => {
+        const contributors = listContributors(versions.slice(0, 3));
+
+        expect(contributors.map(c => [c.name, c.version])).toEqual([['mehmet', 'v4'], ['ayse', 'v3']]);
+        expect(contributors[0].createdAt).toBe('2026-10-19T12:00:00Z');
+    });
+});
+
+describe('attributeChanges', () => {
+    it('credits each change to the last author who touched it', () => {
+        const steps = [
+            { author: 'ayse', changes: [change({ property: 'fills' }), change({ nodeId: '2:2', property: 'name' })] },
+            { author: 'mehmet', changes: [change({ property: 'fills' }), change({ nodeId: '2:3', property: 'characters' })] },
+        ];
+
+        const result = attributeChanges([
+            change({ property: 'fills' }),
+            change({ nodeId: '2:2', property: 'name' }),
+            change({ nodeId: '2:3', property: 'fontSize' }),
+            change({ nodeId: '9:9' }),
+        ], steps);
+
+        expect(result.map(c => c.author)).toEqual(['mehmet', 'ayse', 'mehmet', undefined]);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HistoryBackfill, selectVersions } from '../src/backfill.js';
+import { Store } from '../src/store.js';
+import type { FigmaVersion } from '../src/figma-client.js';
+import figmaSample from './fixtures/figma-sample.json';
+
+function version(id: string, created_at: string, handle = 'ayse'): FigmaVersion {
+    return { id, created_at, label: null, description: null, user: { handle, img_url: '' } };
+}
+
+// Newest first, like the versions endpoint
+const history = [
+    version('v4', '2026-10-04T10:00:00Z', 'mehmet'),
+    version('v3', '2026-10-03T10:00:00Z', 'mehmet'),
+    version('v2', '2026-10-02T10:00:00Z'),
+    version('v1', '2026-10-01T10:00:00Z'),
+];
+
+function fileAt(id: string): any {
+    const file = JSON.parse(JSON.stringify(figmaSample));
+    file.version = id;
+    const button = file.document.children[0].children[0].children[1];
+    if (id >= 'v2') button.fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+    // v3 only nudges the button by a pixel — noise
+    if (id >= 'v3') button.absoluteBoundingBox.x += 1;
+    if (id >= 'v4') file.document.children[0].children[0].children[0].name = 'Brand Logo';
+    return file;
+}
+
+describe('selectVersions', () => {
+    it('returns the whole history oldest first by default', () => {
+        expect(selectVersions(history).map(v => v.id)).toEqual(['v1', 'v2', 'v3', 'v4']);
+    });
+
+    it('accepts version IDs and dates as inclusive bounds', () => {
+        expect(selectVersions(history, { from: 'v2', to: 'v3' }).map(v => v.id)).toEqual(['v2', 'v3']);
+        expect(selectVersions(history, { from: new Date('2026-10-02T00:00:00Z') }).map(v => v.id)).toEqual(['v2', 'v3', 'v4']);
+        expect(selectVersions(history, { to: new Date('2026-10-02T23:59:59Z') }).map(v => v.id)).toEqual(['v1', 'v2']);
+    });
+
+    it('matches nothing for an unknown version', () => {
+        expect(selectVersions(history, { from: 'v9' })).toEqual([]);
+    });
+});
+
+describe('HistoryBackfill', () => {
+    let store: Store;
+    let fetched: string[];
+    let backfill: HistoryBackfill;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        store = new Store(':memory:');
+        fetched = [];
+        const figma = {
+            getFile: async (_key: string, id?: string) => { fetched.push(id!); return fileAt(id!); },
+            // Two versions per page
+            getFileVersions: async (_key: string, options: { before?: string } = {}) => {
+                const start = options.before ? history.findIndex(v => v.id === options.before) + 1 : 0;
+                return { versions: history.slice(start, start + 2) };
+            },
+        };
+        backfill = new HistoryBackfill({ figma: figma as any, store });
+    });
+
+    afterEach(() => {
+        store.close();
+        vi.restoreAllMocks();
+    });
+
+    it('stores every version and the changes between them with their original dates', async () => {
+        const result = await backfill.run('FILE');
+
+        expect(result).toEqual({ versions: 4, skipped: 0, changeSets: 2, changes: 2 });
+        expect(fetched).toEqual(['v1', 'v2', 'v3', 'v4']);
+        expect(store.listSnapshots('FILE').map(s => [s.version, s.createdAt])).toEqual([
+            ['v4', '2026-10-04 10:00:00'],
+            ['v3', '2026-10-03 10:00:00'],
+            ['v2', '2026-10-02 10:00:00'],
+            ['v1', '2026-10-01 10:00:00'],
+        ]);
+
+        const changeSets = store.listChangeSets('FILE');
+        expect(changeSets.map(cs => [cs.fromVersion, cs.toVersion, cs.author, cs.createdAt])).toEqual([
+            ['v3', 'v4', 'mehmet', '2026-10-04 10:00:00'],
+            ['v1', 'v2', 'ayse', '2026-10-02 10:00:00'],
+        ]);
+        const changes = store.queryChanges({ fileKey: 'FILE', since: new Date('2026-10-02T00:00:00Z'), until: new Date('2026-10-02T23:59:59Z') });
+        expect(changes.map(c => c.property)).toEqual(['fills']);
+    });
+
+    it('keeps backfilled snapshots through the next live retention run', async () => {
+        await backfill.run('FILE');
+
+        store.cleanOldSnapshots('FILE', { keepCount: 1, maxAgeDays: 1 });
+
+        expect(store.listSnapshots('FILE')).toHaveLength(4);
+    });
+
+    it('only fetches versions in the range that are not stored yet', async () => {
+        await backfill.run('FILE', { to: 'v2' });
+        store.saveChangeSet({ fileKey: 'FILE', fileName: 'Sample', fromVersion: 'v1', toVersion: 'v2', changelog: '• Canlı', changes: [] });
+        fetched.length = 0;
+
+        const result = await backfill.run('FILE', { from: new Date('2026-10-02T00:00:00Z') });
+
+        expect(fetched).toEqual(['v3', 'v4']);
+        expect(result).toMatchObject({ versions: 3, skipped: 1 });
+        expect(store.listChangeSets('FILE').find(cs => cs.toVersion === 'v2')?.changelog).toBe('• Canlı');
+    });
+});
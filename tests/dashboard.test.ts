@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Dashboard } from '../src/dashboard.js';
+import { Store } from '../src/store.js';
+
+describe('Dashboard', () => {
+    let store: Store;
+    let server: http.Server;
+    let baseUrl: string;
+    let changeSetId: number;
+    let thumbDir: string;
+
+    beforeAll(async () => {
+        thumbDir = mkdtempSync(join(tmpdir(), 'design-radar-dashboard-'));
+        writeFileSync(join(thumbDir, 'after.png'), 'png-bytes');
+        store = new Store(':memory:');
+        store.saveSnapshot('FILE', 'v1', 'Checkout <Flow>', '', '{"pages":[]}');
+        store.saveSnapshot('FILE', 'v2', 'Checkout <Flow>', '', '{"pages":[]}');
+        store.updateTrackedFile('FILE', 'Checkout <Flow>', 'v2');
+        store.trackFile('FILE', 'https://hooks.slack.com/services/T/B/secret');
+        store.saveOAuthAccount({ userId: '42', handle: 'ayse', accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3_600_000 });
+        store.setAccount('FILE', '42');
+        changeSetId = store.saveChangeSet({
+            fileKey: 'FILE', fileName: 'Checkout <Flow>', fromVersion: 'v1', toVersion: 'v2',
+            author: 'ayse', changelog: '• Ödeme butonu yeşil oldu',
+            changes: [{
+                kind: 'MODIFIED', page: 'Payment', pageId: '0:1', nodeId: '1:3',
+                path: 'Footer / Pay Button', property: 'fills', summary: 'fills: #3366E6 → #00AA00',
+            }],
+            thumbnails: [{
+                nodeId: '1:1', name: 'Footer', page: 'Payment', pageId: '0:1',
+                after: { path: join(thumbDir, 'after.png'), url: 'https://render.example/after.png' },
+            }],
+        });
+
+        const dashboard = new Dashboard(store);
+        server = http.createServer((req, res) => {
+            if (!dashboard.handle(req, res)) {
+                res.writeHead(404);
+                res.end('Not Found');
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+        store.close();
+        rmSync(thumbDir, { recursive: true, force: true });
+    });
+
+    it('should list tracked files as HTML with escaped names', async () => {
+        const res = await fetch(`${baseUrl}/`);
+        const html = await res.text();
+
+        expect(res.status).toBe(200);
+        expect(html).toContain('Checkout &lt;Flow&gt;');
+        expect(html).toContain('href="/files/FILE"');
+    });
+
+    it('should show the snapshot timeline with change set links', async () => {
+        const html = await (await fetch(`${baseUrl}/files/FILE`)).text();
+
+        expect(html).toContain('v1');
+        expect(html).toContain(`/files/FILE/changes/${changeSetId}`);
+        expect(html).toContain('ayse');
+    });
+
+    it('should render a change set with changelog and Figma deep links', async () => {
+        const html = await (await fetch(`${baseUrl}/files/FILE/changes/${changeSetId}`)).text();
+
+        expect(html).toContain('Ödeme butonu yeşil oldu');
+        expect(html).toContain('Payment');
+        expect(html).toContain('https://www.figma.com/design/FILE?node-id=1-3');
+    });
+
+    it('should show and serve stored before/after thumbnails', async () => {
+        const html = await (await fetch(`${baseUrl}/files/FILE/changes/${changeSetId}`)).text();
+        expect(html).toContain('Önce / Sonra');
+        expect(html).toContain(`src="/thumbnails/${changeSetId}/1%3A1/after"`);
+
+        const image = await fetch(`${baseUrl}/thumbnails/${changeSetId}/1%3A1/after`);
+        expect(image.headers.get('content-type')).toBe('image/png');
+        expect(await image.text()).toBe('png-bytes');
+        expect((await fetch(`${baseUrl}/thumbnails/${changeSetId}/1%3A1/before`)).status).toBe(404);
+    });
+
+    it('should serve JSON under /api', async () => {
+        const files = await (await fetch(`${baseUrl}/api/files`)).json() as any;
+        expect(files.files[0].fileKey).toBe('FILE');
+
+        // No secrets on the unauthenticated dashboard
+        const file = await (await fetch(`${baseUrl}/api/files/FILE`)).json() as any;
+        for (const data of [files.files[0], file.file]) {
+            expect(data).not.toHaveProperty('channelWebhook');
+            expect(data).not.toHaveProperty('account');
+        }
+
+        const detail = await (await fetch(`${baseUrl}/api/change-sets/${changeSetId}`)).json() as any;
+        expect(detail.changes[0].link).toBe('https://www.figma.com/design/FILE?node-id=1-3');
+    });
+
+    it('should 404 unknown files and leave other routes alone', async () => {
+        expect((await fetch(`${baseUrl}/api/files/NOPE`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}/files/OTHER/changes/${changeSetId}`)).status).toBe(404);
+        expect(await (await fetch(`${baseUrl}/webhook`)).text()).toBe('Not Found');
+    });
+
+    it('should survive malformed paths', async () => {
+        expect((await fetch(`${baseUrl}/files/%E0`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}/api/files/%E0`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}//`)).status).toBe(404);
+        // Still serving
+        expect((await fetch(`${baseUrl}/`)).status).toBe(200);
+    });
+});
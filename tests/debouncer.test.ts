@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FileDebouncer } from '../src/debouncer.js';
+
+describe('FileDebouncer', () => {
+    let runs: { fileKey: string; authors: string[] }[];
+    let release: (() => void) | undefined;
+    let blocking: boolean;
+    let debouncer: FileDebouncer;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        runs = [];
+        blocking = false;
+        debouncer = new FileDebouncer(async (fileKey, authors) => {
+            runs.push({ fileKey, authors });
+            if (blocking) await new Promise<void>(resolve => { release = resolve; });
+        }, { windowMs: 1000, maxWaitMs: 5000 });
+    });
+
+    afterEach(() => {
+        debouncer.cancelAll();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('collapses a burst into one run with every author', async () => {
+        debouncer.trigger('FILE', 'ayse');
+        await vi.advanceTimersByTimeAsync(500);
+        debouncer.trigger('FILE', 'mehmet');
+        await vi.advanceTimersByTimeAsync(500);
+        debouncer.trigger('FILE', 'ayse');
+
+        expect(runs).toHaveLength(0);
+        expect(debouncer.pending).toEqual(['FILE']);
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(runs).toEqual([{ fileKey: 'FILE', authors: ['ayse', 'mehmet'] }]);
+        expect(debouncer.pending).toEqual([]);
+    });
+
+    it('keeps files independent', async () => {
+        debouncer.trigger('A');
+        debouncer.trigger('B');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(runs.map(r => r.fileKey).sort()).toEqual(['A', 'B']);
+    });
+
+    it('runs a file that never goes quiet once the max wait is reached', async () => {
+        for (let t = 0; t < 6000; t += 500) {
+            debouncer.trigger('FILE');
+            await vi.advanceTimersByTimeAsync(500);
+        }
+
+        expect(runs).toHaveLength(1);
+    });
+
+    it('re-runs once after events that arrive mid-processing', async () => {
+        blocking = true;
+        debouncer.trigger('FILE', 'ayse');
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(runs).toHaveLength(1);
+        expect(debouncer.isRunning('FILE')).toBe(true);
+
+        debouncer.trigger('FILE', 'mehmet');
+        debouncer.trigger('FILE', 'zeynep');
+        blocking = false;
+        release!();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(runs).toEqual([
+            { fileKey: 'FILE', authors: ['ayse'] },
+            { fileKey: 'FILE', authors: ['mehmet', 'zeynep'] },
+        ]);
+    });
+});
@@ -2,13 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { diffSnapshots, formatChangesForLLM, type DesignChange } from '../src/differ.js';
 import { filterFile, type FilteredFile } from '../src/toon-converter.js';
 import figmaSample from './fixtures/figma-sample.json';
-
-// Helper: create a deep clone and modify specific values
-function cloneAndModify(obj: any, modifications: (clone: any) => void): any {
-    const clone = JSON.parse(JSON.stringify(obj));
-    modifications(clone);
-    return clone;
-}
+import { cloneAndModify } from './helpers.js';
 
 describe('TOON Differ', () => {
     const baseFiltered = filterFile(figmaSample as any);
@@ -118,6 +112,176 @@ describe('TOON Differ', () => {
             expect(pageAdded).toBeDefined();
             expect(pageAdded!.summary).toContain('Settings Page');
         });
+
+        it('should mark changes inside hidden layers but not the visibility toggle itself', () => {
+            const hiddenHeader = cloneAndModify(baseFiltered, (f) => {
+                f.pages[0].children[0].visible = false;
+            });
+            const recolored = cloneAndModify(hiddenHeader, (f) => {
+                f.pages[0].children[0].children[1].fills[0].color = '#FF0000';
+            });
+
+            const toggle = diffSnapshots(baseFiltered, hiddenHeader);
+            expect(toggle.find(c => c.property === 'visible')!.hidden).toBeUndefined();
+
+            const fill = diffSnapshots(hiddenHeader, recolored).find(c => c.property === 'fills');
+            expect(fill!.hidden).toBe(true);
+        });
+    });
+
+    describe('move detection', () => {
+        it('should report a node moved to another parent', () => {
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                const [header, hero] = f.pages[0].children;
+                const cta = hero.children.pop(); // CTA Button
+                header.children.push(cta);
+            });
+
+            const changes = diffSnapshots(baseFiltered, modified);
+            const moved = changes.find(c => c.kind === 'MOVED');
+            expect(moved).toBeDefined();
+            expect(moved!.nodeId).toBe('2:4');
+            expect(moved!.oldValue).toMatchObject({ parentPath: 'Hero Section', index: 2 });
+            expect(moved!.newValue).toMatchObject({ parentPath: 'Header', index: 2 });
+            expect(changes.some(c => c.property === 'node')).toBe(false);
+        });
+
+        it('should report reordered siblings', () => {
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                const hero = f.pages[0].children[1];
+                const cta = hero.children.pop();
+                hero.children.unshift(cta); // CTA Button moves to the top
+            });
+
+            const changes = diffSnapshots(baseFiltered, modified);
+            const reordered = changes.filter(c => c.kind === 'REORDERED');
+            expect(reordered).toHaveLength(1);
+            expect(reordered[0].nodeId).toBe('2:4');
+            expect(reordered[0].oldValue).toEqual({ parentPath: 'Hero Section', index: 2 });
+            expect(reordered[0].newValue).toEqual({ parentPath: 'Hero Section', index: 0 });
+        });
+
+        it('should find a swap between many siblings', () => {
+            const many = cloneAndModify(baseFiltered, (f) => {
+                const hero = f.pages[0].children[1];
+                const template = hero.children[0];
+                hero.children = Array.from({ length: 2000 }, (_, i) => ({ ...template, id: `9:${i}`, name: `Item ${i}` }));
+            });
+            const swapped = cloneAndModify(many, (f) => {
+                const items = f.pages[0].children[1].children;
+                [items[1000], items[1001]] = [items[1001], items[1000]];
+            });
+
+            expect(diffSnapshots(many, many)).toEqual([]);
+            const reordered = diffSnapshots(many, swapped).filter(c => c.kind === 'REORDERED');
+            expect(reordered).toHaveLength(1);
+            expect(reordered[0].oldValue).toMatchObject({ index: 1000 });
+            expect(reordered[0].newValue).toMatchObject({ index: 1001 });
+        });
+
+        it('should not report reorders caused by removed siblings', () => {
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                const hero = f.pages[0].children[1];
+                hero.children.shift(); // Remove Hero Title
+            });
+
+            const changes = diffSnapshots(baseFiltered, modified);
+            expect(changes.filter(c => c.kind === 'REORDERED')).toHaveLength(0);
+            expect(changes.filter(c => c.kind === 'REMOVED')).toHaveLength(1);
+        });
+
+        it('should report a node moved to another page as a single move', () => {
+            const twoPages = cloneAndModify(baseFiltered, (f) => {
+                f.pages.push({ id: '0:2', name: 'Archive', children: [] });
+            });
+            const modified = cloneAndModify(twoPages, (f) => {
+                const header = f.pages[0].children.shift();
+                f.pages[1].children.push(header);
+            });
+
+            const changes = diffSnapshots(twoPages, modified);
+            expect(changes).toHaveLength(1);
+            expect(changes[0].kind).toBe('MOVED');
+            expect(changes[0].page).toBe('Archive');
+            expect(changes[0].summary).toContain('Home Page');
+        });
+    });
+
+    describe('component awareness', () => {
+        const instance = (id: string, label: string) => ({
+            id, name: 'Button', type: 'INSTANCE', componentId: '5:1',
+            children: [{ id: `I${id};5:2`, name: 'Label', type: 'TEXT', characters: label }],
+        });
+
+        const componentFile: FilteredFile = {
+            name: 'Design System',
+            version: 'v1',
+            lastModified: '2026-02-17T15:00:00Z',
+            components: { '5:1': { name: 'Primary Button' } },
+            pages: [
+                {
+                    id: '0:1', name: 'Components', children: [{
+                        id: '5:1', name: 'Button', type: 'COMPONENT', fills: [{ type: 'SOLID', color: '#3366E6' }],
+                        children: [{ id: '5:2', name: 'Label', type: 'TEXT', characters: 'Submit' }],
+                    }],
+                },
+                { id: '0:2', name: 'Checkout', children: [instance('7:1', 'Submit'), instance('7:2', 'Submit')] },
+                { id: '0:3', name: 'Login', children: [instance('8:1', 'Submit')] },
+            ],
+        };
+
+        it('should summarise a master change with its instance reach', () => {
+            const modified = cloneAndModify(componentFile, (f) => {
+                f.pages[0].children[0].fills[0].color = '#FF0000';
+            });
+
+            const changes = diffSnapshots(componentFile, modified);
+            const impact = changes.find(c => c.property === 'component');
+            expect(impact).toBeDefined();
+            expect(impact!.summary).toContain('Primary Button');
+            expect(impact!.newValue).toEqual({ instances: 3, pages: ['Checkout', 'Login'] });
+
+            const fillChange = changes.find(c => c.property === 'fills');
+            expect(fillChange!.component).toEqual({ id: '5:1', name: 'Primary Button', role: 'master' });
+        });
+
+        it('should drop instance changes that mirror the master', () => {
+            const modified = cloneAndModify(componentFile, (f) => {
+                f.pages[0].children[0].children[0].characters = 'Pay';
+                for (const page of f.pages.slice(1)) {
+                    for (const inst of page.children) inst.children[0].characters = 'Pay';
+                }
+            });
+
+            const changes = diffSnapshots(componentFile, modified);
+            const textChanges = changes.filter(c => c.property === 'characters');
+            expect(textChanges).toHaveLength(1);
+            expect(textChanges[0].nodeId).toBe('5:2');
+        });
+
+        it('should report a single instance override separately', () => {
+            const modified = cloneAndModify(componentFile, (f) => {
+                f.pages[2].children[0].children[0].characters = 'Log in';
+            });
+
+            const changes = diffSnapshots(componentFile, modified);
+            expect(changes).toHaveLength(1);
+            expect(changes[0].component).toEqual({ id: '5:1', name: 'Primary Button', role: 'instance' });
+            expect(changes[0].summary).toContain('Override');
+            expect(changes.some(c => c.property === 'component')).toBe(false);
+        });
+
+        it('should collapse identical overrides across instances', () => {
+            const modified = cloneAndModify(componentFile, (f) => {
+                for (const page of f.pages.slice(1)) {
+                    for (const inst of page.children) inst.children[0].characters = 'Buy now';
+                }
+            });
+
+            const changes = diffSnapshots(componentFile, modified);
+            expect(changes).toHaveLength(1);
+            expect(changes[0].summary).toContain('3 instances of "Primary Button"');
+        });
     });
 
     describe('formatChangesForLLM', () => {
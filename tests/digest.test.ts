@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mergeChanges, DigestRunner } from '../src/digest.js';
+import { Store } from '../src/store.js';
+import type { DesignChange } from '../src/differ.js';
+import type { Notification } from '../src/notification.js';
+import type { AIChangelog } from '../src/ai-changelog.js';
+import type { Notifier } from '../src/notifier.js';
+import { change } from './helpers.js';
+
+describe('mergeChanges', () => {
+    it('drops a value that changed and changed back', () => {
+        const merged = mergeChanges([
+            change({ oldValue: '#3366E6', newValue: '#00AA00' }),
+            change({ oldValue: '#00AA00', newValue: '#3366E6' }),
+        ]);
+        expect(merged).toEqual([]);
+    });
+
+    it('folds consecutive edits into one net change', () => {
+        const merged = mergeChanges([
+            change({ oldValue: '#3366E6', newValue: '#00AA00' }),
+            change({ oldValue: '#00AA00', newValue: '#FF0000' }),
+        ]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0]).toMatchObject({ kind: 'MODIFIED', oldValue: '#3366E6', newValue: '#FF0000' });
+        expect(merged[0].summary).toBe('fills: #3366E6 → #FF0000');
+    });
+
+    it('drops a layer that was added and deleted again, with its edits', () => {
+        const merged = mergeChanges([
+            change({ kind: 'ADDED', nodeId: '9:1', property: 'node', newValue: { type: 'FRAME' } }),
+            change({ nodeId: '9:1', oldValue: '#000000', newValue: '#FFFFFF' }),
+            change({ kind: 'REMOVED', nodeId: '9:1', property: 'node', oldValue: { type: 'FRAME' } }),
+            change({ oldValue: '#3366E6', newValue: '#00AA00' }),
+        ]);
+        expect(merged.map(c => c.nodeId)).toEqual(['1:3']);
+    });
+
+    it('drops a node moved away and back', () => {
+        const from = { parentId: '1:1', parentPath: 'Header', index: 0 };
+        const to = { parentId: '1:2', parentPath: 'Footer', index: 2 };
+        const merged = mergeChanges([
+            change({ kind: 'MOVED', property: 'parent', oldValue: from, newValue: to }),
+            change({ kind: 'MOVED', property: 'parent', oldValue: to, newValue: from }),
+        ]);
+        expect(merged).toEqual([]);
+    });
+});
+
+describe('DigestRunner', () => {
+    let store: Store;
+    let sent: Notification[];
+    let runner: (group?: 'file' | 'team') => DigestRunner;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        store = new Store(':memory:');
+        sent = [];
+
+        const ai = { generateChangelog: async (_name: string, changes: DesignChange[]) => `${changes.length} değişiklik` } as unknown as AIChangelog;
+        const notifier = { send: async (n: Notification) => { sent.push(n); } } as unknown as Notifier;
+        runner = group => new DigestRunner({ store, ai, notifier }, { group });
+
+        for (const fileKey of ['A', 'B']) {
+            store.trackFile(fileKey);
+            store.saveSnapshot(fileKey, 'v1', `File ${fileKey}`, '', '{"pages":[]}');
+            store.saveSnapshot(fileKey, 'v2', `File ${fileKey}`, '', '{"pages":[]}');
+            store.saveChangeSet({
+                fileKey, fileName: `File ${fileKey}`, fromVersion: 'v1', toVersion: 'v2', author: 'ayse',
+                changes: [change({ oldValue: '#3366E6', newValue: '#00AA00' })],
+            });
+            store.saveChangeSet({
+                fileKey, fileName: `File ${fileKey}`, fromVersion: 'v2', toVersion: 'v3', author: 'mehmet',
+                changes: [change({ oldValue: '#00AA00', newValue: '#FF0000' })],
+            });
+        }
+        store.saveChangeSet({
+            fileKey: 'B', fileName: 'File B', fromVersion: 'v3', toVersion: 'v4',
+            changes: [change({ oldValue: '#FF0000', newValue: '#3366E6' })],
+        });
+    });
+
+    afterEach(() => {
+        store.close();
+        vi.restoreAllMocks();
+    });
+
+    it('sends one merged notification per file with changes', async () => {
+        const results = await runner().run(new Date(Date.now() + 60_000));
+
+        expect(results).toEqual([
+            { fileKey: 'A', changeCount: 1, mergedCount: 1 },
+            { fileKey: 'B', changeCount: 0, mergedCount: 3 },
+        ]);
+        expect(sent).toHaveLength(1);
+        expect(sent[0].fileName).toBe('File A — özet');
+        expect(sent[0].author?.name).toBe('ayse, mehmet');
+        expect(sent[0].changes[0].summary).toBe('fills: #3366E6 → #FF0000');
+    });
+
+    it('groups every file into one message in team mode', async () => {
+        store.saveChangeSet({
+            fileKey: 'B', fileName: 'File B', fromVersion: 'v4', toVersion: 'v5',
+            changes: [change({ page: 'Settings', nodeId: '2:1', oldValue: 'a', newValue: 'b' })],
+        });
+
+        await runner('team').run(new Date(Date.now() + 60_000));
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].fileName).toBe('Özet — 2 dosya');
+        expect(sent[0].changes.map(c => `${c.fileKey} ${c.page}`)).toEqual(['A File A / Home', 'B File B / Settings']);
+    });
+
+    it('only covers changes recorded since the last digest', async () => {
+        const until = new Date(Date.now() + 60_000);
+        await runner().run(until);
+        sent = [];
+
+        const results = await runner().run(new Date(until.getTime() + 60_000));
+
+        expect(sent).toEqual([]);
+        expect(results.every(r => r.changeCount === 0)).toBe(true);
+        expect(store.getTrackedFile('A')?.lastDigestAt).toBeDefined();
+    });
+
+    it('puts a change recorded on a window boundary into only one digest', async () => {
+        const until = new Date(Math.floor(Date.now() / 1000) * 1000 + 60_000);
+        store.saveChangeSet({
+            fileKey: 'A', fileName: 'File A', fromVersion: 'v3', toVersion: 'v4', createdAt: until,
+            changes: [change({ nodeId: '5:1', oldValue: 'a', newValue: 'b' })],
+        });
+
+        await runner().run(until);
+        await runner().run(new Date(until.getTime() + 60_000));
+
+        const boundary = sent.flatMap(n => n.changes).filter(c => c.nodeId === '5:1');
+        expect(boundary).toHaveLength(1);
+    });
+});
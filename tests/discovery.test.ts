@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProjectDiscovery } from '../src/discovery.js';
+import { Store } from '../src/store.js';
+import type { FigmaProjectFile } from '../src/figma-client.js';
+
+function file(key: string): FigmaProjectFile {
+    return { key, name: `File ${key}`, last_modified: '2026-10-01T10:00:00Z' };
+}
+
+describe('ProjectDiscovery', () => {
+    let store: Store;
+    // Team T1 has projects P1 and P2; P3 is watched on its own
+    let teams: Record<string, string[]>;
+    let projects: Record<string, FigmaProjectFile[]>;
+    let failing: Set<string>;
+
+    const figma = {
+        getTeamProjects: async (teamId: string) => {
+            if (failing.has(teamId)) throw new Error('Figma API error 403');
+            return { name: teamId, projects: (teams[teamId] ?? []).map(id => ({ id, name: id })) };
+        },
+        getProjectFiles: async (projectId: string) => {
+            if (failing.has(projectId)) throw new Error('Figma API error 429');
+            return { name: projectId, files: projects[projectId] ?? [] };
+        },
+    };
+
+    const discovery = (teamIds = ['T1'], projectIds = ['P3']) =>
+        new ProjectDiscovery({ figma, store }, { teamIds, projectIds });
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        store = new Store(':memory:');
+        teams = { T1: ['P1', 'P2'] };
+        projects = { P1: [file('A'), file('B')], P2: [file('C')], P3: [file('D')] };
+        failing = new Set();
+    });
+
+    afterEach(() => {
+        store.close();
+        vi.restoreAllMocks();
+    });
+
+    it('tracks every file of the watched teams and projects', async () => {
+        const result = await discovery().run();
+
+        expect(result).toMatchObject({ projects: 3, files: 4, removed: [] });
+        expect(result.added.sort()).toEqual(['A', 'B', 'C', 'D']);
+        expect(store.getTrackedFileKeys().sort()).toEqual(['A', 'B', 'C', 'D']);
+        expect(store.getTrackedFile('C')?.projectId).toBe('P2');
+        // Nothing new the second time
+        expect((await discovery().run()).added).toEqual([]);
+    });
+
+    it('stops tracking files that left their project and keeps their history', async () => {
+        await discovery().run();
+        store.saveSnapshot('B', 'v1', 'File B', '', '{}');
+        projects.P1 = [file('A')];
+
+        const result = await discovery().run();
+
+        expect(result.removed).toEqual(['B']);
+        expect(store.isTracked('B')).toBe(false);
+        expect(store.getLatestSnapshot('B')?.version).toBe('v1');
+    });
+
+    it('tracks a file again when it is restored', async () => {
+        await discovery().run();
+        projects.P1 = [file('A')];
+        await discovery().run();
+        projects.P1 = [file('A'), file('B')];
+
+        expect((await discovery().run()).added).toEqual(['B']);
+        expect(store.isTracked('B')).toBe(true);
+    });
+
+    it('follows a file moved between watched projects', async () => {
+        await discovery().run();
+        projects.P1 = [file('A')];
+        projects.P2 = [file('C'), file('B')];
+
+        const result = await discovery().run();
+
+        expect(result).toMatchObject({ added: [], removed: [] });
+        expect(store.getTrackedFile('B')?.projectId).toBe('P2');
+    });
+
+    it('leaves files alone when their project or team cannot be listed', async () => {
+        await discovery().run();
+        failing.add('P1');
+        expect((await discovery().run()).removed).toEqual([]);
+
+        failing = new Set(['T1']);
+        expect((await discovery().run()).removed).toEqual([]);
+        expect(store.getTrackedFileKeys().sort()).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    it('stops tracking files of a project that is no longer watched', async () => {
+        await discovery().run();
+
+        const result = await discovery(['T1'], []).run();
+
+        expect(result.removed).toEqual(['D']);
+    });
+
+    it('keeps a file tracked explicitly when it leaves its project', async () => {
+        store.seedTrackedFiles(['A']);
+        await discovery().run();
+        expect(store.getTrackedFile('A')?.projectId).toBeUndefined();
+        projects.P1 = [file('B')];
+
+        const result = await discovery().run();
+
+        expect(result.removed).toEqual([]);
+        expect(store.isTracked('A')).toBe(true);
+    });
+
+    it('does not bring back a file removed by hand, nor drop one added by hand', async () => {
+        store.trackFile('MANUAL');
+        await discovery().run();
+        store.untrackFile('A');
+
+        const result = await discovery().run();
+
+        expect(result).toMatchObject({ added: [], removed: [] });
+        expect(store.isTracked('A')).toBe(false);
+        expect(store.isTracked('MANUAL')).toBe(true);
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { FigmaClient } from '../src/figma-client.js';
+import { FigmaAuth, OAuthStateError, type FigmaOAuthApp } from '../src/figma-auth.js';
+import { OAuthRouter } from '../src/oauth.js';
+import { Store } from '../src/store.js';
+import { startFigmaStub, type FigmaStub, type StubRoute } from './helpers.js';
+
+const APP: FigmaOAuthApp = {
+    clientId: 'client',
+    clientSecret: 'secret',
+    redirectUri: 'http://localhost:3100/oauth/callback',
+    scopes: ['file_content:read', 'file_versions:read'],
+};
+
+interface StubState {
+    /** Access tokens the stub accepts */
+    valid: Set<string>;
+    /** Auth header of every /files request */
+    fileAuth: string[];
+    refreshes: number;
+}
+
+// OAuth, /me and /files endpoints
+function figmaRoutes(state: StubState): StubRoute {
+    return (req, res, url) => {
+        const send = (status: number, data: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(data));
+        };
+
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const form = new URLSearchParams(body);
+            const clientAuth = `Basic ${Buffer.from('client:secret').toString('base64')}`;
+
+            if (url.pathname === '/v1/oauth/token') {
+                if (req.headers.authorization !== clientAuth || form.get('code') !== 'good-code') return send(400, { error: 'invalid_grant' });
+                state.valid.add('access-1');
+                return send(200, { user_id_string: '42', access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 7776000 });
+            }
+            if (url.pathname === '/v1/oauth/refresh') {
+                if (req.headers.authorization !== clientAuth || form.get('refresh_token') !== 'refresh-1') return send(400, { error: 'invalid_grant' });
+                state.refreshes++;
+                const token = `access-r${state.refreshes}`;
+                state.valid.add(token);
+                return send(200, { access_token: token, expires_in: 7776000 });
+            }
+            if (url.pathname === '/v1/me') {
+                return send(200, { id: '42', handle: 'ayse', email: 'ayse@example.com' });
+            }
+            if (url.pathname === '/v1/files/FILE') {
+                const auth = req.headers.authorization ?? `pat:${req.headers['x-figma-token']}`;
+                state.fileAuth.push(auth);
+                const ok = auth === 'pat:pat-token' || state.valid.has(auth.replace('Bearer ', ''));
+                if (!ok) return send(403, { status: 403, err: 'Invalid token' });
+                return send(200, { name: 'Sample', version: 'v1', lastModified: '2024-01-01T00:00:00Z' });
+            }
+            send(404, {});
+        });
+    };
+}
+
+describe('FigmaAuth', () => {
+    let stub: FigmaStub;
+    let baseUrl: string;
+    let store: Store;
+    let state: StubState;
+    const HOUR = 3_600_000;
+
+    beforeAll(async () => {
+        state = { valid: new Set(), fileAuth: [], refreshes: 0 };
+        stub = await startFigmaStub(figmaRoutes(state));
+        baseUrl = `${stub.origin}/v1`;
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        store = new Store(':memory:');
+        state.valid = new Set(['access-1']);
+        state.fileAuth = [];
+        state.refreshes = 0;
+    });
+
+    afterEach(() => {
+        store.close();
+    });
+
+    function connectAccount(userId: string, handle: string, expiresAt = Date.now() + HOUR): void {
+        store.saveOAuthAccount({ userId, handle, accessToken: 'access-1', refreshToken: 'refresh-1', expiresAt });
+    }
+
+    it('builds a consent URL with a one-time state', () => {
+        const auth = new FigmaAuth(store, { oauth: APP, apiBaseUrl: baseUrl });
+        const url = new URL(auth.authorizeUrl());
+
+        expect(url.origin + url.pathname).toBe('https://www.figma.com/oauth');
+        expect(url.searchParams.get('client_id')).toBe('client');
+        expect(url.searchParams.get('redirect_uri')).toBe(APP.redirectUri);
+        expect(url.searchParams.get('scope')).toBe('file_content:read,file_versions:read');
+        expect(url.searchParams.get('state')).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('exchanges the code and stores the account', async () => {
+        const auth = new FigmaAuth(store, { oauth: APP, apiBaseUrl: baseUrl });
+        const stateParam = new URL(auth.authorizeUrl()).searchParams.get('state')!;
+
+        const account = await auth.connect('good-code', stateParam);
+
+        expect(account).toMatchObject({ userId: '42', handle: 'ayse', email: 'ayse@example.com', accessToken: 'access-1', refreshToken: 'refresh-1' });
+        expect(store.listOAuthAccounts().map(a => a.userId)).toEqual(['42']);
+        // A state is only good once
+        await expect(auth.connect('good-code', stateParam)).rejects.toBeInstanceOf(OAuthStateError);
+    });
+
+    it('rejects a callback with a state it never handed out', async () => {
+        const auth = new FigmaAuth(store, { oauth: APP, apiBaseUrl: baseUrl });
+        await expect(auth.connect('good-code', 'forged')).rejects.toBeInstanceOf(OAuthStateError);
+        expect(store.listOAuthAccounts()).toEqual([]);
+    });
+
+    it('uses the file account, then the personal token, then the default account', async () => {
+        connectAccount('42', 'ayse');
+        const withToken = new FigmaAuth(store, { token: 'pat-token', oauth: APP, apiBaseUrl: baseUrl });
+        const withoutToken = new FigmaAuth(store, { oauth: { ...APP, defaultAccount: '42' }, apiBaseUrl: baseUrl });
+        const client = new FigmaClient(withToken, baseUrl);
+
+        await client.getFileMetadata('FILE');
+        await withToken.withAccount('99', () => client.getFileMetadata('FILE'));
+        await withToken.withAccount('42', () => client.getFileMetadata('FILE'));
+        await new FigmaClient(withoutToken, baseUrl).getFileMetadata('FILE');
+
+        // '99' was never connected
+        expect(state.fileAuth).toEqual(['pat:pat-token', 'pat:pat-token', 'Bearer access-1', 'Bearer access-1']);
+    });
+
+    it('ignores connected accounts without an OAuth app', async () => {
+        connectAccount('42', 'ayse');
+        const auth = new FigmaAuth(store, { token: 'pat-token', apiBaseUrl: baseUrl });
+
+        await auth.withAccount('42', () => new FigmaClient(auth, baseUrl).getFileMetadata('FILE'));
+
+        expect(state.fileAuth).toEqual(['pat:pat-token']);
+        expect(auth.oauthEnabled).toBe(false);
+    });
+
+    it('refreshes an access token that is about to expire', async () => {
+        connectAccount('42', 'ayse', Date.now() + 60_000);
+        const auth = new FigmaAuth(store, { oauth: { ...APP, defaultAccount: '42' }, apiBaseUrl: baseUrl });
+
+        await new FigmaClient(auth, baseUrl).getFileMetadata('FILE');
+
+        expect(state.fileAuth).toEqual(['Bearer access-r1']);
+        expect(store.getOAuthAccount('42')).toMatchObject({ accessToken: 'access-r1', refreshToken: 'refresh-1' });
+        expect(store.getOAuthAccount('42')!.expiresAt).toBeGreaterThan(Date.now() + HOUR);
+    });
+
+    it('refreshes once and retries when Figma rejects the access token', async () => {
+        connectAccount('42', 'ayse');
+        state.valid.clear();
+        const auth = new FigmaAuth(store, { oauth: { ...APP, defaultAccount: '42' }, apiBaseUrl: baseUrl });
+
+        const metadata = await new FigmaClient(auth, baseUrl).getFileMetadata('FILE');
+
+        expect(metadata.version).toBe('v1');
+        expect(state.fileAuth).toEqual(['Bearer access-1', 'Bearer access-r1']);
+        expect(state.refreshes).toBe(1);
+    });
+
+    it('fails without any credentials', async () => {
+        const auth = new FigmaAuth(store, { oauth: APP, apiBaseUrl: baseUrl });
+        await expect(new FigmaClient(auth, baseUrl).getFileMetadata('FILE')).rejects.toThrow(/No Figma credentials/);
+    });
+
+    it('never falls back to an account just because it was connected', async () => {
+        connectAccount('666', 'stranger');
+        const auth = new FigmaAuth(store, { oauth: { ...APP, defaultAccount: '42' }, apiBaseUrl: baseUrl });
+
+        await expect(new FigmaClient(auth, baseUrl).getFileMetadata('FILE')).rejects.toThrow(/No Figma credentials/);
+        expect(state.fileAuth).toEqual([]);
+    });
+
+    it('forgets the account of files when it is disconnected', () => {
+        connectAccount('42', 'ayse');
+        store.trackFile('FILE');
+        store.setAccount('FILE', '42');
+
+        expect(store.removeOAuthAccount('42')).toBe(true);
+        expect(store.getTrackedFile('FILE')?.account).toBeUndefined();
+        expect(store.removeOAuthAccount('42')).toBe(false);
+    });
+});
+
+describe('OAuthRouter', () => {
+    let server: http.Server;
+    let figma: FigmaStub;
+    let baseUrl: string;
+    let store: Store;
+
+    beforeEach(async () => {
+        figma = await startFigmaStub(figmaRoutes({ valid: new Set(), fileAuth: [], refreshes: 0 }));
+        store = new Store(':memory:');
+        const router = new OAuthRouter(new FigmaAuth(store, {
+            oauth: APP,
+            apiBaseUrl: `${figma.origin}/v1`,
+        }));
+
+        server = http.createServer(async (req, res) => {
+            if (!(await router.handle(req, res))) {
+                res.writeHead(404);
+                res.end('Not Found');
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await figma.close();
+        store.close();
+    });
+
+    it('connects an account through start and callback', async () => {
+        const start = await fetch(`${baseUrl}/oauth/start`, { redirect: 'manual' });
+        expect(start.status).toBe(302);
+        const stateParam = new URL(start.headers.get('location')!).searchParams.get('state')!;
+
+        const callback = await fetch(`${baseUrl}/oauth/callback?code=good-code&state=${stateParam}`);
+
+        expect(callback.status).toBe(200);
+        expect(await callback.text()).toContain('ayse');
+        expect(store.getOAuthAccount('42')?.handle).toBe('ayse');
+    });
+
+    it('rejects denied, forged and failed callbacks', async () => {
+        expect((await fetch(`${baseUrl}/oauth/callback?error=access_denied`)).status).toBe(400);
+        expect((await fetch(`${baseUrl}/oauth/callback?code=good-code&state=forged`)).status).toBe(400);
+
+        const start = await fetch(`${baseUrl}/oauth/start`, { redirect: 'manual' });
+        const stateParam = new URL(start.headers.get('location')!).searchParams.get('state')!;
+        expect((await fetch(`${baseUrl}/oauth/callback?code=bad-code&state=${stateParam}`)).status).toBe(502);
+        expect(store.listOAuthAccounts()).toEqual([]);
+    });
+
+    it('is not served without an OAuth app', async () => {
+        const router = new OAuthRouter(new FigmaAuth(store, { token: 'pat-token' }));
+        const res = { writeHead: () => res, end: () => res } as unknown as http.ServerResponse;
+        const req = { method: 'GET', url: '/oauth/start' } as http.IncomingMessage;
+
+        expect(await router.handle(req, res)).toBe(false);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FigmaClient } from '../src/figma-client.js';
+import { FigmaCache } from '../src/figma-cache.js';
+import { startFigmaStub, type FigmaStub, type StubRoute } from './helpers.js';
+
+interface StubRequest {
+    path: string;
+    ifNoneMatch?: string;
+}
+
+// The current file is "v2" with ETag "v2"
+function figmaRoutes(requests: StubRequest[]): StubRoute {
+    return (req, res, url) => {
+        requests.push({ path: url.pathname + url.search, ifNoneMatch: req.headers['if-none-match'] });
+
+        if (url.pathname !== '/v1/files/FILE') {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+        const version = url.searchParams.get('version') ?? 'v2';
+        if (!url.searchParams.has('version') && req.headers['if-none-match'] === '"v2"') {
+            res.writeHead(304);
+            res.end();
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v2"' });
+        res.end(JSON.stringify({ name: 'Sample', version, lastModified: '2024-01-01T00:00:00Z', document: { id: '0:0', name: 'Document', type: 'DOCUMENT' } }));
+    };
+}
+
+describe('FigmaCache', () => {
+    let stub: FigmaStub;
+    let baseUrl: string;
+    let dir: string;
+    const requests: StubRequest[] = [];
+
+    beforeAll(async () => {
+        stub = await startFigmaStub(figmaRoutes(requests));
+        baseUrl = `${stub.origin}/v1`;
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'figma-cache-'));
+        requests.length = 0;
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function client(cache = new FigmaCache(dir)): FigmaClient {
+        return new FigmaClient('token', baseUrl, { cache });
+    }
+
+    it('serves a pinned version from disk without a request', async () => {
+        const first = await client().getFile('FILE', 'v1');
+        const second = await client().getFile('FILE', 'v1');
+
+        expect(second).toEqual(first);
+        expect(second.version).toBe('v1');
+        expect(requests).toHaveLength(1);
+    });
+
+    it('revalidates the latest state and reuses the body on 304', async () => {
+        const figma = client();
+        const first = await figma.getFile('FILE');
+        const second = await figma.getFile('FILE');
+
+        expect(second).toEqual(first);
+        expect(requests.map(r => r.ifNoneMatch)).toEqual([undefined, '"v2"']);
+    });
+
+    it('files a full response under the version it reports', async () => {
+        await client().getFile('FILE');
+        const pinned = await client().getFile('FILE', 'v2');
+
+        expect(pinned.version).toBe('v2');
+        expect(requests).toHaveLength(1);
+    });
+
+    it('does not cache paths outside /files', () => {
+        const cache = new FigmaCache(dir);
+        cache.write('/images/FILE?ids=1:1&version=v1', '{"images":{}}');
+
+        expect(cache.read('/images/FILE?ids=1:1&version=v1')).toBeUndefined();
+        expect(existsSync(join(dir, 'FILE'))).toBe(false);
+    });
+
+    it('keys node requests by their IDs, ignoring parameter order', () => {
+        const cache = new FigmaCache(dir);
+        cache.write('/files/FILE/nodes?ids=0:1&version=v1', '{"nodes":{}}');
+
+        expect(cache.read('/files/FILE/nodes?version=v1&ids=0:1')).toEqual({ body: '{"nodes":{}}', immutable: true });
+        expect(cache.read('/files/FILE/nodes?ids=0:2&version=v1')).toBeUndefined();
+    });
+
+    it('keeps only the most recently written versions', () => {
+        const cache = new FigmaCache(dir, { maxVersionsPerFile: 2 });
+        ['v1', 'v2', 'v3'].forEach((version, i) => {
+            cache.write(`/files/FILE?version=${version}`, `{"version":"${version}"}`);
+            // Distinct mtimes regardless of filesystem timestamp resolution
+            const at = new Date(Date.UTC(2024, 0, 1 + i));
+            utimesSync(join(dir, 'FILE', version), at, at);
+        });
+        cache.write('/files/FILE?version=v4', '{"version":"v4"}');
+
+        expect(readdirSync(join(dir, 'FILE')).sort()).toEqual(['v3', 'v4']);
+        expect(cache.read('/files/FILE?version=v1')).toBeUndefined();
+    });
+});
@@ -0,0 +1,47 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { DesignChange } from '../src/differ.js';
+
+/**
+ * A fills change on the sample file's login button; override what the test cares about
+ */
+export function change(overrides: Partial<DesignChange> = {}): DesignChange {
+    return {
+        kind: 'MODIFIED', page: 'Home', pageId: '0:1', nodeId: '1:3',
+        path: 'Header / Login Button', property: 'fills', summary: 'fills changed',
+        ...overrides,
+    };
+}
+
+/**
+ * Deep copy of a Figma/filtered file with `modifications` applied to the copy
+ */
+export function cloneAndModify(obj: any, modifications: (clone: any) => void): any {
+    const clone = JSON.parse(JSON.stringify(obj));
+    modifications(clone);
+    return clone;
+}
+
+/** Answers one stub request; `origin` is where the stub itself listens */
+export type StubRoute = (req: http.IncomingMessage, res: http.ServerResponse, url: URL, origin: string) => void;
+
+export interface FigmaStub {
+    /** e.g. http://127.0.0.1:1234 — clients use `${origin}/v1` as their API base */
+    origin: string;
+    close(): Promise<void>;
+}
+
+/**
+ * Local stand-in for api.figma.com on a free loopback port; each test supplies its own routes
+ */
+export async function startFigmaStub(route: StubRoute): Promise<FigmaStub> {
+    let origin = '';
+    const server = http.createServer((req, res) => route(req, res, new URL(req.url!, 'http://localhost'), origin));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        origin,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
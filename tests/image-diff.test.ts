@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { PNG } from 'pngjs';
+import { compareImages } from '../src/image-diff.js';
+
+function png(width: number, height: number, paint: (x: number, y: number) => [number, number, number] = () => [255, 255, 255]): Buffer {
+    const image = new PNG({ width, height });
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const [r, g, b] = paint(x, y);
+            image.data[i] = r;
+            image.data[i + 1] = g;
+            image.data[i + 2] = b;
+            image.data[i + 3] = 255;
+        }
+    }
+    return PNG.sync.write(image);
+}
+
+describe('compareImages', () => {
+    it('scores identical renders as unchanged', () => {
+        const result = compareImages(png(10, 10), png(10, 10));
+        expect(result).toMatchObject({ changedPixels: 0, totalPixels: 100, percentChanged: 0 });
+    });
+
+    it('reports the changed share and highlights it in the overlay', () => {
+        const after = png(10, 10, (x, y) => x < 2 && y < 2 ? [0, 0, 0] : [255, 255, 255]);
+        const result = compareImages(png(10, 10), after);
+
+        expect(result.changedPixels).toBe(4);
+        expect(result.percentChanged).toBe(4);
+
+        const overlay = PNG.sync.read(result.overlay);
+        expect([overlay.data[0], overlay.data[1], overlay.data[2]]).toEqual([255, 0, 0]);
+        expect(overlay.data[(5 * 10 + 5) * 4 + 1]).toBeGreaterThan(200);
+    });
+
+    it('compares renders of different sizes on a shared canvas', () => {
+        const result = compareImages(png(10, 10), png(10, 20));
+        expect(result.totalPixels).toBe(200);
+        expect(result.percentChanged).toBe(50);
+    });
+});
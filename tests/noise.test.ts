@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { suppressNoise, suppressUnchangedFrames, loadNoiseRules, DEFAULT_NOISE_RULES } from '../src/noise.js';
+import type { DesignChange } from '../src/differ.js';
+import { change } from './helpers.js';
+
+function bounds(from: object, to: object): DesignChange {
+    return change({ property: 'bounds', oldValue: { x: 0, y: 0, w: 100, h: 40, ...from }, newValue: { x: 0, y: 0, w: 100, h: 40, ...to } });
+}
+
+describe('suppressNoise', () => {
+    it('drops bounds changes under the pixel threshold by default', () => {
+        const shift = bounds({}, { x: 2 });
+        const resize = bounds({}, { w: 120 });
+
+        const result = suppressNoise([shift, resize, change({})]);
+
+        expect(result.kept).toEqual([resize, change({})]);
+        expect(result.suppressed.bounds).toBe(1);
+        expect(result.suppressedCount).toBe(1);
+    });
+
+    it('keeps every change with an empty rule set', () => {
+        const changes = [bounds({}, { x: 1 }), change({ hidden: true })];
+        expect(suppressNoise(changes, {}).kept).toEqual(changes);
+    });
+
+    it('ignores pages, properties and hidden layers', () => {
+        const result = suppressNoise([
+            change({ page: '🚧 Scratch' }),
+            change({ page: 'Archive/2025' }),
+            change({ property: 'effects' }),
+            change({ hidden: true }),
+            change({ page: 'Checkout' }),
+        ], {
+            ignorePages: ['🚧 Scratch', 'archive/*'],
+            ignoreProperties: ['effects'],
+            ignoreHidden: true,
+        });
+
+        expect(result.kept.map(c => c.page)).toEqual(['Checkout']);
+        expect(result.suppressed).toEqual({ page: 2, property: 1, hidden: 1, bounds: 0 });
+        expect(result.suppressedCount).toBe(4);
+    });
+});
+
+describe('suppressUnchangedFrames', () => {
+    it('drops changes in frames whose render barely changed', () => {
+        const frameOf = (nodeId: string) => ({ '1:3': '1:1', '2:2': '2:1', '3:1': '3:1' } as Record<string, string>)[nodeId];
+        const scores = new Map([['1:1', 0.2], ['2:1', 4]]);
+
+        const result = suppressUnchangedFrames(
+            [change({ nodeId: '1:3' }), change({ nodeId: '2:2' }), change({ nodeId: '3:1' }), change({ nodeId: '9:9' })],
+            frameOf, scores, 0.5
+        );
+
+        expect(result.kept.map(c => c.nodeId)).toEqual(['2:2', '3:1', '9:9']);
+        expect(result.suppressedCount).toBe(1);
+        expect(result.frames).toEqual(['1:1']);
+    });
+});
+
+describe('loadNoiseRules', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    function rulesFile(content: unknown): string {
+        dir = mkdtempSync(join(tmpdir(), 'design-radar-noise-'));
+        const path = join(dir, 'rules.json');
+        writeFileSync(path, JSON.stringify(content));
+        return path;
+    }
+
+    it('uses the defaults without a rules file or noise section', () => {
+        expect(loadNoiseRules('/nonexistent/design-radar.rules.json')).toEqual(DEFAULT_NOISE_RULES);
+        expect(loadNoiseRules(rulesFile({ routes: [] }))).toEqual(DEFAULT_NOISE_RULES);
+    });
+
+    it('merges the noise section over the defaults', () => {
+        const rules = loadNoiseRules(rulesFile({ noise: { ignoreHidden: true, minBoundsDelta: 0 } }));
+        expect(rules).toEqual({ minBoundsDelta: 0, ignoreHidden: true });
+    });
+
+    it('rejects malformed sections', () => {
+        expect(() => loadNoiseRules(rulesFile({ noise: { ignorePages: '🚧 Scratch' } }))).toThrow('noise.ignorePages must be an array');
+        expect(() => loadNoiseRules(rulesFile({ noise: { minPixelChange: '0.5%' } }))).toThrow('noise.minPixelChange must be a number');
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { collectVersionNotes, collectComments, formatNotesForLLM } from '../src/notes.js';
+import type { FigmaComment, FigmaVersion } from '../src/figma-client.js';
+import { change } from './helpers.js';
+
+function version(id: string, created_at: string, label: string | null = null, description: string | null = null): FigmaVersion {
+    return { id, created_at, label, description, user: { handle: 'ayse', img_url: '' } };
+}
+
+function comment(overrides: Partial<FigmaComment>): FigmaComment {
+    return {
+        id: 'c1', message: 'Marka rengine geçtik', created_at: '2026-10-19T10:00:00Z', resolved_at: null,
+        user: { handle: 'ayse', img_url: '' }, client_meta: { node_id: '1:3' },
+        ...overrides,
+    };
+}
+
+describe('collectVersionNotes', () => {
+    const versions = [
+        version('v4', '2026-10-19T12:00:00Z'),
+        version('v3', '2026-10-19T11:00:00Z', 'Checkout v2', 'Ödeme adımı sadeleştirildi'),
+        version('v2', '2026-10-19T10:00:00Z', null, 'Renk düzeltmesi'),
+        version('v1', '2026-10-18T10:00:00Z', 'Eski etiket'),
+    ];
+
+    it('keeps named versions newer than the previous snapshot', () => {
+        const notes = collectVersionNotes(versions, 'v1');
+        expect(notes.map(n => n.id)).toEqual(['v3', 'v2']);
+        expect(notes[0]).toEqual({
+            id: 'v3', label: 'Checkout v2', description: 'Ödeme adımı sadeleştirildi',
+            author: 'ayse', createdAt: '2026-10-19T11:00:00Z',
+        });
+    });
+
+    it('stops at the previous snapshot date when its version is not listed', () => {
+        expect(collectVersionNotes(versions, 'gone', new Date('2026-10-19T10:30:00Z')).map(n => n.id)).toEqual(['v3']);
+    });
+});
+
+describe('collectComments', () => {
+    const changes = [change({}), change({ nodeId: '2:2', path: 'Hero / Title', page: 'Landing' })];
+    const frameOf = (nodeId: string) => ({ '1:3': '1:1', '2:2': '2:1' } as Record<string, string>)[nodeId];
+
+    it('attaches comments and replies pinned to changed nodes or their frame', () => {
+        const result = collectComments([
+            comment({}),
+            comment({ id: 'c2', parent_id: 'c1', client_meta: null, message: 'Onaylandı', created_at: '2026-10-19T10:05:00Z' }),
+            comment({ id: 'c3', client_meta: { node_id: '2:1' }, message: 'Başlık kısaldı' }),
+            comment({ id: 'c4', client_meta: { node_id: '9:9' } }),
+            comment({ id: 'c5', client_meta: { x: 10, y: 20 } }),
+        ], changes, frameOf);
+
+        expect(result.map(c => [c.id, c.path])).toEqual([
+            ['c1', 'Header / Login Button'],
+            ['c3', 'Hero / Title'],
+            ['c2', 'Header / Login Button'],
+        ]);
+    });
+
+    it('skips resolved threads unless commented on since the last version', () => {
+        const resolved = { resolved_at: '2026-10-19T11:00:00Z' };
+        const since = new Date('2026-10-19T09:00:00Z');
+
+        expect(collectComments([comment({ ...resolved, created_at: '2026-10-01T10:00:00Z' })], changes, frameOf, since)).toEqual([]);
+        expect(collectComments([comment(resolved)], changes, frameOf, since)[0].resolved).toBe(true);
+    });
+});
+
+describe('formatNotesForLLM', () => {
+    it('renders version notes and comments as prompt sections', () => {
+        const text = formatNotesForLLM({
+            versions: [{ id: 'v3', label: 'Checkout v2', description: 'Sadeleştirme', author: 'ayse', createdAt: '' }],
+            comments: [{ id: 'c1', nodeId: '1:3', path: 'Header / Login Button', page: 'Home', message: 'Marka\nrengi', author: 'ayse', createdAt: '', resolved: false }],
+        });
+
+        expect(text).toBe([
+            'Versiyon notları:',
+            '  🏷️ Checkout v2 — Sadeleştirme (ayse)',
+            '',
+            'Tasarımcı yorumları:',
+            '  💬 [Home] Header / Login Button — ayse: Marka rengi',
+        ].join('\n'));
+        expect(formatNotesForLLM({})).toBe('');
+    });
+});
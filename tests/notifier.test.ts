@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Notifier, TerminalSink, createSinks } from '../src/notifier.js';
+import { createNotification, type Notification, type NotificationSink } from '../src/notification.js';
+import { renderMarkdown } from '../src/mattermost.js';
+import type { NotificationRouter } from '../src/routing.js';
+
+const notification = createNotification({
+    fileKey: 'FILE',
+    fileName: 'Checkout',
+    version: 'v2',
+    author: { name: 'ayse', date: '2026-10-19' },
+    changelog: '• Ödeme butonu yeşil oldu',
+    changes: [{
+        kind: 'MODIFIED', page: 'Payment', pageId: '0:1', nodeId: '1:3',
+        path: 'Footer / Pay Button', property: 'fills', summary: 'fills: #3366E6 → #00AA00',
+    }],
+    tokenChanges: [{
+        kind: 'CHANGED', category: 'color', oldValue: '#3366E6', newValue: '#00AA00', usage: 1,
+        summary: 'color #3366E6 → #00AA00 (1 node)',
+    }],
+});
+
+function recordingSink(name: string, fail = false): NotificationSink & { received: Notification[] } {
+    const received: Notification[] = [];
+    return {
+        name,
+        received,
+        async send(n) {
+            if (fail) throw new Error(`${name} down`);
+            received.push(n);
+        },
+    };
+}
+
+describe('createNotification', () => {
+    it('adds file and per-page Figma links', () => {
+        expect(notification.links).toEqual({
+            file: 'https://www.figma.com/design/FILE',
+            pages: [{ page: 'Payment', pageId: '0:1', url: 'https://www.figma.com/design/FILE?node-id=0-1', changeCount: 1 }],
+        });
+    });
+});
+
+describe('Notifier', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('delivers to every sink even when one of them fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        const a = recordingSink('A');
+        const b = recordingSink('B', true);
+        const c = recordingSink('C');
+
+        await new Notifier([a, b, c]).send(notification);
+
+        expect(a.received).toEqual([notification]);
+        expect(c.received).toEqual([notification]);
+        expect(console.warn).toHaveBeenCalledWith('⚠️ B gönderilemedi:', 'B down');
+    });
+
+    it('falls back to the terminal when every sink fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const log = vi.spyOn(console, 'log').mockImplementation(() => { });
+
+        await new Notifier([recordingSink('A', true)]).send(notification);
+
+        expect(log.mock.calls.flat().join('\n')).toContain('Footer / Pay Button: fills: #3366E6 → #00AA00');
+    });
+
+    it('prints a routed notification to the terminal when only its sink fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const log = vi.spyOn(console, 'log').mockImplementation(() => { });
+        const ok = recordingSink('OK');
+        const down = recordingSink('DOWN', true);
+        const routed = { ...notification, fileName: 'Routed' };
+        const router = {
+            resolve: () => [{ sinks: [ok], notification }, { sinks: [down, recordingSink('DOWN2', true)], notification: routed }],
+        } as unknown as NotificationRouter;
+
+        await new Notifier([ok, down], router).send(notification);
+
+        expect(ok.received).toEqual([notification]);
+        const printed = log.mock.calls.flat().join('\n');
+        expect(printed.match(/🎯 DesignRadar — Routed/g)).toHaveLength(1);
+        expect(printed).not.toContain('🎯 DesignRadar — Checkout');
+    });
+
+    it('delivers to the default sinks when routing fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const a = recordingSink('A');
+        const router = { resolve: () => { throw new TypeError('Invalid URL'); } } as unknown as NotificationRouter;
+
+        await new Notifier([a], router).send(notification);
+
+        expect(a.received).toEqual([notification]);
+    });
+
+    it('does not print again what a terminal sink already showed', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const log = vi.spyOn(console, 'log').mockImplementation(() => { });
+
+        await new Notifier([new TerminalSink(), recordingSink('A', true)]).send(notification);
+
+        expect(log.mock.calls.flat().join('\n').match(/🎯 DesignRadar — Checkout/g)).toHaveLength(1);
+    });
+});
+
+describe('createSinks', () => {
+    it('builds one sink per configured type', () => {
+        const sinks = createSinks({
+            sinks: ['terminal', 'mattermost', 'json'],
+            mattermostWebhookUrl: 'https://mm.example.com/hooks/x',
+            jsonWebhookUrl: 'https://example.com/hook',
+        });
+        expect(sinks.map(s => s.name)).toEqual(['Terminal', 'Mattermost', 'JSON webhook']);
+        expect(sinks[0]).toBeInstanceOf(TerminalSink);
+    });
+
+    it('requires a webhook URL for remote sinks', () => {
+        expect(() => createSinks({ sinks: ['slack'] })).toThrow('SLACK_WEBHOOK_URL');
+    });
+});
+
+describe('renderMarkdown', () => {
+    it('renders author, AI summary, token changes and page links', () => {
+        const md = renderMarkdown(notification);
+        expect(md).toContain('👤 **ayse** — 2026-10-19');
+        expect(md).toContain('📂 1 sayfa, 1 değişiklik');
+        expect(md).toContain('🎨 **Token Değişiklikleri:**');
+        expect(md).toContain('📄 [Payment](https://www.figma.com/design/FILE?node-id=0-1) — 1 değişiklik');
+    });
+
+    it('shows version notes and designer comments', () => {
+        const md = renderMarkdown({
+            ...notification,
+            versions: [{ id: 'v2', label: 'Checkout v2', description: 'Ödeme sadeleşti', author: 'ayse', createdAt: '' }],
+            comments: [{
+                id: 'c1', nodeId: '1:3', path: 'Footer / Pay Button', page: 'Payment',
+                message: 'Yeşil daha güven verici', author: 'mehmet', createdAt: '', resolved: false,
+            }],
+        });
+        expect(md).toContain('🏷️ **Checkout v2** — Ödeme sadeleşti');
+        expect(md).toContain('  • _Footer / Pay Button_ — **mehmet**: Yeşil daha güven verici');
+    });
+});
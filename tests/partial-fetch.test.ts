@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PartialFetcher, pageHash } from '../src/partial-fetch.js';
+import { Store } from '../src/store.js';
+import { filterFile, toToon } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+
+// The sample's page plus two copies with their own IDs
+function threePageFile(version: string): any {
+    const file = JSON.parse(JSON.stringify(figmaSample));
+    file.version = version;
+    const [home] = file.document.children;
+    for (const prefix of ['a', 'b']) {
+        const copy = JSON.parse(JSON.stringify(home).replace(/"id":"(\d+:\d+)"/g, `"id":"${prefix}$1"`));
+        copy.name = `Copy ${prefix}`;
+        file.document.children.push(copy);
+    }
+    return file;
+}
+
+// ?depth=2: pages and top-level frames without their children
+function outlineOf(file: any): any {
+    const outline = JSON.parse(JSON.stringify(file));
+    for (const page of outline.document.children) {
+        for (const frame of page.children) delete frame.children;
+    }
+    return outline;
+}
+
+describe('pageHash', () => {
+    it('is the same for a full page and its outline', () => {
+        const file = threePageFile('v1');
+        expect(pageHash(outlineOf(file).document.children[0])).toBe(pageHash(file.document.children[0]));
+    });
+});
+
+describe('PartialFetcher', () => {
+    let store: Store;
+    let current: any;
+    let calls: string[];
+    let fetcher: PartialFetcher;
+
+    // What the pipeline does after a run: snapshot + hashes of the downloaded pages
+    async function run(version: string, modify: (file: any) => void = () => { }) {
+        current = threePageFile(version);
+        modify(current);
+        calls = [];
+        const outline = await fetcher.outline('FILE');
+        const result = await fetcher.fetch('FILE', outline, store.getLatestSnapshot('FILE'));
+        store.saveSnapshot('FILE', version, result.filtered.name, toToon(result.filtered), JSON.stringify(result.filtered));
+        store.savePageHashes('FILE', version, result.pages, result.filtered.pages.map(p => p.id));
+        return result;
+    }
+
+    beforeEach(() => {
+        store = new Store(':memory:');
+        const figma = {
+            getFile: async (_key: string, version?: string) => { calls.push(`file@${version}`); return current; },
+            getFileOutline: async () => { calls.push('outline'); return outlineOf(current); },
+            getNodes: async (_key: string, ids: string[], version?: string) => {
+                calls.push(`nodes:${ids.join(',')}@${version}`);
+                const pages = current.document.children;
+                return {
+                    name: current.name, lastModified: current.lastModified, version: current.version,
+                    nodes: Object.fromEntries(ids.map(id => [id, { document: pages.find((p: any) => p.id === id), components: {}, styles: {} }])),
+                };
+            },
+        };
+        fetcher = new PartialFetcher(figma, store, { rotatePages: 1 });
+    });
+
+    afterEach(() => {
+        store.close();
+    });
+
+    it('downloads the whole file once when there is nothing to carry over', async () => {
+        const result = await run('v1');
+
+        expect(calls).toEqual(['outline', 'file@v1']);
+        expect(result.pages.map(p => p.pageId)).toEqual(['0:1', 'a0:1', 'b0:1']);
+        expect(store.getPageHashes('FILE')).toHaveLength(3);
+    });
+
+    it('downloads changed pages plus the least recently verified one', async () => {
+        await run('v1');
+        const result = await run('v2', file => {
+            file.document.children[1].children[0].name = 'Renamed Header';
+        });
+
+        expect(calls).toEqual(['outline', 'nodes:a0:1,0:1@v2']);
+        expect(result.changedCount).toBe(1);
+        expect(result.filtered).toEqual(filterFile(current));
+    });
+
+    it('carries over pages it did not download', async () => {
+        await run('v1');
+        // Deep edit: the outline is unchanged, and the rotation picks 0:1 first
+        const result = await run('v2', file => {
+            file.document.children[2].children[0].children[0].name = 'Deep Rename';
+        });
+
+        expect(calls).toEqual(['outline', 'nodes:0:1@v2']);
+        expect(result.filtered.pages[2].children[0].children[0].name).toBe('Logo');
+    });
+
+    it('forgets pages that were deleted', async () => {
+        await run('v1');
+        const result = await run('v2', file => { file.document.children.pop(); });
+
+        expect(result.filtered.pages.map(p => p.id)).toEqual(['0:1', 'a0:1']);
+        expect(store.getPageHashes('FILE').map(h => h.pageId).sort()).toEqual(['0:1', 'a0:1']);
+    });
+});
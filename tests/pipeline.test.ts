@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChangePipeline, type PipelineContext } from '../src/pipeline.js';
+import { Store } from '../src/store.js';
+import type { Notification } from '../src/notification.js';
+import type { NoiseRules } from '../src/noise.js';
+import { PNG } from 'pngjs';
+import figmaSample from './fixtures/figma-sample.json';
+import { cloneAndModify } from './helpers.js';
+
+describe('ChangePipeline', () => {
+    let logRoot: string;
+    let store: Store;
+    let currentFile: any;
+    let sent: Notification[];
+    let requests: string[];
+    let pipeline: ChangePipeline;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        logRoot = mkdtempSync(join(tmpdir(), 'design-radar-'));
+        store = new Store(':memory:');
+        currentFile = figmaSample;
+        sent = [];
+        requests = [];
+
+        const figma = {
+            getFileMetadata: async () => { requests.push('metadata'); return { name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }; },
+            getFile: async () => { requests.push('file'); return currentFile; },
+            getFileVersions: async () => ({
+                versions: [{ id: 'v', created_at: '2026-02-17T15:00:00Z', label: '', description: '', user: { handle: 'ayse', img_url: '' } }],
+            }),
+            getComments: async () => ({ comments: [] }),
+        };
+        const ai = { generateChangelog: async () => '• Login butonu kırmızı oldu' };
+        const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+
+        pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, { logRoot });
+    });
+
+    afterEach(() => {
+        store.close();
+        rmSync(logRoot, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should save a baseline on first run without notifying', async () => {
+        const result = await pipeline.process('FILE');
+
+        expect(result).toEqual({ hasChanges: false, changeCount: 0, suppressedCount: 0 });
+        expect(sent).toHaveLength(0);
+        expect(store.getLastVersion('FILE')).toBe('v1');
+        expect(store.getLatestSnapshot('FILE')?.version).toBe('v1');
+    });
+
+    it('should diff against the previous snapshot and notify', async () => {
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v2';
+            f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+        });
+
+        const result = await pipeline.process('FILE');
+
+        expect(result.hasChanges).toBe(true);
+        expect(sent).toHaveLength(1);
+        expect(sent[0].author?.name).toBe('ayse');
+        expect(sent[0].changelog).toContain('Login butonu');
+        expect(sent[0].changes.map(c => c.property)).toContain('fills');
+        expect(sent[0].links.pages[0].url).toContain('https://www.figma.com/design/FILE?node-id=');
+        expect(store.getLastVersion('FILE')).toBe('v2');
+
+        const [changeSet] = store.listChangeSets('FILE');
+        expect(changeSet).toMatchObject({ fromVersion: 'v1', toVersion: 'v2', author: 'ayse', changelog: '• Login butonu kırmızı oldu' });
+        expect(store.queryChanges({ changeSetId: changeSet.id }).map(c => c.property)).toContain('fills');
+    });
+
+    it('should still track the version when nothing visible changed', async () => {
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => { f.version = 'v2'; });
+
+        const result = await pipeline.process('FILE');
+
+        expect(result.hasChanges).toBe(false);
+        expect(sent).toHaveLength(0);
+        expect(store.getLastVersion('FILE')).toBe('v2');
+    });
+
+    it('should count but not send changes suppressed as noise', async () => {
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v2';
+            f.document.children[0].children[0].children[1].absoluteBoundingBox.x += 1;
+        });
+
+        const result = await pipeline.process('FILE');
+
+        expect(result).toEqual({ hasChanges: false, changeCount: 0, suppressedCount: 1 });
+        expect(sent).toHaveLength(0);
+        expect(store.getLastVersion('FILE')).toBe('v2');
+        expect(store.listChangeSets('FILE')).toHaveLength(0);
+    });
+
+    it('should pass version notes and comments on changed nodes to the changelog', async () => {
+        const prompts: unknown[] = [];
+        const user = { handle: 'ayse', img_url: '' };
+        const figma = {
+            getFileMetadata: async () => ({ name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }),
+            getFile: async () => currentFile,
+            getFileVersions: async () => ({
+                versions: [
+                    { id: 'v2', created_at: new Date(Date.now() + 60_000).toISOString(), label: 'Login yenilendi', description: 'Marka rengi', user },
+                    { id: 'v1', created_at: '2026-02-17T15:00:00Z', label: 'Baseline', description: null, user },
+                ],
+            }),
+            getComments: async () => ({
+                comments: [
+                    { id: 'c1', message: 'Kırmızı daha görünür', created_at: '2026-02-17T15:00:00Z', resolved_at: null, user, client_meta: { node_id: '1:3' } },
+                    { id: 'c2', message: 'Başka bir yer', created_at: '2026-02-17T15:00:00Z', resolved_at: null, user, client_meta: { node_id: '2:2' } },
+                ],
+            }),
+        };
+        const ai = { generateChangelog: async (...args: unknown[]) => { prompts.push(args[2]); return '• Login'; } };
+        const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+        pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, { logRoot });
+
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v2';
+            f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+        });
+        await pipeline.process('FILE');
+
+        expect(sent[0].versions?.map(v => v.label)).toEqual(['Login yenilendi']);
+        expect(sent[0].comments?.map(c => [c.message, c.path])).toEqual([['Kırmızı daha görünür', 'Header / Login Button']]);
+        expect(prompts[0]).toEqual({ versions: sent[0].versions, comments: sent[0].comments });
+    });
+
+    it('should credit changes to each author when several versions landed', async () => {
+        const later = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+        const versions = [
+            { id: 'v3', created_at: later(2), label: null, description: null, user: { handle: 'mehmet', img_url: '' } },
+            { id: 'v2', created_at: later(1), label: null, description: null, user: { handle: 'ayse', img_url: '' } },
+            { id: 'v1', created_at: '2026-02-17T15:00:00Z', label: null, description: null, user: { handle: 'ayse', img_url: '' } },
+        ];
+        const redButton = (f: any) => { f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 }; };
+        const v2 = cloneAndModify(figmaSample, (f) => { f.version = 'v2'; redButton(f); });
+        const pagesRequested: unknown[] = [];
+        const figma = {
+            getFileMetadata: async () => ({ name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }),
+            getFile: async (_key: string, version?: string) => version === 'v2' ? v2 : currentFile,
+            // Two per page, so the stored version is only found on the second one
+            getFileVersions: async (_key: string, options: { before?: string } = {}) => {
+                pagesRequested.push(options.before);
+                return { versions: options.before ? versions.slice(2) : versions.slice(0, 2) };
+            },
+            getComments: async () => ({ comments: [] }),
+        };
+        const prompts: unknown[] = [];
+        const ai = { generateChangelog: async (...args: unknown[]) => { prompts.push(args[1]); return '• Login'; } };
+        const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+        pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, { logRoot });
+
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v3';
+            redButton(f);
+            f.document.children[0].children[0].children[0].name = 'Brand Logo';
+        });
+        pagesRequested.length = 0;
+        await pipeline.process('FILE');
+
+        expect(pagesRequested).toEqual([undefined, 'v2']);
+        expect(sent[0].author?.name).toBe('mehmet, ayse');
+        expect(sent[0].contributors?.map(c => c.name)).toEqual(['mehmet', 'ayse']);
+        expect(Object.fromEntries(sent[0].changes.map(c => [c.property, c.author]))).toEqual({ fills: 'ayse', name: 'mehmet' });
+        expect((prompts[0] as any[]).find(c => c.property === 'name').author).toBe('mehmet');
+
+        const [changeSet] = store.listChangeSets('FILE');
+        expect(store.queryChanges({ changeSetId: changeSet.id }).map(c => c.author).sort()).toEqual(['ayse', 'mehmet']);
+        expect(changeSet.author).toBeUndefined();
+        expect(store.queryChanges({ author: 'ayse' }).map(c => c.property)).toEqual(['fills']);
+    });
+
+    it('should not store the joined contributor list as an author', async () => {
+        const later = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+        const figma = {
+            getFileMetadata: async () => ({ name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }),
+            getFile: async () => currentFile,
+            getFileVersions: async () => ({
+                versions: [
+                    { id: 'v3', created_at: later(2), label: null, description: null, user: { handle: 'mehmet', img_url: '' } },
+                    { id: 'v2', created_at: later(1), label: null, description: null, user: { handle: 'ayse', img_url: '' } },
+                    { id: 'v1', created_at: '2026-02-17T15:00:00Z', label: null, description: null, user: { handle: 'ayse', img_url: '' } },
+                ],
+            }),
+            getComments: async () => ({ comments: [] }),
+        };
+        const ai = { generateChangelog: async () => '• Login' };
+        const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+        // Attribution off: no change can be credited to one person
+        pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, { logRoot, attributionMaxVersions: 0 });
+
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v3';
+            f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+        });
+        await pipeline.process('FILE');
+
+        expect(sent[0].author?.name).toBe('mehmet, ayse');
+        expect(store.listChangeSets('FILE')[0].author).toBeUndefined();
+        expect(store.queryChanges({ author: 'mehmet, ayse' })).toEqual([]);
+        expect(store.queryChanges({ fileKey: 'FILE' }).map(c => c.author)).toEqual([undefined]);
+    });
+
+    it('should diff only the pages downloaded by a partial fetch', async () => {
+        const calls: string[] = [];
+        const figma = {
+            getFileMetadata: async () => { calls.push('metadata'); return { name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }; },
+            getFile: async () => { calls.push('file'); return currentFile; },
+            getFileOutline: async () => {
+                calls.push('outline');
+                return cloneAndModify(currentFile, (f) => {
+                    for (const page of f.document.children) for (const frame of page.children) delete frame.children;
+                });
+            },
+            getNodes: async (_key: string, ids: string[]) => {
+                calls.push(`nodes:${ids.join(',')}`);
+                return { nodes: { [ids[0]]: { document: currentFile.document.children[0], components: {}, styles: {} } } };
+            },
+            getFileVersions: async () => ({ versions: [] }),
+            getComments: async () => ({ comments: [] }),
+        };
+        const ai = { generateChangelog: async () => '• Login' };
+        const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+        pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, { logRoot, partialFetch: {} });
+
+        await pipeline.process('FILE');
+        currentFile = cloneAndModify(figmaSample, (f) => {
+            f.version = 'v2';
+            f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+        });
+        await pipeline.process('FILE');
+
+        expect(calls).toEqual(['metadata', 'outline', 'file', 'metadata', 'outline', 'nodes:0:1']);
+        expect(sent[0].changes.map(c => c.property)).toContain('fills');
+        expect(store.getPageHashes('FILE').map(h => h.version)).toEqual(['v2']);
+    });
+
+    describe('with thumbnails', () => {
+        // Login button turns red, but v2 renders the same 10×10 image except for one pixel
+        async function runWithThumbnails(noise?: NoiseRules) {
+            const render = (version: string) => {
+                const image = new PNG({ width: 10, height: 10 });
+                image.data.fill(255);
+                if (version === 'v2') image.data.fill(0, 0, 3);
+                return PNG.sync.write(image);
+            };
+            const figma = {
+                getFileMetadata: async () => ({ name: currentFile.name, lastModified: currentFile.lastModified, version: currentFile.version }),
+                getFile: async () => currentFile,
+                getFileVersions: async () => ({ versions: [] }),
+                getComments: async () => ({ comments: [] }),
+                getImages: async (_key: string, ids: string[], options: { version: string }) =>
+                    Object.fromEntries(ids.map(id => [id, `https://render.example/${options.version}/${id}.png`])),
+                downloadImage: async (url: string) => render(url.split('/')[3]),
+            };
+            const ai = { generateChangelog: async () => '• Login butonu kırmızı oldu' };
+            const notifier = { send: async (notification: Notification) => { sent.push(notification); } };
+            pipeline = new ChangePipeline({ figma, ai, notifier, store } as any, {
+                logRoot,
+                noise,
+                thumbnails: { dir: join(logRoot, 'thumbnails') },
+            });
+
+            await pipeline.process('FILE');
+            currentFile = cloneAndModify(figmaSample, (f) => {
+                f.version = 'v2';
+                f.document.children[0].children[0].children[1].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+            });
+            return pipeline.process('FILE');
+        }
+
+        it('should attach before/after renders and a pixel diff of changed frames', async () => {
+            await runWithThumbnails();
+
+            expect(sent[0].thumbnails).toEqual([{
+                nodeId: '1:1', name: 'Header', page: 'Home Page', pageId: '0:1',
+                before: { path: join(logRoot, 'thumbnails/FILE/v1/1_1.png'), url: 'https://render.example/v1/1:1.png' },
+                after: { path: join(logRoot, 'thumbnails/FILE/v2/1_1.png'), url: 'https://render.example/v2/1:1.png' },
+                diff: { path: join(logRoot, 'thumbnails/FILE/v2/1_1.diff.png'), percentChanged: 1 },
+            }]);
+            const [changeSet] = store.listChangeSets('FILE');
+            expect(store.listThumbnails(changeSet.id)).toEqual(sent[0].thumbnails);
+        });
+
+        it('should suppress frames under the pixel change threshold', async () => {
+            const result = await runWithThumbnails({ minPixelChange: 1.5 });
+
+            expect(result).toEqual({ hasChanges: false, changeCount: 0, suppressedCount: 1 });
+            expect(sent).toHaveLength(0);
+            expect(store.getLastVersion('FILE')).toBe('v2');
+        });
+    });
+
+    it('should skip a version that is already stored', async () => {
+        await pipeline.process('FILE');
+        const result = await pipeline.process('FILE', { author: { name: 'mehmet', date: 'now' } });
+
+        expect(result.hasChanges).toBe(false);
+        expect(sent).toHaveLength(0);
+        // Only the metadata is requested the second time
+        expect(requests).toEqual(['metadata', 'file', 'metadata']);
+    });
+
+    it('should fetch a version the caller already knows without a metadata request', async () => {
+        const result = await pipeline.process('FILE', { version: 'v1' });
+
+        expect(result).toEqual({ hasChanges: false, changeCount: 0, suppressedCount: 0 });
+        expect(requests).toEqual(['file']);
+        expect(store.getLastVersion('FILE')).toBe('v1');
+
+        await pipeline.process('FILE', { version: 'v1' });
+        expect(requests).toEqual(['file']);
+    });
+
+    it('should run plugged-in stages in position', async () => {
+        const order: string[] = [];
+        pipeline.use({ name: 'probe', run: (ctx: PipelineContext) => { order.push(`probe:${ctx.filtered ? 'filtered' : 'raw'}`); } }, { after: 'filter' });
+
+        await pipeline.process('FILE');
+
+        expect(order).toEqual(['probe:filtered']);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { RateBudget, RateBudgetExceeded, requestTier } from '../src/rate-budget.js';
+import { FigmaClient } from '../src/figma-client.js';
+import { Store } from '../src/store.js';
+
+describe('requestTier', () => {
+    it('maps REST paths to Figma endpoint tiers', () => {
+        expect(requestTier('/files/ABC')).toBe(1);
+        expect(requestTier('/files/ABC/nodes?ids=0:1')).toBe(1);
+        expect(requestTier('/images/ABC?ids=1:1')).toBe(1);
+        expect(requestTier('/files/ABC/versions?before=1')).toBe(2);
+        expect(requestTier('/files/ABC/comments')).toBe(2);
+        expect(requestTier('/teams/123/projects')).toBe(2);
+        expect(requestTier('/projects/456/files')).toBe(2);
+        expect(requestTier('/files/ABC/meta')).toBe(3);
+    });
+});
+
+describe('RateBudget', () => {
+    let store: Store;
+    let now: number;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        store = new Store(':memory:');
+        now = Date.parse('2026-10-19T10:00:00Z');
+    });
+
+    afterEach(() => {
+        store.close();
+        vi.restoreAllMocks();
+    });
+
+    function budget(options = {}) {
+        return new RateBudget(store, { limits: { 1: 4 }, maxWaitMs: 10, now: () => now, ...options });
+    }
+
+    it('keeps part of the bucket out of reach of low priority files', async () => {
+        const shared = budget();
+
+        await shared.withPriority('low', async () => {
+            await shared.acquire(1);
+            await shared.acquire(1);
+            await expect(shared.acquire(1)).rejects.toBeInstanceOf(RateBudgetExceeded);
+        });
+        await shared.acquire(1);
+        await shared.acquire(1);
+        await expect(shared.acquire(1)).rejects.toThrow('budget exhausted for tier 1');
+    });
+
+    it('shares and refills the bucket across instances using the same database', async () => {
+        await budget().acquire(1);
+        await budget().acquire(1);
+        await budget().acquire(1);
+        await budget().acquire(1);
+        await expect(budget().acquire(1)).rejects.toBeInstanceOf(RateBudgetExceeded);
+
+        now += 15_000; // 4 per minute → one token back
+        await budget().acquire(1);
+        await expect(budget().acquire(1)).rejects.toBeInstanceOf(RateBudgetExceeded);
+    });
+
+    it('waits out a short block when the priority allows it', async () => {
+        const shared = new RateBudget(store, { limits: { 2: 60_000 } });
+        shared.block(2, 0.05);
+
+        const started = Date.now();
+        await shared.acquire(2);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+        await expect(shared.withPriority('low', async () => {
+            shared.block(2, 0.05);
+            await shared.acquire(2);
+        })).rejects.toBeInstanceOf(RateBudgetExceeded);
+    });
+
+    it('follows and remembers the plan tier', () => {
+        const shared = new RateBudget(store);
+        expect(shared.limit(1)).toBe(10);
+
+        shared.observePlanTier('enterprise');
+        shared.observePlanTier('unknown-plan');
+
+        expect(new RateBudget(store).planTier).toBe('enterprise');
+        expect(new RateBudget(store).limit(1)).toBe(20);
+    });
+
+    it('turns a long Retry-After into a deferral instead of an error for the whole process', async () => {
+        let requests = 0;
+        const server = http.createServer((_req, res) => {
+            requests++;
+            res.writeHead(429, { 'retry-after': '3600', 'x-figma-plan-tier': 'starter' });
+            res.end();
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+        try {
+            const shared = new RateBudget(store);
+            const figma = new FigmaClient('token', baseUrl, { budget: shared });
+
+            const error = await figma.getFile('ABC').catch(err => err);
+            expect(error).toBeInstanceOf(RateBudgetExceeded);
+            expect(error.retryAt.getTime()).toBeGreaterThan(Date.now() + 3_500_000);
+            expect(shared.planTier).toBe('starter');
+
+            // Other requests in the same tier don't even reach Figma
+            await expect(figma.getFile('DEF')).rejects.toBeInstanceOf(RateBudgetExceeded);
+            expect(requests).toBe(1);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotificationRouter, globToRegExp, loadRoutingRules } from '../src/routing.js';
+import { createNotification, type NotificationSink } from '../src/notification.js';
+import { JsonWebhookSink } from '../src/notifier.js';
+import { SlackSink } from '../src/slack.js';
+import { MattermostSink } from '../src/mattermost.js';
+import type { DesignChange } from '../src/differ.js';
+
+function change(page: string, path: string): DesignChange {
+    return {
+        kind: 'MODIFIED', page, pageId: `${page}-id`, nodeId: `${page}:${path}`,
+        path, property: 'fills', summary: 'fills changed',
+    };
+}
+
+const notification = createNotification({
+    fileKey: 'FILE',
+    fileName: 'App',
+    changelog: '• Renkler güncellendi',
+    changes: [
+        change('Mobile/Login', 'Form / Submit'),
+        change('Web/Home', 'Hero / Title'),
+        change('Archive', 'Old Frame'),
+    ],
+    tokenChanges: [],
+});
+
+const defaultSink: NotificationSink = { name: 'Default', send: async () => { } };
+
+describe('globToRegExp', () => {
+    it('keeps * within a segment and lets ** span segments', () => {
+        expect(globToRegExp('Mobile/*').test('Mobile/Login')).toBe(true);
+        expect(globToRegExp('Mobile/*').test('Mobile/Auth/Login')).toBe(false);
+        expect(globToRegExp('Mobile/**').test('Mobile/Auth/Login')).toBe(true);
+        expect(globToRegExp('mobile/?ogin').test('Mobile/Login')).toBe(true);
+        expect(globToRegExp('Web (v2)/*').test('Web (v2)/Home')).toBe(true);
+    });
+});
+
+describe('NotificationRouter', () => {
+    it('sends every change to the default sinks without rules', () => {
+        const [delivery, ...rest] = new NotificationRouter({ routes: [] }).resolve(notification, [defaultSink]);
+
+        expect(rest).toHaveLength(0);
+        expect(delivery.sinks).toEqual([defaultSink]);
+        expect(delivery.notification).toBe(notification);
+    });
+
+    it('splits changes by page glob and leaves the rest to the default sinks', () => {
+        const router = new NotificationRouter({
+            routes: [
+                { page: 'Mobile/*', webhook: 'https://hooks.slack.com/services/mobile' },
+                { page: 'Web/*', webhook: 'https://mm.example.com/hooks/web' },
+            ],
+        });
+
+        const deliveries = router.resolve(notification, [defaultSink]);
+        const byWebhook = Object.fromEntries(deliveries.map(d => [d.webhook ?? 'default', d]));
+
+        expect(byWebhook['https://hooks.slack.com/services/mobile'].sinks[0]).toBeInstanceOf(SlackSink);
+        expect(byWebhook['https://hooks.slack.com/services/mobile'].notification.changes.map(c => c.page)).toEqual(['Mobile/Login']);
+        expect(byWebhook['https://mm.example.com/hooks/web'].sinks[0]).toBeInstanceOf(MattermostSink);
+        expect(byWebhook['https://mm.example.com/hooks/web'].notification.links.pages.map(p => p.page)).toEqual(['Web/Home']);
+        expect(byWebhook.default.sinks).toEqual([defaultSink]);
+        expect(byWebhook.default.notification.changes.map(c => c.page)).toEqual(['Archive']);
+    });
+
+    it('matches node paths and scopes rules to a file', () => {
+        const router = new NotificationRouter({
+            routes: [
+                { file: 'OTHER', page: '**', webhook: 'https://example.com/other' },
+                { file: 'FILE', path: 'Hero/*', webhook: 'https://example.com/hero', type: 'json' },
+            ],
+        });
+
+        const deliveries = router.resolve(notification, [defaultSink]);
+        const hero = deliveries.find(d => d.webhook === 'https://example.com/hero')!;
+
+        expect(deliveries.some(d => d.webhook === 'https://example.com/other')).toBe(false);
+        expect(hero.sinks[0]).toBeInstanceOf(JsonWebhookSink);
+        expect(hero.notification.changes.map(c => c.path)).toEqual(['Hero / Title']);
+    });
+
+    it('falls back to the file route, then to the stored channel webhook', () => {
+        const withRule = new NotificationRouter(
+            { routes: [{ file: 'FILE', webhook: 'https://example.com/file-rule' }] },
+            () => 'https://example.com/channel'
+        );
+        expect(withRule.resolve(notification, [defaultSink]).map(d => d.webhook)).toEqual(['https://example.com/file-rule']);
+
+        const withColumn = new NotificationRouter(
+            { routes: [{ page: 'Mobile/*', webhook: 'https://example.com/mobile' }] },
+            () => 'https://example.com/channel'
+        );
+        const deliveries = withColumn.resolve(notification, [defaultSink]);
+        expect(deliveries.map(d => d.webhook)).toEqual(['https://example.com/mobile', 'https://example.com/channel']);
+        expect(deliveries[1].notification.changes).toHaveLength(2);
+    });
+
+    it('falls back to the default sinks when a stored channel webhook is not a URL', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const router = new NotificationRouter({ routes: [] }, () => 'hooks.slack.com/services/x');
+
+        const deliveries = router.resolve(notification, [defaultSink]);
+
+        expect(deliveries).toEqual([{ sinks: [defaultSink], notification }]);
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+});
+
+describe('loadRoutingRules', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    it('treats a missing rules file as no routing', () => {
+        expect(loadRoutingRules('/nonexistent/design-radar.rules.json')).toEqual({ routes: [] });
+    });
+
+    it('rejects routes without a webhook or matcher', () => {
+        dir = mkdtempSync(join(tmpdir(), 'design-radar-rules-'));
+        const path = join(dir, 'rules.json');
+
+        writeFileSync(path, JSON.stringify({ routes: [{ page: 'Mobile/*' }] }));
+        expect(() => loadRoutingRules(path)).toThrow('routes[0] needs a "webhook" URL');
+
+        writeFileSync(path, JSON.stringify({ routes: [{ webhook: 'https://example.com' }] }));
+        expect(() => loadRoutingRules(path)).toThrow('at least one of');
+
+        for (const webhook of ['hooks.slack.com/services/x', 'http://', 'ftp://example.com/hook']) {
+            writeFileSync(path, JSON.stringify({ routes: [{ page: 'Mobile/*', webhook }] }));
+            expect(() => loadRoutingRules(path)).toThrow('"webhook" must be an http(s) URL');
+        }
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { buildSlackMessage, toMrkdwn } from '../src/slack.js';
+import { createNotification } from '../src/notification.js';
+import { change } from './helpers.js';
+
+describe('toMrkdwn', () => {
+    it('converts Markdown bold and links to Slack mrkdwn', () => {
+        expect(toMrkdwn('**Ödeme** [Figma](https://figma.com/x)')).toBe('*Ödeme* <https://figma.com/x|Figma>');
+    });
+});
+
+describe('buildSlackMessage', () => {
+    const changes = [
+        change({ page: 'Payment', path: 'Footer / Pay Button', summary: 'fills: #3366E6 → #00AA00' }),
+        change({ page: 'Payment', nodeId: '1:4', path: 'Footer / Total', property: 'characters', summary: 'text: "₺10" → "₺12"' }),
+        change({ page: 'Payment', path: 'Footer / Pay Button', property: 'bounds', summary: 'bounds: 100x40 → 120x40' }),
+        change({ pageId: '0:2', nodeId: '2:1', path: 'Hero', kind: 'ADDED', summary: 'Added FRAME' }),
+    ];
+
+    const message = buildSlackMessage(createNotification({
+        fileName: 'Checkout',
+        fileKey: 'FILE',
+        changelog: '**Özet:** ödeme butonu yeşil oldu',
+        changes,
+        tokenChanges: [],
+        author: { name: 'ayse', date: '2026-10-19' },
+    }));
+
+    it('starts with a header, author context and the changelog section', () => {
+        expect(message.blocks[0]).toMatchObject({ type: 'header', text: { text: '🎯 DesignRadar — Checkout' } });
+        expect(message.blocks[1].elements.map((e: any) => e.text)).toEqual([
+            '👤 *ayse* — 2026-10-19',
+            '📂 2 sayfa, 4 değişiklik',
+        ]);
+        expect(message.blocks[2].text.text).toBe('*Özet:* ödeme butonu yeşil oldu');
+        expect(message.text).toContain('4 değişiklik');
+    });
+
+    it('keeps version notes in a single context element', () => {
+        const withVersions = buildSlackMessage(createNotification({
+            fileName: 'Checkout',
+            fileKey: 'FILE',
+            changelog: '',
+            changes,
+            tokenChanges: [],
+            author: { name: 'ayse', date: '2026-10-19' },
+            suppressedCount: 2,
+            versions: Array.from({ length: 12 }, (_, i) => ({ id: String(i), label: `v${i + 1}`, author: 'ayse', createdAt: '2026-10-19T10:00:00Z' })),
+        }));
+
+        const elements = withVersions.blocks[1].elements;
+        expect(elements).toHaveLength(4);
+        expect(elements[3].text.split('\n')).toHaveLength(12);
+        expect(elements[3].text).toMatch(/^🏷️ \*v1\*\n🏷️ \*v2\*/);
+    });
+
+    it('adds a section per page with a page button and deduplicated node buttons', () => {
+        const sections = message.blocks.filter(b => b.type === 'section' && b.accessory);
+        expect(sections).toHaveLength(2);
+        expect(sections[0].text.text).toContain('📄 *Payment* — 3 değişiklik');
+        expect(sections[0].accessory.url).toBe('https://www.figma.com/design/FILE?node-id=0-1');
+
+        const actions = message.blocks.filter(b => b.type === 'actions');
+        expect(actions[0].elements.map((e: any) => e.url)).toEqual([
+            'https://www.figma.com/design/FILE?node-id=1-3',
+            'https://www.figma.com/design/FILE?node-id=1-4',
+        ]);
+        expect(actions[0].elements[0].text.text).toBe('Pay Button');
+    });
+
+    it('lists token changes in their own section', () => {
+        const tokenChanges = Array.from({ length: 17 }, (_, i) => ({
+            kind: 'CHANGED' as const, category: 'color' as const, usage: 2,
+            summary: `color #00000${i % 10} → #FFFFFF, used by 2 node(s)`,
+        }));
+        const withTokens = buildSlackMessage(createNotification({
+            fileName: 'Checkout',
+            fileKey: 'FILE',
+            changelog: '',
+            changes,
+            tokenChanges,
+        }));
+
+        const section = withTokens.blocks.find(b => b.type === 'section' && b.text.text.startsWith('🎨'));
+        expect(section?.text.text).toContain('🎨 *Token Değişiklikleri*\n• color #000000 → #FFFFFF, used by 2 node(s)');
+        expect(section?.text.text).toContain('_...ve 2 token değişikliği daha_');
+        expect(message.blocks.some(b => b.type === 'section' && b.text.text.startsWith('🎨'))).toBe(false);
+    });
+
+    it('adds before/after image blocks for rendered frames', () => {
+        const withImages = buildSlackMessage(createNotification({
+            fileName: 'Checkout',
+            fileKey: 'FILE',
+            changelog: '',
+            changes,
+            tokenChanges: [],
+            thumbnails: [{
+                nodeId: '1:1', name: 'Footer', page: 'Payment', pageId: '0:1',
+                before: { path: '/tmp/b.png', url: 'https://render.example/b.png' },
+                after: { path: '/tmp/a.png', url: 'https://render.example/a.png' },
+            }],
+        }));
+
+        const images = withImages.blocks.filter(b => b.type === 'image');
+        expect(images.map(b => b.image_url)).toEqual(['https://render.example/b.png', 'https://render.example/a.png']);
+        expect(images[0].title.text).toBe('Önce');
+    });
+});
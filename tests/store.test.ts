@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Store } from '../src/store.js';
+import type { DesignChange } from '../src/differ.js';
+import { filterFile } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+
+function saveVersion(store: Store, version: string, modify?: (f: any) => void): void {
+    const filtered: any = JSON.parse(JSON.stringify(filterFile(figmaSample as any)));
+    filtered.version = version;
+    modify?.(filtered);
+    store.saveSnapshot('FILE', version, 'My Figma Design', '', JSON.stringify(filtered));
+}
+
+function setCreatedAt(store: Store, version: string, createdAt: string): void {
+    (store as any).db.prepare('UPDATE snapshots SET created_at = ? WHERE version = ?').run(createdAt, version);
+}
+
+describe('Store', () => {
+    let store: Store;
+
+    beforeEach(() => {
+        store = new Store(':memory:');
+    });
+
+    afterEach(() => {
+        store.close();
+    });
+
+    describe('version history', () => {
+        beforeEach(() => {
+            saveVersion(store, 'v1');
+            const recolor = (f: any) => { f.pages[0].children[0].children[1].fills[0].color = '#FF0000'; };
+            saveVersion(store, 'v2', recolor);
+            saveVersion(store, 'v3', f => {
+                recolor(f);
+                f.pages[0].children[1].children[0].characters = 'Yeni Başlık';
+            });
+            setCreatedAt(store, 'v1', '2026-09-01 10:00:00');
+            setCreatedAt(store, 'v2', '2026-09-15 10:00:00');
+            setCreatedAt(store, 'v3', '2026-10-01 10:00:00');
+        });
+
+        it('should list snapshots newest first', () => {
+            expect(store.listSnapshots('FILE').map(s => s.version)).toEqual(['v3', 'v2', 'v1']);
+        });
+
+        it('should fetch a snapshot by version or by date', () => {
+            expect(store.getSnapshot('FILE', 'v2')?.version).toBe('v2');
+            expect(store.getSnapshotAt('FILE', new Date('2026-09-20T00:00:00Z'))?.version).toBe('v2');
+            expect(store.getSnapshotAt('FILE', new Date('2026-08-01T00:00:00Z'))).toBeUndefined();
+        });
+
+        it('should diff any two stored versions', () => {
+            const changes = store.diffVersions('FILE', 'v1', 'v3');
+            expect(changes.map(c => c.property).sort()).toEqual(['characters', 'fills']);
+            expect(() => store.diffVersions('FILE', 'v1', 'missing')).toThrow('missing');
+        });
+
+        it('should keep a limited number of versions', () => {
+            store.cleanOldSnapshots('FILE', { keepCount: 2 });
+            expect(store.listSnapshots('FILE').map(s => s.version)).toEqual(['v3', 'v2']);
+        });
+
+        it('should drop versions older than the max age but keep the latest', () => {
+            store.cleanOldSnapshots('FILE', { maxAgeDays: 1 });
+            expect(store.listSnapshots('FILE').map(s => s.version)).toEqual(['v3']);
+        });
+
+        it('should keep backfilled versions out of retention', () => {
+            const v1 = store.getSnapshot('FILE', 'v1')!;
+            store.saveSnapshot('FILE', 'v0', v1.fileName, v1.toonData, v1.filteredJson, undefined, new Date('2026-08-01T10:00:00Z'), true);
+
+            store.cleanOldSnapshots('FILE', { keepCount: 1 });
+            store.cleanOldSnapshots('FILE', { maxAgeDays: 1 });
+
+            expect(store.listSnapshots('FILE').map(s => s.version)).toEqual(['v3', 'v0']);
+        });
+    });
+
+    describe('change history', () => {
+        const change = (nodeId: string, page: string, property: string): DesignChange => ({
+            kind: 'MODIFIED', page, pageId: '0:1', nodeId, path: `Frame / ${nodeId}`,
+            property, oldValue: [{ color: '#3366E6' }], newValue: [{ color: '#FF0000' }],
+            summary: `${property} changed`,
+        });
+
+        it('should save a change set with its changes', () => {
+            const id = store.saveChangeSet({
+                fileKey: 'FILE', fileName: 'My Figma Design', fromVersion: 'v1', toVersion: 'v2',
+                author: 'ayse', changelog: '• Renk değişti',
+                changes: [change('1:3', 'Home Page', 'fills'), change('2:2', 'Home Page', 'characters')],
+            });
+
+            const set = store.getChangeSet(id);
+            expect(set).toMatchObject({ fileKey: 'FILE', fromVersion: 'v1', toVersion: 'v2', author: 'ayse', changeCount: 2 });
+            expect(store.listChangeSets('FILE').map(s => s.id)).toEqual([id]);
+
+            const stored = store.queryChanges({ changeSetId: id });
+            expect(stored).toHaveLength(2);
+            expect(stored[0].newValue).toEqual([{ color: '#FF0000' }]);
+            expect(stored[0].author).toBe('ayse');
+        });
+
+        it('should replace changes when the same version pair is saved again', () => {
+            const base = { fileKey: 'FILE', fileName: 'F', fromVersion: 'v1', toVersion: 'v2' };
+            store.saveChangeSet({ ...base, changes: [change('1:3', 'Home Page', 'fills')] });
+            store.saveChangeSet({ ...base, changes: [change('2:2', 'Home Page', 'characters')] });
+
+            expect(store.queryChanges({ fileKey: 'FILE' }).map(c => c.nodeId)).toEqual(['2:2']);
+        });
+
+        it('should filter changes by file, page, node, author and date', () => {
+            store.saveChangeSet({
+                fileKey: 'FILE', fileName: 'F', fromVersion: 'v1', toVersion: 'v2', author: 'ayse',
+                changes: [change('1:3', 'Home Page', 'fills'), change('3:1', 'Settings', 'fills')],
+            });
+            store.saveChangeSet({
+                fileKey: 'OTHER', fileName: 'O', fromVersion: 'v1', toVersion: 'v2', author: 'mehmet',
+                changes: [change('1:3', 'Home Page', 'fills')],
+            });
+
+            expect(store.queryChanges({ fileKey: 'FILE' })).toHaveLength(2);
+            expect(store.queryChanges({ fileKey: 'FILE', page: 'Settings' }).map(c => c.nodeId)).toEqual(['3:1']);
+            expect(store.queryChanges({ nodeId: '1:3' })).toHaveLength(2);
+            expect(store.queryChanges({ author: 'mehmet' }).map(c => c.fileKey)).toEqual(['OTHER']);
+            expect(store.queryChanges({ since: new Date(Date.now() + 60_000) })).toHaveLength(0);
+            expect(store.queryChanges({ until: new Date(Date.now() + 60_000) })).toHaveLength(3);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PNG } from 'pngjs';
+import { FigmaClient } from '../src/figma-client.js';
+import { ThumbnailRenderer, frameIndex, changedFrames } from '../src/thumbnails.js';
+import { filterFile } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+import { change, startFigmaStub, type FigmaStub, type StubRoute } from './helpers.js';
+
+// 4×4 white render; the v2 render of 1:1 has one black pixel
+function render(version: string, nodeId: string): Buffer {
+    const image = new PNG({ width: 4, height: 4 });
+    image.data.fill(255);
+    if (version === 'v2' && nodeId === '1:1') image.data.fill(0, 0, 3);
+    return PNG.sync.write(image);
+}
+
+// /v1/images renders, /renders/* serves the PNGs
+function figmaRoutes(requests: URL[]): StubRoute {
+    return (req, res, url, origin) => {
+        requests.push(url);
+
+        if (url.pathname === '/v1/images/FILE') {
+            if (req.headers['x-figma-token'] !== 'token') {
+                res.writeHead(403);
+                res.end('{"status":403,"err":"Invalid token"}');
+                return;
+            }
+            const version = url.searchParams.get('version');
+            const images: Record<string, string | null> = {};
+            for (const id of url.searchParams.get('ids')!.split(',')) {
+                // 9:9 only exists in v2
+                images[id] = id === '9:9' && version === 'v1' ? null : `${origin}/renders/${version}/${encodeURIComponent(id)}.png`;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ err: null, images }));
+            return;
+        }
+        if (url.pathname.startsWith('/renders/')) {
+            const [, , version, file] = decodeURIComponent(url.pathname).split('/');
+            res.writeHead(200, { 'Content-Type': 'image/png' });
+            res.end(render(version, file.replace(/\.png$/, '')));
+            return;
+        }
+        res.writeHead(404);
+        res.end();
+    };
+}
+
+describe('changedFrames', () => {
+    const file = filterFile(figmaSample as any);
+    const index = frameIndex(file, file);
+
+    it('maps changes to their top-level frame, most-changed first', () => {
+        const frames = changedFrames([
+            change({ nodeId: '2:2' }),
+            change({ nodeId: '1:3' }),
+            change({ nodeId: '2:4' }),
+            change({ nodeId: '2:1', property: 'name' }),
+        ], index);
+
+        expect(frames).toEqual([
+            { nodeId: '2:1', name: 'Hero Section', page: 'Home Page', pageId: '0:1' },
+            { nodeId: '1:1', name: 'Header', page: 'Home Page', pageId: '0:1' },
+        ]);
+    });
+
+    it('caps the number of frames', () => {
+        expect(changedFrames([change({ nodeId: '2:2' }), change({ nodeId: '1:3' })], index, 1)).toHaveLength(1);
+    });
+});
+
+describe('ThumbnailRenderer', () => {
+    let stub: FigmaStub;
+    let baseUrl: string;
+    let requests: URL[];
+    let dir: string;
+
+    beforeAll(async () => {
+        requests = [];
+        stub = await startFigmaStub(figmaRoutes(requests));
+        baseUrl = `${stub.origin}/v1`;
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+        dir = mkdtempSync(join(tmpdir(), 'design-radar-thumbs-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('requests renders for a specific version from the API base URL', async () => {
+        const figma = new FigmaClient('token', baseUrl);
+        const images = await figma.getImages('FILE', ['1:1', '2:1'], { version: 'v1', scale: 2 });
+
+        expect(Object.keys(images)).toEqual(['1:1', '2:1']);
+        expect(requests[0].searchParams.get('ids')).toBe('1:1,2:1');
+        expect(requests[0].searchParams.get('version')).toBe('v1');
+        expect(requests[0].searchParams.get('scale')).toBe('2');
+    });
+
+    it('saves before/after PNGs and a pixel diff per frame', async () => {
+        const renderer = new ThumbnailRenderer(new FigmaClient('token', baseUrl), { dir });
+        const thumbnails = await renderer.render('FILE', [
+            { nodeId: '1:1', name: 'Header', page: 'Home Page', pageId: '0:1' },
+            { nodeId: '9:9', name: 'New Frame', page: 'Home Page', pageId: '0:1' },
+        ], 'v1', 'v2');
+
+        expect(thumbnails).toHaveLength(2);
+        const [header, added] = thumbnails;
+        expect(header.before?.path).toBe(`${dir}/FILE/v1/1_1.png`);
+        expect(header.after?.path).toBe(`${dir}/FILE/v2/1_1.png`);
+        expect(header.after?.url).toContain('/renders/v2/');
+        expect(header.diff).toEqual({ path: `${dir}/FILE/v2/1_1.diff.png`, percentChanged: 6.25 });
+        expect(existsSync(header.diff!.path)).toBe(true);
+
+        expect(added.before).toBeUndefined();
+        expect(added.after?.path).toBe(`${dir}/FILE/v2/9_9.png`);
+        expect(added.diff).toBeUndefined();
+    });
+
+    it('surfaces API errors', async () => {
+        const figma = new FigmaClient('wrong', baseUrl);
+        await expect(figma.getImages('FILE', ['1:1'])).rejects.toThrow('Figma API error 403');
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { toW3CTokens, tokenPatch, jsonPatch } from '../src/token-export.js';
+import { extractTokens, type DesignToken, type TokenCategory, type TokenSet, type TypographyValue } from '../src/tokens.js';
+import { filterFile } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+
+function tokenSet(category: TokenCategory, entries: [string, DesignToken['value']][]): TokenSet {
+    const set: TokenSet = { color: {}, typography: {}, spacing: {}, radius: {} };
+    for (const [key, value] of entries) set[category][key] = { category, key, value, nodeIds: ['1:1'] };
+    return set;
+}
+
+describe('Token Export', () => {
+    const tokens = extractTokens(filterFile(figmaSample as any));
+
+    describe('toW3CTokens', () => {
+        it('should group tokens with W3C $type/$value', () => {
+            const doc = toW3CTokens(tokens);
+
+            expect(Object.keys(doc)).toEqual(['color', 'typography', 'spacing', 'radius']);
+            expect(doc.spacing['16']).toMatchObject({ $type: 'dimension', $value: '16px' });
+            expect(doc.radius['8']).toMatchObject({ $type: 'dimension', $value: '8px' });
+
+            const heading = Object.values(doc.typography).find(t => (t.$value as any).fontSize === '48px');
+            expect(heading).toMatchObject({ $type: 'typography', $value: { fontFamily: 'Inter', fontWeight: 700 } });
+
+            for (const token of Object.values(doc.color)) {
+                expect(token.$type).toBe('color');
+                expect(token.$value).toMatch(/^#[0-9A-F]{6}$/);
+            }
+        });
+
+        it('should export line height as a multiple of the font size', () => {
+            const doc = toW3CTokens(tokenSet('typography', [['Inter/16/400/24', { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeight: 24 }]]));
+
+            expect(doc.typography['inter-16-400-24'].$value).toEqual({ fontFamily: 'Inter', fontSize: '16px', fontWeight: 400, lineHeight: 1.5 });
+        });
+
+        it('should keep tokens whose names collide', () => {
+            const colors = toW3CTokens(tokenSet('color', [['#3366e5', '#3366e5'], ['#3366E5', '#3366E5']])).color;
+            expect(Object.values(colors).map(t => t.$value).sort()).toEqual(['#3366E5', '#3366e5']);
+
+            const fonts: [string, TypographyValue][] = [
+                ['Noto Sans/16', { fontFamily: 'Noto Sans', fontSize: 16 }],
+                ['Noto-Sans/16', { fontFamily: 'Noto-Sans', fontSize: 16 }],
+            ];
+            const typography = toW3CTokens(tokenSet('typography', fonts)).typography;
+            expect(Object.keys(typography)).toHaveLength(2);
+            expect(typography['noto-sans-16']).toBeDefined();
+            // Names don't depend on the order the tokens were found in
+            expect(toW3CTokens(tokenSet('typography', [...fonts].reverse()))).toEqual({ typography });
+        });
+    });
+
+    describe('jsonPatch', () => {
+        it('should produce add, remove and replace operations', () => {
+            const ops = jsonPatch(
+                { a: 1, b: { c: 2 }, 'x/y': 1 },
+                { a: 2, b: {}, d: 3, 'x/y': 1 }
+            );
+
+            expect(ops).toEqual([
+                { op: 'replace', path: '/a', value: 2 },
+                { op: 'remove', path: '/b/c' },
+                { op: 'add', path: '/d', value: 3 },
+            ]);
+        });
+
+        it('should escape JSON pointer segments', () => {
+            expect(jsonPatch({ 'a/b': 1 }, {})).toEqual([{ op: 'remove', path: '/a~1b' }]);
+        });
+    });
+
+    describe('tokenPatch', () => {
+        it('should be empty for identical token sets', () => {
+            expect(tokenPatch(tokens, tokens)).toEqual([]);
+        });
+
+        it('should add and remove renamed value tokens', () => {
+            const changed = JSON.parse(JSON.stringify(tokens));
+            changed.spacing['20'] = { ...changed.spacing['16'], key: '20', value: 20 };
+            delete changed.spacing['16'];
+
+            const ops = tokenPatch(tokens, changed);
+            expect(ops).toContainEqual({ op: 'remove', path: '/spacing/16' });
+            expect(ops).toContainEqual({ op: 'add', path: '/spacing/20', value: { $type: 'dimension', $value: '20px' } });
+        });
+    });
+});
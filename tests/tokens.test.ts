@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { extractTokens, diffTokens } from '../src/tokens.js';
+import { filterFile } from '../src/toon-converter.js';
+import figmaSample from './fixtures/figma-sample.json';
+import { cloneAndModify } from './helpers.js';
+
+describe('Design Tokens', () => {
+    const baseFiltered = filterFile(figmaSample as any);
+
+    describe('extractTokens', () => {
+        it('should collect colors from fills and background colors', () => {
+            const tokens = extractTokens(baseFiltered);
+            const header = baseFiltered.pages[0].children[0];
+
+            expect(tokens.color[header.backgroundColor]).toBeDefined();
+            expect(tokens.color[header.backgroundColor].nodeIds).toContain('1:1');
+        });
+
+        it('should collect typography, spacing and radii', () => {
+            const tokens = extractTokens(baseFiltered);
+
+            const typography = Object.values(tokens.typography).map(t => t.value);
+            expect(typography).toContainEqual(expect.objectContaining({ fontFamily: 'Inter', fontSize: 48, fontWeight: 700 }));
+            expect(tokens.spacing['16']).toBeDefined();
+            expect(tokens.spacing['32'].nodeIds).toEqual(['1:1']);
+            expect(tokens.radius['8']).toBeDefined();
+            expect(tokens.spacing['0']).toBeUndefined();
+        });
+    });
+
+    describe('diffTokens', () => {
+        it('should report no changes for identical token sets', () => {
+            const tokens = extractTokens(baseFiltered);
+            expect(diffTokens(tokens, tokens)).toHaveLength(0);
+        });
+
+        it('should report a color swapped on all its nodes as changed', () => {
+            const oldColor = baseFiltered.pages[0].children[0].children[1].fills[0].color;
+            const usage = extractTokens(baseFiltered).color[oldColor].nodeIds.length;
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                const recolor = (node: any) => {
+                    for (const fill of node.fills || []) {
+                        if (fill.color === oldColor) fill.color = '#FF0000';
+                    }
+                    (node.children || []).forEach(recolor);
+                };
+                f.pages[0].children.forEach(recolor);
+            });
+
+            const changes = diffTokens(extractTokens(baseFiltered), extractTokens(modified));
+            const colorChange = changes.find(c => c.category === 'color');
+
+            expect(changes).toHaveLength(1);
+            expect(colorChange!.kind).toBe('CHANGED');
+            expect(colorChange!.oldValue).toBe(oldColor);
+            expect(colorChange!.newValue).toBe('#FF0000');
+            expect(colorChange!.summary).toContain(`used by ${usage} node`);
+        });
+
+        it('should report a color applied to some nodes as added', () => {
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                f.pages[0].children[0].children[1].fills[0].color = '#FF0000';
+            });
+
+            const changes = diffTokens(extractTokens(baseFiltered), extractTokens(modified));
+            expect(changes.find(c => c.newValue === '#FF0000')?.kind).toBe('ADDED');
+        });
+
+        it('should report brand-new and unused tokens as added and removed', () => {
+            const modified = cloneAndModify(baseFiltered, (f) => {
+                f.pages[0].children[0].cornerRadius = 4;
+                delete f.pages[0].children[0].children[1].cornerRadius;
+            });
+
+            const changes = diffTokens(extractTokens(baseFiltered), extractTokens(modified));
+            expect(changes.find(c => c.category === 'radius' && c.kind === 'ADDED')?.newValue).toBe(4);
+            expect(changes.find(c => c.category === 'radius' && c.kind === 'REMOVED')?.oldValue).toBe(8);
+        });
+    });
+});
@@ -135,6 +135,18 @@ describe('TOON Converter', () => {
             // We expect at least 30% reduction from semantic filtering alone
             expect(reductionPercent).toBeGreaterThan(30);
         });
+
+        it('should keep component names and omit an empty components map', () => {
+            const withComponents = {
+                ...figmaSample,
+                components: { '5:1': { key: 'abc', name: 'Primary Button', description: '', componentSetId: '5:0' } },
+            };
+
+            expect(filterFile(withComponents as any).components).toEqual({
+                '5:1': { name: 'Primary Button', componentSetId: '5:0' },
+            });
+            expect(filterFile(figmaSample as any).components).toBeUndefined();
+        });
     });
 
     describe('TOON encode/decode', () => {